@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+import { Cli } from "./cli/Cli.js";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function main(): Promise<void> {
+  const cli = new Cli({
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    readStdin,
+  });
+  // Without a command the MCP stdio server starts, as before
+  process.exitCode = await cli.run(process.argv.slice(2));
+}
+
+main().catch((error) => {
+  console.error("Fatal error in tksq:", error);
+  process.exit(1);
+});
@@ -0,0 +1,668 @@
+import { parseArgs, type ParseArgsOptionsConfig } from "node:util";
+import { readFile, writeFile, mkdir, readdir, stat } from "node:fs/promises";
+import { dirname, extname, join, relative, resolve, sep } from "node:path";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createServer } from "../server.js";
+import { HttpServer } from "../http/HttpServer.js";
+import { Pipeline } from "../pipeline/Pipeline.js";
+import { StagePluginLoader } from "../pipeline/StagePluginLoader.js";
+import { DictionaryLoader, type DomainName } from "../dictionaries/DictionaryLoader.js";
+import { ConfigManager } from "../config/ConfigManager.js";
+import { Profiles } from "../config/profiles.js";
+import { ConfigSchema } from "../config/schema.js";
+import { PhraseStore } from "../learning/PhraseStore.js";
+import { HistoryLog } from "../history/HistoryLog.js";
+import { TokenCounterFactory } from "../tokenizer/TokenCounter.js";
+import { LanguageDetector } from "../language/LanguageDetector.js";
+import { LanguageRegistry } from "../dictionaries/languages/registry.js";
+import { LanguagePackLoader } from "../dictionaries/LanguagePackLoader.js";
+import { TextDiffer } from "../diff/TextDiffer.js";
+import { Legend } from "../legend/Legend.js";
+import type { LanguageCode } from "../dictionaries/languages/types.js";
+import type { LanguageSetting, TksqConfig } from "../config/defaults.js";
+import type {
+  CompressionLevel,
+  ContentType,
+  PipelineConfig,
+  PipelineResult,
+  TokenizerType,
+} from "../pipeline/stages/IStage.js";
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+}
+
+/**
+ * Bad invocation; reported with the usage text and exit code 2.
+ */
+export class CliUsageError extends Error {}
+
+const LEVELS: CompressionLevel[] = ["light", "medium", "aggressive"];
+// Includes language packs loaded from the config dir
+const languageChoices = (): LanguageSetting[] => ["auto", ...LanguageRegistry.availableLanguages()];
+const TOKENIZERS: TokenizerType[] = ["cl100k_base", "o200k_base", "approximate"];
+const CONTENT_TYPES: ContentType[] = ["auto", "prose", "code", "structured", "log"];
+
+const DEFAULT_EXTENSIONS = [".md", ".txt"];
+const SKIPPED_DIRS = new Set(["node_modules", ".git"]);
+
+const DEFAULT_HTTP_PORT = 3917;
+
+// Inputs longer than this are compressed in chunks
+const CHUNKED_THRESHOLD = 64_000;
+
+// Flags mirror the tksq_compress tool schema
+const COMPRESS_FLAGS = {
+  level: { type: "string", short: "l" },
+  domain: { type: "string", short: "d" },
+  language: { type: "string" },
+  tokenizer: { type: "string", short: "t" },
+  "preserve-patterns": { type: "string", multiple: true },
+  budget: { type: "string" },
+  "content-type": { type: "string" },
+  legend: { type: "boolean" },
+  profile: { type: "string" },
+} as const;
+
+const OUTPUT_FLAGS = {
+  json: { type: "boolean" },
+  output: { type: "string", short: "o" },
+} as const;
+
+type CompressFlags = {
+  level?: string;
+  domain?: string;
+  language?: string;
+  tokenizer?: string;
+  "preserve-patterns"?: string[];
+  budget?: string;
+  "content-type"?: string;
+  legend?: boolean;
+  profile?: string;
+};
+
+export const USAGE = `Usage: tksq <command> [options]
+
+Commands:
+  compress [file|dir|-]   Compress a file, stdin (default) or a directory tree
+  count [file|-]          Count tokens
+  diff [file|-]           Word diff between the input and its compression
+  benchmark [file|-]      Compare compression levels on the input
+  serve [--http]          Run the MCP server on stdio (default), or on
+                          streamable HTTP with --http [--port 3917] [--host 127.0.0.1]
+
+Compression options (as in the tksq_compress tool):
+  -l, --level <light|medium|aggressive>
+  -d, --domain <general|programming|legal|academic>
+      --language <code>             auto, en, ru, de, fr, es or a language
+                                    pack from the config dir
+  -t, --tokenizer <cl100k_base|o200k_base|approximate>
+      --preserve-patterns <regex>   Repeatable
+      --budget <tokens>
+      --content-type <auto|prose|code|structured|log>
+      --legend
+      --profile <name>              Named profile (see tksq_configure)
+
+Output options:
+      --json                JSON instead of plain text
+  -o, --output <path>       Write compressed text to a file (directory in directory mode)
+      --ext <.ext>          Directory mode file extensions, repeatable (default: .md, .txt)
+      --compressed <file>   diff: compare against this file instead of compressing
+`;
+
+function choice<T extends string>(
+  flag: string,
+  value: string | undefined,
+  allowed: readonly T[]
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new CliUsageError(
+      `Invalid --${flag} "${value}". Expected one of: ${allowed.join(", ")}`
+    );
+  }
+  return value as T;
+}
+
+function percent(before: number, after: number): number {
+  return before > 0 ? Math.round(((before - after) / before) * 10000) / 100 : 0;
+}
+
+export class Cli {
+  private readonly configManager = new ConfigManager();
+  private readonly phraseStore = new PhraseStore();
+  private readonly history = new HistoryLog();
+  private pipelinePromise: Promise<Pipeline> | null = null;
+
+  constructor(private readonly io: CliIO) {}
+
+  /**
+   * Run a command line (without the node and script arguments). Returns
+   * the exit code: 0 success, 1 failure, 2 usage error.
+   */
+  async run(argv: string[]): Promise<number> {
+    const [command = "serve", ...rest] = argv;
+
+    try {
+      // Before any config is read, so settings may name user languages
+      const languages = await LanguagePackLoader.loadAll();
+      for (const error of languages.errors) {
+        this.io.stderr(`tksq: skipped ${error}\n`);
+      }
+
+      switch (command) {
+        case "compress":
+          return await this.compress(rest);
+        case "count":
+          return await this.count(rest);
+        case "diff":
+          return await this.diff(rest);
+        case "benchmark":
+          return await this.benchmark(rest);
+        case "serve":
+          return await this.serve(rest);
+        case "help":
+        case "--help":
+        case "-h":
+          this.io.stdout(USAGE);
+          return 0;
+        default:
+          throw new CliUsageError(`Unknown command "${command}"`);
+      }
+    } catch (error) {
+      if (error instanceof CliUsageError) {
+        this.io.stderr(`tksq: ${error.message}\n\n${USAGE}`);
+        return 2;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      this.io.stderr(`tksq: ${message}\n`);
+      return 1;
+    }
+  }
+
+  // -- compress --
+
+  private async compress(argv: string[]): Promise<number> {
+    const { values, positionals } = this.parse(argv, {
+      ...COMPRESS_FLAGS,
+      ...OUTPUT_FLAGS,
+      ext: { type: "string", multiple: true },
+    });
+    const [input = "-"] = positionals;
+
+    if (input !== "-" && (await stat(input)).isDirectory()) {
+      return this.compressDirectory(input, values);
+    }
+
+    const text = await this.readInput(input);
+    const { result, summary, tokenizer } = await this.compressText(text, values);
+    await this.recordHistory(result, summary, tokenizer);
+    const compressed = this.withLegend(result);
+
+    if (values.output) {
+      await writeFile(values.output, compressed + "\n", "utf-8");
+    }
+
+    if (values.json) {
+      this.io.stdout(
+        JSON.stringify(
+          {
+            ...(values.output ? {} : { compressed: result.compressed }),
+            ...(result.legend ? { legend: result.legend } : {}),
+            stats: result.stats,
+            ...summary,
+          },
+          null,
+          2
+        ) + "\n"
+      );
+    } else if (values.output) {
+      this.io.stdout(this.formatStats(result) + "\n");
+    } else {
+      this.io.stdout(compressed + "\n");
+    }
+    return 0;
+  }
+
+  private async compressDirectory(
+    inputDir: string,
+    values: CompressFlags & { json?: boolean; output?: string; ext?: string[] }
+  ): Promise<number> {
+    if (!values.output) {
+      throw new CliUsageError("Directory mode needs --output <dir>");
+    }
+
+    const root = resolve(inputDir);
+    const outRoot = resolve(values.output);
+    const extensions = (values.ext ?? DEFAULT_EXTENSIONS).map((e) =>
+      (e.startsWith(".") ? e : `.${e}`).toLowerCase()
+    );
+    const files = await this.listFiles(root, extensions, outRoot);
+
+    const rows: Array<{
+      path: string;
+      originalTokens: number;
+      compressedTokens: number;
+      reductionPercent: number;
+      contentType: string;
+    }> = [];
+
+    for (const file of files) {
+      const text = await readFile(file, "utf-8");
+      const { result, summary, tokenizer } = await this.compressText(text, values);
+      await this.recordHistory(result, summary, tokenizer);
+      const path = relative(root, file);
+      const target = join(outRoot, path);
+
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, this.withLegend(result) + "\n", "utf-8");
+
+      rows.push({
+        path: path.split(sep).join("/"),
+        originalTokens: result.stats.originalTokens,
+        compressedTokens: result.stats.compressedTokens,
+        reductionPercent: result.stats.reductionPercent,
+        contentType: result.stats.contentType,
+      });
+    }
+
+    const originalTokens = rows.reduce((sum, r) => sum + r.originalTokens, 0);
+    const compressedTokens = rows.reduce((sum, r) => sum + r.compressedTokens, 0);
+    const total = {
+      files: rows.length,
+      originalTokens,
+      compressedTokens,
+      reductionPercent: percent(originalTokens, compressedTokens),
+    };
+
+    if (values.json) {
+      this.io.stdout(JSON.stringify({ files: rows, total }, null, 2) + "\n");
+    } else {
+      const lines = rows.map(
+        (r) =>
+          `${r.path}: ${r.originalTokens} -> ${r.compressedTokens} tokens (-${r.reductionPercent}%)`
+      );
+      lines.push(
+        `Total: ${total.files} file(s), ${total.originalTokens} -> ${total.compressedTokens} tokens (-${total.reductionPercent}%)`
+      );
+      this.io.stdout(lines.join("\n") + "\n");
+    }
+    return 0;
+  }
+
+  /**
+   * Files under root with a matching extension, sorted. Skips dot
+   * directories, node_modules and the output directory.
+   */
+  private async listFiles(
+    root: string,
+    extensions: string[],
+    exclude: string
+  ): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await readdir(root, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const path = join(root, entry.name);
+      if (entry.isDirectory()) {
+        if (path === exclude || SKIPPED_DIRS.has(entry.name)) continue;
+        if (entry.name.startsWith(".")) continue;
+        files.push(...(await this.listFiles(path, extensions, exclude)));
+      } else if (
+        entry.isFile() &&
+        extensions.includes(extname(entry.name).toLowerCase())
+      ) {
+        files.push(path);
+      }
+    }
+
+    return files.sort();
+  }
+
+  // -- count --
+
+  private async count(argv: string[]): Promise<number> {
+    const { values, positionals } = this.parse(argv, {
+      tokenizer: COMPRESS_FLAGS.tokenizer,
+      json: OUTPUT_FLAGS.json,
+    });
+    const text = await this.readInput(positionals[0] ?? "-");
+    const userConfig = await this.configManager.load();
+    const tokenizer =
+      choice("tokenizer", values.tokenizer, TOKENIZERS) ?? userConfig.tokenizer;
+    const counter = await TokenCounterFactory.createReady(tokenizer);
+
+    const report = {
+      tokens: counter.count(text),
+      characters: text.length,
+      words: text.split(/\s+/).filter((w) => w.length > 0).length,
+      lines: text.split("\n").length,
+      tokenizer: counter.name,
+    };
+
+    if (values.json) {
+      this.io.stdout(JSON.stringify(report, null, 2) + "\n");
+    } else {
+      this.io.stdout(
+        [
+          `Tokens: ${report.tokens}`,
+          `Characters: ${report.characters}`,
+          `Words: ${report.words}`,
+          `Lines: ${report.lines}`,
+          `Tokenizer: ${report.tokenizer}`,
+        ].join("\n") + "\n"
+      );
+    }
+    return 0;
+  }
+
+  // -- diff --
+
+  private async diff(argv: string[]): Promise<number> {
+    const { values, positionals } = this.parse(argv, {
+      ...COMPRESS_FLAGS,
+      json: OUTPUT_FLAGS.json,
+      compressed: { type: "string" },
+    });
+    const original = await this.readInput(positionals[0] ?? "-");
+
+    let compressed: string;
+    let result: PipelineResult | null = null;
+    if (values.compressed !== undefined) {
+      compressed = await readFile(values.compressed, "utf-8");
+    } else {
+      ({ result } = await this.compressText(original, values));
+      compressed = result.compressed;
+    }
+
+    const diff = new TextDiffer().diff(original, compressed);
+
+    if (values.json) {
+      this.io.stdout(
+        JSON.stringify(
+          {
+            formatted: diff.formatted,
+            wordsRemoved: diff.removedCount,
+            wordsAdded: diff.addedCount,
+            ...(result ? { stats: result.stats } : {}),
+          },
+          null,
+          2
+        ) + "\n"
+      );
+    } else {
+      const lines = [
+        diff.formatted,
+        "",
+        "---",
+        `Words removed: ${diff.removedCount}`,
+        `Words added: ${diff.addedCount}`,
+      ];
+      if (result) lines.push(this.formatStats(result));
+      this.io.stdout(lines.join("\n") + "\n");
+    }
+    return 0;
+  }
+
+  // -- benchmark --
+
+  private async benchmark(argv: string[]): Promise<number> {
+    const { values, positionals } = this.parse(argv, {
+      ...COMPRESS_FLAGS,
+      json: OUTPUT_FLAGS.json,
+    });
+    if (values.level !== undefined || values.budget !== undefined) {
+      throw new CliUsageError("benchmark runs every level; --level and --budget don't apply");
+    }
+    const text = await this.readInput(positionals[0] ?? "-");
+
+    const levels = [];
+    for (const level of LEVELS) {
+      const { result } = await this.compressText(text, { ...values, level });
+      levels.push({
+        level,
+        compressedTokens: result.stats.compressedTokens,
+        reductionPercent: result.stats.reductionPercent,
+        stages: result.stats.stageBreakdown.map((s) => s.stage),
+        originalTokens: result.stats.originalTokens,
+      });
+    }
+
+    if (values.json) {
+      this.io.stdout(
+        JSON.stringify(
+          {
+            originalTokens: levels[0].originalTokens,
+            levels: levels.map(({ originalTokens: _, ...rest }) => rest),
+          },
+          null,
+          2
+        ) + "\n"
+      );
+    } else {
+      const rows = [
+        `Original: ${levels[0].originalTokens} tokens (${text.length} chars)`,
+        "",
+        "Level        | Tokens | Reduction | Stages",
+        "-------------|--------|-----------|-------",
+        ...levels.map(
+          (l) =>
+            `${l.level.padEnd(13)}| ${String(l.compressedTokens).padEnd(7)}| -${String(l.reductionPercent + "%").padEnd(10)}| ${l.stages.join(" -> ")}`
+        ),
+      ];
+      this.io.stdout(rows.join("\n") + "\n");
+    }
+    return 0;
+  }
+
+  // -- serve --
+
+  private async serve(argv: string[]): Promise<number> {
+    const { values } = this.parse(argv, {
+      http: { type: "boolean" },
+      port: { type: "string", short: "p" },
+      host: { type: "string" },
+    });
+
+    if (!values.http) {
+      if (values.port !== undefined || values.host !== undefined) {
+        throw new CliUsageError("--port and --host need --http");
+      }
+      const server = createServer();
+      await server.connect(new StdioServerTransport());
+      return 0;
+    }
+
+    const port = Number(values.port ?? DEFAULT_HTTP_PORT);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new CliUsageError(`Invalid --port "${values.port}"`);
+    }
+
+    const http = new HttpServer({ port, host: values.host });
+    const { url } = await http.start();
+    this.io.stderr(`tksq MCP server listening on ${url}\n`);
+
+    const shutdown = async () => {
+      await http.close();
+      process.exit(0);
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+    return 0;
+  }
+
+  // -- helpers --
+
+  private parse<T extends ParseArgsOptionsConfig>(argv: string[], options: T) {
+    try {
+      return parseArgs({
+        args: argv,
+        options,
+        allowPositionals: true as const,
+        strict: true as const,
+      });
+    } catch (error) {
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async readInput(path: string): Promise<string> {
+    if (path === "-") return this.io.readStdin();
+    return readFile(path, "utf-8");
+  }
+
+  private getPipeline(): Promise<Pipeline> {
+    if (!this.pipelinePromise) {
+      this.pipelinePromise = (async () => {
+        const config = await this.configManager.load();
+        const pipeline = new Pipeline();
+        await StagePluginLoader.registerAll(
+          pipeline,
+          config.stagePlugins,
+          ConfigManager.getConfigDir()
+        );
+        return pipeline;
+      })();
+    }
+    return this.pipelinePromise;
+  }
+
+  private async compressText(
+    text: string,
+    flags: CompressFlags
+  ): Promise<{
+    result: PipelineResult;
+    summary: { level: CompressionLevel; domain: DomainName; language: LanguageCode };
+    tokenizer: TokenizerType;
+  }> {
+    const { config: userConfig, stages } = this.applyProfile(
+      await this.configManager.load(),
+      flags.profile
+    );
+    const config = await this.pipelineConfig(text, flags, userConfig);
+    // An explicit level replaces the profile's stage list
+    if (flags.level === undefined) config.stages = stages;
+    const pipeline = await this.getPipeline();
+
+    const chunked = text.length > CHUNKED_THRESHOLD && config.budget === undefined;
+    const result = chunked
+      ? await pipeline.compressChunked(text, config)
+      : await pipeline.compress(text, config);
+
+    return {
+      result,
+      summary: {
+        level: result.stats.budget?.level ?? config.level,
+        domain: this.domain(flags, userConfig),
+        language: config.dictionary.language,
+      },
+      tokenizer: config.tokenizer,
+    };
+  }
+
+  // The log is for reporting; failing to write it shouldn't fail a compression
+  private async recordHistory(
+    result: PipelineResult,
+    summary: { level: CompressionLevel; domain: DomainName; language: LanguageCode },
+    tokenizer: TokenizerType
+  ): Promise<void> {
+    try {
+      await this.history.record({
+        tool: "cli_compress",
+        ...summary,
+        tokenizer,
+        tokensIn: result.stats.originalTokens,
+        tokensOut: result.stats.compressedTokens,
+      });
+    } catch {
+      // Ignore
+    }
+  }
+
+  private async pipelineConfig(
+    text: string,
+    flags: CompressFlags,
+    userConfig: TksqConfig
+  ): Promise<PipelineConfig> {
+    const level = choice("level", flags.level, LEVELS) ?? userConfig.level;
+    const tokenizer =
+      choice("tokenizer", flags.tokenizer, TOKENIZERS) ?? userConfig.tokenizer;
+    const langSetting =
+      choice("language", flags.language, languageChoices()) ?? userConfig.language;
+    const language =
+      langSetting === "auto" ? LanguageDetector.resolve(text, userConfig.language) : langSetting;
+
+    let budget: number | undefined;
+    if (flags.budget !== undefined) {
+      budget = Number(flags.budget);
+      if (!Number.isInteger(budget) || budget <= 0) {
+        throw new CliUsageError(`Invalid --budget "${flags.budget}". Expected a positive integer`);
+      }
+    }
+
+    const preservePatterns = (
+      flags["preserve-patterns"] ?? userConfig.preservePatterns
+    ).map((p) => {
+      const error = ConfigSchema.patternError(p);
+      if (error) {
+        throw new CliUsageError(`Invalid --preserve-patterns regex: ${p} (${error})`);
+      }
+      return new RegExp(p, "g");
+    });
+
+    // Promoted patterns first so explicit config wins, as in the server
+    const promoted = await this.phraseStore.getPromoted();
+    const customSubs = { ...promoted, ...userConfig.customSubstitutions };
+    const domain = this.domain(flags, userConfig);
+    const subs = Object.keys(customSubs).length > 0 ? customSubs : undefined;
+
+    return {
+      level,
+      preservePatterns,
+      tokenizer,
+      dictionary: DictionaryLoader.load(domain, language, subs),
+      // Mixed-language text gets each language's own pack under auto
+      dictionaryFor:
+        langSetting === "auto"
+          ? (code) => DictionaryLoader.load(domain, code, subs)
+          : undefined,
+      budget,
+      contentType: choice("content-type", flags["content-type"], CONTENT_TYPES),
+      legend: flags.legend,
+    };
+  }
+
+  private applyProfile(userConfig: TksqConfig, name: string | undefined) {
+    try {
+      return Profiles.apply(userConfig, name);
+    } catch (error) {
+      // A bad --profile is a usage error; a bad active profile is not
+      if (name === undefined) throw error;
+      throw new CliUsageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private domain(flags: CompressFlags, userConfig: TksqConfig): DomainName {
+    return (
+      choice("domain", flags.domain, DictionaryLoader.availableDomains()) ??
+      userConfig.domain
+    );
+  }
+
+  private withLegend(result: PipelineResult): string {
+    if (!result.legend || result.legend.length === 0) return result.compressed;
+    return `${result.compressed}\n${Legend.format(result.legend)}`;
+  }
+
+  private formatStats(result: PipelineResult): string {
+    const { stats } = result;
+    const line = `Tokens: ${stats.originalTokens} -> ${stats.compressedTokens} (-${stats.reductionPercent}%)`;
+    if (!stats.languages || stats.languages.length < 2) return line;
+    const languages = stats.languages
+      .map((l) => `${l.language} ${l.originalTokens} -> ${l.compressedTokens}`)
+      .join(", ");
+    return `${line} [${languages}]`;
+  }
+}
@@ -1,11 +1,70 @@
-import { readFile, writeFile, mkdir } from "node:fs/promises";
-import { join } from "node:path";
+import { readFile, mkdir } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
 import { homedir } from "node:os";
 import { DEFAULT_CONFIG, type TksqConfig } from "./defaults.js";
 import { DEFAULT_LEARNING_CONFIG } from "../learning/types.js";
+import { CONFIG_SHAPE, CONFIG_VERSION, ConfigSchema } from "./schema.js";
+import { AtomicFile } from "../storage/AtomicFile.js";
+import { FileLock } from "../storage/FileLock.js";
 
+/**
+ * Where an effective setting came from, lowest precedence first.
+ */
+export type ConfigLayer = "default" | "global" | "project" | "env";
+
+export interface ResolvedConfig {
+  config: TksqConfig;
+  // Layers that set each top-level key; merged collections can list several
+  sources: Record<keyof TksqConfig, ConfigLayer[]>;
+  projectPath: string | null;
+  // Invalid or unknown settings in any layer, as "<source>: <path>: <message>"
+  warnings: string[];
+}
+
+export interface ConfigManagerOptions {
+  // Where project config discovery starts (default: process.cwd())
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+export const PROJECT_CONFIG_FILE = ".tksqrc";
+
+// Project files come with cloned repos, so they can't load plugins or
+// change the user's learning settings
+const PROJECT_KEYS = [
+  "level",
+  "tokenizer",
+  "domain",
+  "language",
+  "preservePatterns",
+  "customSubstitutions",
+  "profiles",
+  "activeProfile",
+] as const;
+
+type ScalarKey = "level" | "tokenizer" | "domain" | "language" | "activeProfile";
+
+// Settings a project file or env variable replace outright
+const ENV_VARIABLES: Record<ScalarKey, string> = {
+  level: "TKSQ_LEVEL",
+  tokenizer: "TKSQ_TOKENIZER",
+  domain: "TKSQ_DOMAIN",
+  language: "TKSQ_LANGUAGE",
+  activeProfile: "TKSQ_PROFILE",
+};
+
+/**
+ * Effective config is built from layers, each over the one before:
+ * defaults, the global config.json, the nearest .tksqrc walking up from
+ * the working directory, then TKSQ_* environment variables. Scalars are
+ * replaced by higher layers; preserve patterns are appended, custom
+ * substitutions and profiles merged by key. Only the global layer is
+ * ever written.
+ */
 export class ConfigManager {
-  private config: TksqConfig | null = null;
+  private resolved: ResolvedConfig | null = null;
+
+  constructor(private readonly options: ConfigManagerOptions = {}) {}
 
   static getConfigDir(): string {
     if (process.platform === "win32") {
@@ -26,56 +85,445 @@ export class ConfigManager {
     return join(ConfigManager.getConfigDir(), "config.json");
   }
 
+  // TKSQ_* variable that overrides a setting, if any
+  static envVariable(key: keyof TksqConfig): string | undefined {
+    return ENV_VARIABLES[key as ScalarKey];
+  }
+
+  /**
+   * Nearest .tksqrc in `cwd` or one of its parents, with its contents.
+   */
+  static async findProjectConfig(
+    cwd: string
+  ): Promise<{ path: string; raw: string } | null> {
+    let dir = resolve(cwd);
+    for (;;) {
+      const path = join(dir, PROJECT_CONFIG_FILE);
+      try {
+        return { path, raw: await readFile(path, "utf-8") };
+      } catch {
+        // Not here; keep walking up
+      }
+      const parent = dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+
   async load(): Promise<TksqConfig> {
-    if (this.config) return this.config;
+    return (await this.resolve()).config;
+  }
+
+  async resolve(): Promise<ResolvedConfig> {
+    if (this.resolved) return this.resolved;
+
+    const global = await this.loadGlobal();
+    const sources = {} as Record<keyof TksqConfig, ConfigLayer[]>;
+    for (const key of Object.keys(DEFAULT_CONFIG) as (keyof TksqConfig)[]) {
+      sources[key] = [key in global.raw ? "global" : "default"];
+    }
+    const config = global.config;
+    const warnings = global.issues.map(
+      (issue) => `${ConfigManager.getConfigPath()}: ${issue}`
+    );
 
+    const project = await ConfigManager.findProjectConfig(
+      this.options.cwd ?? process.cwd()
+    );
+    if (project) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(project.raw);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`${project.path}: Invalid JSON (${message}); file ignored`);
+      }
+      if (parsed !== undefined) {
+        const { value, issues } = ConfigSchema.validate(parsed, PROJECT_KEYS);
+        for (const key of Object.keys(parsed as object)) {
+          if (
+            Object.hasOwn(CONFIG_SHAPE, key) &&
+            !(PROJECT_KEYS as readonly string[]).includes(key)
+          ) {
+            issues.push(`${key}: Can only be set in the global config`);
+          }
+        }
+        warnings.push(...issues.map((issue) => `${project.path}: ${issue}`));
+        this.applyProject(config, sources, value);
+      }
+    }
+
+    const env = this.options.env ?? process.env;
+    for (const [key, name] of Object.entries(ENV_VARIABLES) as [ScalarKey, string][]) {
+      const value = env[name];
+      if (value === undefined || value === "") continue;
+      const result = CONFIG_SHAPE[key].safeParse(value);
+      if (!result.success) {
+        warnings.push(`Ignored ${name}="${value}": ${ConfigSchema.format(result.error).join("; ")}`);
+        continue;
+      }
+      (config as unknown as Record<string, unknown>)[key] = result.data;
+      sources[key] = ["env"];
+    }
+
+    this.resolved = {
+      config,
+      sources,
+      projectPath: project?.path ?? null,
+      warnings,
+    };
+    return this.resolved;
+  }
+
+  /**
+   * The global config.json over defaults, without project or env layers.
+   * The file is migrated to the current version and validated field by
+   * field: invalid settings fall back to their defaults and are reported
+   * in `issues`, the rest still apply.
+   */
+  async loadGlobal(): Promise<{
+    config: TksqConfig;
+    raw: Partial<TksqConfig>;
+    issues: string[];
+    // Settings in the file that were left out as invalid or unknown
+    dropped: string[];
+  }> {
+    const defaults = {
+      raw: {},
+      config: { ...DEFAULT_CONFIG, learning: { ...DEFAULT_LEARNING_CONFIG } },
+      dropped: [],
+    };
+
+    let text: string;
+    try {
+      text = await readFile(ConfigManager.getConfigPath(), "utf-8");
+    } catch {
+      // No config file yet
+      return { ...defaults, issues: [] };
+    }
+
+    let parsed: unknown;
     try {
-      const configPath = ConfigManager.getConfigPath();
-      const raw = await readFile(configPath, "utf-8");
-      const parsed = JSON.parse(raw);
+      parsed = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        ...defaults,
+        issues: [`Invalid JSON (${message}); using defaults until the file is fixed`],
+      };
+    }
+
+    const isObject = typeof parsed === "object" && parsed !== null && !Array.isArray(parsed);
+    const migration = isObject
+      ? ConfigSchema.migrate(parsed as Record<string, unknown>)
+      : { config: parsed, issues: [] };
+    const { value, issues } = ConfigSchema.validate(migration.config);
+    const dropped = isObject
+      ? Object.keys(parsed as object).filter((key) => key !== "version" && !(key in value))
+      : [];
 
-      this.config = {
+    return {
+      raw: value,
+      dropped,
+      config: {
         ...DEFAULT_CONFIG,
-        ...parsed,
+        ...value,
+        version: CONFIG_VERSION,
         customSubstitutions: {
           ...DEFAULT_CONFIG.customSubstitutions,
-          ...(parsed.customSubstitutions ?? {}),
+          ...(value.customSubstitutions ?? {}),
         },
         learning: {
           ...DEFAULT_LEARNING_CONFIG,
-          ...(parsed.learning ?? {}),
+          ...(value.learning ?? {}),
         },
+      },
+      issues: [...migration.issues, ...issues],
+    };
+  }
+
+  static getBackupPath(): string {
+    return `${ConfigManager.getConfigPath()}.bak`;
+  }
+
+  /**
+   * Write the global config. The previous file is copied to
+   * config.json.bak first; a file from a newer tksq, or with an unusable
+   * version, is never overwritten.
+   */
+  async save(config: TksqConfig): Promise<void> {
+    await this.locked(() => this.write(config, Object.keys(config)));
+  }
+
+  /**
+   * Update the global config and return the new effective config. Values
+   * set by a project file or env variable still take precedence.
+   */
+  async update(partial: Partial<TksqConfig>): Promise<TksqConfig> {
+    if (partial.preservePatterns) ConfigManager.checkPatterns(partial.preservePatterns);
+    await this.locked(async () => {
+      const { config: current, dropped } = await this.loadGlobal();
+      const updated: TksqConfig = { ...current, ...partial };
+
+      if (partial.customSubstitutions) {
+        ConfigManager.requireValid(dropped, "customSubstitutions");
+        updated.customSubstitutions = {
+          ...current.customSubstitutions,
+          ...partial.customSubstitutions,
+        };
+      }
+
+      await this.write(updated, Object.keys(partial));
+    });
+    return this.load();
+  }
+
+  // -- custom substitutions --
+
+  async removeSubstitutions(phrases: string[]): Promise<TksqConfig> {
+    return this.edit("customSubstitutions", (config) => {
+      for (const phrase of phrases) {
+        ConfigManager.requireSubstitution(config, phrase);
+        delete config.customSubstitutions[phrase];
+      }
+    });
+  }
+
+  /**
+   * Change the phrase of a substitution, keeping its replacement.
+   */
+  async renameSubstitution(from: string, to: string): Promise<TksqConfig> {
+    return this.edit("customSubstitutions", (config) => {
+      ConfigManager.requireSubstitution(config, from);
+      if (Object.hasOwn(config.customSubstitutions, to)) {
+        throw new Error(`Custom substitution "${to}" already exists`);
+      }
+      const { [from]: replacement, ...rest } = config.customSubstitutions;
+      config.customSubstitutions = { ...rest, [to]: replacement };
+    });
+  }
+
+  async replaceSubstitutions(substitutions: Record<string, string>): Promise<TksqConfig> {
+    return this.edit(
+      "customSubstitutions",
+      (config) => {
+        config.customSubstitutions = { ...substitutions };
+      },
+      false
+    );
+  }
+
+  // -- preserve patterns --
+
+  async addPreservePatterns(patterns: string[]): Promise<TksqConfig> {
+    ConfigManager.checkPatterns(patterns);
+    return this.edit("preservePatterns", (config) => {
+      config.preservePatterns = [...new Set([...config.preservePatterns, ...patterns])];
+    });
+  }
+
+  async removePreservePatterns(patterns: string[]): Promise<TksqConfig> {
+    return this.edit("preservePatterns", (config) => {
+      for (const pattern of patterns) {
+        ConfigManager.requirePattern(config, pattern);
+      }
+      config.preservePatterns = config.preservePatterns.filter(
+        (p) => !patterns.includes(p)
+      );
+    });
+  }
+
+  /**
+   * Edit a pattern in place, keeping its position.
+   */
+  async renamePreservePattern(from: string, to: string): Promise<TksqConfig> {
+    ConfigManager.checkPatterns([to]);
+    return this.edit("preservePatterns", (config) => {
+      const index = ConfigManager.requirePattern(config, from);
+      if (config.preservePatterns.includes(to)) {
+        throw new Error(`Preserve pattern "${to}" already exists`);
+      }
+      config.preservePatterns[index] = to;
+    });
+  }
+
+  async replacePreservePatterns(patterns: string[]): Promise<TksqConfig> {
+    ConfigManager.checkPatterns(patterns);
+    return this.edit(
+      "preservePatterns",
+      (config) => {
+        config.preservePatterns = [...patterns];
+      },
+      false
+    );
+  }
+
+  /**
+   * Reject unusable patterns before they reach the file; one bad pattern
+   * would otherwise affect every later compression.
+   */
+  static checkPatterns(patterns: string[]): void {
+    for (const pattern of patterns) {
+      const error = ConfigSchema.patternError(pattern);
+      if (error) throw new Error(`Invalid preserve pattern "${pattern}": ${error}`);
+    }
+  }
+
+  // Apply a change to one setting of the global layer and save it.
+  // Replacing a setting doesn't depend on its current value.
+  private async edit(
+    key: "customSubstitutions" | "preservePatterns",
+    change: (config: TksqConfig) => void,
+    buildsOnCurrent = true
+  ): Promise<TksqConfig> {
+    await this.locked(async () => {
+      const { config, dropped } = await this.loadGlobal();
+      if (buildsOnCurrent) ConfigManager.requireValid(dropped, key);
+      const copy: TksqConfig = {
+        ...config,
+        customSubstitutions: { ...config.customSubstitutions },
+        preservePatterns: [...config.preservePatterns],
       };
-    } catch {
-      this.config = { ...DEFAULT_CONFIG, learning: { ...DEFAULT_LEARNING_CONFIG } };
+      change(copy);
+      await this.write(copy, [key]);
+    });
+    return this.load();
+  }
+
+  // Edits build on the loaded value; on a default that stands in for an
+  // invalid one they would replace what the user wrote
+  private static requireValid(dropped: string[], key: keyof TksqConfig): void {
+    if (dropped.includes(key)) {
+      throw new Error(
+        `${key} in ${ConfigManager.getConfigPath()} is invalid; fix or replace it before editing it`
+      );
     }
+  }
 
-    return this.config!;
+  // Read-modify-write of config.json, exclusive across processes
+  private async locked(fn: () => Promise<void>): Promise<void> {
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    await FileLock.withLock(ConfigManager.getConfigPath(), fn);
   }
 
-  async save(config: TksqConfig): Promise<void> {
-    this.config = config;
-    const configDir = ConfigManager.getConfigDir();
-    await mkdir(configDir, { recursive: true });
-    await writeFile(
-      ConfigManager.getConfigPath(),
-      JSON.stringify(config, null, 2),
-      "utf-8"
+  /**
+   * Callers hold the lock. `replaced` are the settings this write sets;
+   * invalid or unknown settings in the file that it doesn't set are
+   * written back as they were, so an unrelated change doesn't delete a
+   * mistyped setting along with its warning.
+   */
+  private async write(config: TksqConfig, replaced: string[]): Promise<void> {
+    this.resolved = null;
+    const { value, issues } = ConfigSchema.validate(config);
+    if (issues.length > 0) {
+      throw new Error(`Invalid config: ${issues.join("; ")}`);
+    }
+
+    const configPath = ConfigManager.getConfigPath();
+    const previous = await readFile(configPath, "utf-8").catch(() => null);
+    let kept: Record<string, unknown> = {};
+    if (previous !== null) {
+      kept = ConfigManager.keptFields(previous, replaced);
+      await AtomicFile.write(ConfigManager.getBackupPath(), previous);
+    }
+
+    await AtomicFile.write(
+      configPath,
+      JSON.stringify({ ...value, ...kept, version: CONFIG_VERSION }, null, 2)
     );
   }
 
-  async update(partial: Partial<TksqConfig>): Promise<TksqConfig> {
-    const current = await this.load();
-    const updated: TksqConfig = { ...current, ...partial };
+  // Settings of the previous file that loading leaves out and `replaced`
+  // doesn't cover. Throws for files that must not be overwritten.
+  private static keptFields(text: string, replaced: string[]): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Broken JSON is replaced; the backup keeps it
+      return {};
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+
+    const configPath = ConfigManager.getConfigPath();
+    const raw = parsed as Record<string, unknown>;
+    const versionError = ConfigSchema.versionError(raw);
+    if (versionError) {
+      throw new Error(`${configPath}: version: ${versionError}; not overwriting it`);
+    }
+    const version = (raw.version as number | undefined) ?? 1;
+    if (version > CONFIG_VERSION) {
+      throw new Error(
+        `${configPath} was written by a newer tksq (config version ${version}); not overwriting it`
+      );
+    }
+
+    const migrated = ConfigSchema.migrate(raw).config;
+    const { value } = ConfigSchema.validate(migrated);
+    const kept: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(migrated)) {
+      if (key === "version" || key in value || replaced.includes(key)) continue;
+      kept[key] = field;
+    }
+    return kept;
+  }
 
-    if (partial.customSubstitutions) {
-      updated.customSubstitutions = {
-        ...current.customSubstitutions,
-        ...partial.customSubstitutions,
+  private static requireSubstitution(config: TksqConfig, phrase: string): void {
+    if (!Object.hasOwn(config.customSubstitutions, phrase)) {
+      throw new Error(
+        `No custom substitution "${phrase}" in ${ConfigManager.getConfigPath()}`
+      );
+    }
+  }
+
+  private static requirePattern(config: TksqConfig, pattern: string): number {
+    const index = config.preservePatterns.indexOf(pattern);
+    if (index === -1) {
+      throw new Error(`No preserve pattern "${pattern}" in ${ConfigManager.getConfigPath()}`);
+    }
+    return index;
+  }
+
+  private applyProject(
+    config: TksqConfig,
+    sources: Record<keyof TksqConfig, ConfigLayer[]>,
+    project: Partial<TksqConfig>
+  ): void {
+    for (const key of Object.keys(ENV_VARIABLES) as ScalarKey[]) {
+      if (project[key] === undefined) continue;
+      (config as unknown as Record<string, unknown>)[key] = project[key];
+      sources[key] = ["project"];
+    }
+
+    if (project.preservePatterns?.length) {
+      config.preservePatterns = [
+        ...new Set([...config.preservePatterns, ...project.preservePatterns]),
+      ];
+      sources.preservePatterns = ConfigManager.addLayer(sources.preservePatterns, "project");
+    }
+
+    if (
+      project.customSubstitutions &&
+      Object.keys(project.customSubstitutions).length > 0
+    ) {
+      config.customSubstitutions = {
+        ...config.customSubstitutions,
+        ...project.customSubstitutions,
       };
+      sources.customSubstitutions = ConfigManager.addLayer(
+        sources.customSubstitutions,
+        "project"
+      );
     }
 
-    await this.save(updated);
-    return updated;
+    if (project.profiles && Object.keys(project.profiles).length > 0) {
+      config.profiles = { ...config.profiles, ...project.profiles };
+      sources.profiles = ConfigManager.addLayer(sources.profiles, "project");
+    }
+  }
+
+  // Appending to a default (empty) collection replaces the default source
+  private static addLayer(layers: ConfigLayer[], layer: ConfigLayer): ConfigLayer[] {
+    return [...layers.filter((l) => l !== "default"), layer];
   }
 }
@@ -6,25 +6,39 @@ import type { DomainName } from "../dictionaries/DictionaryLoader.js";
 import type { LanguageCode } from "../dictionaries/languages/types.js";
 import type { LearningConfig } from "../learning/types.js";
 import { DEFAULT_LEARNING_CONFIG } from "../learning/types.js";
+import type { CompressionProfile } from "./profiles.js";
+import { CONFIG_VERSION } from "./schema.js";
 
 export type LanguageSetting = LanguageCode | "auto";
 
 export interface TksqConfig {
+  // Format version; older files are migrated on load
+  version: number;
   level: CompressionLevel;
   tokenizer: TokenizerType;
   domain: DomainName;
   language: LanguageSetting;
   preservePatterns: string[];
   customSubstitutions: Record<string, string>;
+  // Stage plugin modules: paths relative to the config dir, or package names
+  stagePlugins: string[];
+  // User-defined profiles; built-ins live in profiles.ts
+  profiles: Record<string, CompressionProfile>;
+  // Profile applied when a tool call doesn't name one
+  activeProfile: string | null;
   learning: LearningConfig;
 }
 
 export const DEFAULT_CONFIG: TksqConfig = {
+  version: CONFIG_VERSION,
   level: "medium",
   tokenizer: "cl100k_base",
   domain: "general",
   language: "auto",
   preservePatterns: [],
   customSubstitutions: {},
+  stagePlugins: [],
+  profiles: {},
+  activeProfile: null,
   learning: { ...DEFAULT_LEARNING_CONFIG },
 };
@@ -0,0 +1,104 @@
+import type {
+  CompressionLevel,
+  TokenizerType,
+} from "../pipeline/stages/IStage.js";
+import type { DomainName } from "../dictionaries/DictionaryLoader.js";
+import type { TksqConfig } from "./defaults.js";
+
+/**
+ * A named set of compression settings. Fields left out fall back to the
+ * config; preservePatterns replace the configured ones, and stages replace
+ * the level's stage list.
+ */
+export interface CompressionProfile {
+  level?: CompressionLevel;
+  domain?: DomainName;
+  tokenizer?: TokenizerType;
+  preservePatterns?: string[];
+  stages?: string[];
+}
+
+// What tksq_pack keeps intact in agent output
+const HANDOFF_PATTERNS = [
+  "`[^`]+`", // inline code
+  "```[\\s\\S]*?```", // code blocks
+  "[\\w/.\\\\-]+\\.[a-zA-Z]{1,5}(?::\\d+)?", // file paths with optional line numbers
+  "\\b[Ll][Ii][Nn][Ee]\\s+\\d+", // "line 42" references, any case
+];
+
+export const BUILT_IN_PROFILES: Readonly<Record<string, CompressionProfile>> = {
+  "agent-handoff": { level: "medium", preservePatterns: HANDOFF_PATTERNS },
+  "agent-handoff-aggressive": { level: "aggressive", preservePatterns: HANDOFF_PATTERNS },
+};
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export class Profiles {
+  static isBuiltIn(name: string): boolean {
+    return Object.hasOwn(BUILT_IN_PROFILES, name);
+  }
+
+  /**
+   * Built-in and user profiles; user profiles can't shadow built-ins.
+   */
+  static all(config: TksqConfig): Record<string, CompressionProfile> {
+    return { ...config.profiles, ...BUILT_IN_PROFILES };
+  }
+
+  static get(config: TksqConfig, name: string): CompressionProfile {
+    const profile = Profiles.all(config)[name];
+    if (!profile) {
+      const available = Object.keys(Profiles.all(config)).sort().join(", ");
+      throw new Error(`Unknown profile "${name}". Available: ${available}`);
+    }
+    return profile;
+  }
+
+  static validateName(name: string): void {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error(
+        `Invalid profile name "${name}". Use letters, digits, "-" and "_"`
+      );
+    }
+    if (Profiles.isBuiltIn(name)) {
+      throw new Error(`Profile "${name}" is built in and can't be changed`);
+    }
+  }
+
+  /**
+   * Config with the named profile (or the active one) applied. Returns
+   * the profile's stage list separately, since it isn't a config setting.
+   */
+  static apply(
+    config: TksqConfig,
+    name?: string
+  ): { config: TksqConfig; profile: string | null; stages?: string[] } {
+    const profileName = name ?? config.activeProfile;
+    if (!profileName) return { config, profile: null };
+
+    const profile = Profiles.get(config, profileName);
+    return {
+      config: {
+        ...config,
+        level: profile.level ?? config.level,
+        domain: profile.domain ?? config.domain,
+        tokenizer: profile.tokenizer ?? config.tokenizer,
+        preservePatterns: profile.preservePatterns ?? config.preservePatterns,
+      },
+      profile: profileName,
+      stages: profile.stages,
+    };
+  }
+
+  static describe(profile: CompressionProfile): string {
+    const parts: string[] = [];
+    if (profile.level) parts.push(`level=${profile.level}`);
+    if (profile.domain) parts.push(`domain=${profile.domain}`);
+    if (profile.tokenizer) parts.push(`tokenizer=${profile.tokenizer}`);
+    if (profile.stages) parts.push(`stages=${profile.stages.join(",")}`);
+    if (profile.preservePatterns) {
+      parts.push(`preserve=${profile.preservePatterns.length} pattern(s)`);
+    }
+    return parts.length > 0 ? parts.join(" ") : "(config defaults)";
+  }
+}
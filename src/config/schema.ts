@@ -0,0 +1,181 @@
+import { z } from "zod";
+import type { TksqConfig } from "./defaults.js";
+import { LanguageRegistry } from "../dictionaries/languages/registry.js";
+
+// Bump with a migration below whenever the config format changes
+export const CONFIG_VERSION = 2;
+
+// Zero-length matches show up in ordinary text even when "" doesn't match
+const EMPTY_MATCH_SAMPLE = "Lorem ipsum 42, foo_bar.baz\n\t`x` (y) - Привет!";
+
+const regex = z.string().superRefine((pattern, ctx) => {
+  const error = ConfigSchema.patternError(pattern);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+const level = z.enum(["light", "medium", "aggressive"]);
+const tokenizer = z.enum(["cl100k_base", "o200k_base", "approximate"]);
+const domain = z.enum(["general", "programming", "legal", "academic"]);
+// Checked against the registry when validating, so user language packs count
+const language = z.string().superRefine((code, ctx) => {
+  if (code === "auto" || LanguageRegistry.has(code)) return;
+  const available = ["auto", ...LanguageRegistry.availableLanguages()].join(", ");
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    message: `Unknown language "${code}". Available: ${available}`,
+  });
+});
+
+export const PROFILE_SCHEMA = z
+  .object({
+    level: level.optional(),
+    domain: domain.optional(),
+    tokenizer: tokenizer.optional(),
+    preservePatterns: z.array(regex).optional(),
+    stages: z.array(z.string()).optional(),
+  })
+  .strict();
+
+/**
+ * One schema per top-level setting, so an invalid field falls back to its
+ * default without discarding the rest of the file.
+ */
+export const CONFIG_SHAPE: Record<keyof TksqConfig, z.ZodTypeAny> = {
+  version: z.number().int().positive(),
+  level,
+  tokenizer,
+  domain,
+  language,
+  preservePatterns: z.array(regex),
+  customSubstitutions: z.record(
+    z.string().refine((phrase) => phrase.trim() !== "", { message: "Empty phrase" }),
+    z.string()
+  ),
+  stagePlugins: z.array(z.string()),
+  profiles: z.record(PROFILE_SCHEMA),
+  activeProfile: z.string().nullable(),
+  learning: z
+    .object({
+      enabled: z.boolean(),
+      minFrequency: z.number().int().positive(),
+      autoPromote: z.boolean(),
+      maxCandidates: z.number().int().positive(),
+    })
+    .partial()
+    .strict(),
+};
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from. Files without a
+ * version predate versioning and are version 1.
+ */
+const MIGRATIONS: Record<number, (raw: RawConfig) => RawConfig> = {
+  // v1 had no version field; the settings themselves are unchanged
+  1: (raw) => ({ ...raw, version: 2 }),
+};
+
+export class ConfigSchema {
+  /**
+   * Why a preserve pattern can't be used, or null. A pattern that can
+   * match the empty string would protect nothing and stall the matcher.
+   */
+  static patternError(pattern: string): string | null {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "g");
+    } catch {
+      return "Invalid regular expression";
+    }
+    for (const sample of ["", EMPTY_MATCH_SAMPLE]) {
+      for (const match of sample.matchAll(regex)) {
+        if (match[0] === "") return "Pattern matches the empty string";
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Why a file's version can't be migrated, or null. Files without a
+   * version are version 1.
+   */
+  static versionError(raw: RawConfig): string | null {
+    const { version } = raw;
+    if (version === undefined) return null;
+    if (typeof version === "number" && Number.isInteger(version) && version >= 1) return null;
+    return `Expected an integer of at least 1, received ${JSON.stringify(version)}`;
+  }
+
+  /**
+   * Upgrade a parsed config file to CONFIG_VERSION. Files from a newer
+   * tksq are returned unchanged with a note; files with an unusable
+   * version migrate to an empty config, so defaults apply.
+   */
+  static migrate(raw: RawConfig): { config: RawConfig; from: number; issues: string[] } {
+    const versionError = ConfigSchema.versionError(raw);
+    if (versionError) {
+      return {
+        config: {},
+        from: 1,
+        issues: [`version: ${versionError}; using defaults until the file is fixed`],
+      };
+    }
+
+    const from = (raw.version as number | undefined) ?? 1;
+    if (from > CONFIG_VERSION) {
+      return {
+        config: raw,
+        from,
+        issues: [
+          `version: written by a newer tksq (version ${from}, this one supports ${CONFIG_VERSION}); unknown settings are ignored`,
+        ],
+      };
+    }
+
+    let config = raw;
+    for (let version = from; version < CONFIG_VERSION; version++) {
+      config = MIGRATIONS[version](config);
+    }
+    return { config, from, issues: [] };
+  }
+
+  /**
+   * Validate the given keys of a parsed config. Returns the valid fields
+   * and one "path: message" line per problem; invalid and unknown fields
+   * are left out.
+   */
+  static validate(
+    raw: unknown,
+    keys: readonly (keyof TksqConfig)[] = Object.keys(CONFIG_SHAPE) as (keyof TksqConfig)[]
+  ): { value: Partial<TksqConfig>; issues: string[] } {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      return { value: {}, issues: ["Expected a JSON object"] };
+    }
+
+    const value: Record<string, unknown> = {};
+    const issues: string[] = [];
+    for (const [key, field] of Object.entries(raw)) {
+      if (!Object.hasOwn(CONFIG_SHAPE, key)) {
+        issues.push(`${key}: Unrecognized setting (ignored)`);
+        continue;
+      }
+      if (!keys.includes(key as keyof TksqConfig)) continue;
+
+      const result = CONFIG_SHAPE[key as keyof TksqConfig].safeParse(field);
+      if (result.success) {
+        value[key] = result.data;
+      } else {
+        issues.push(...ConfigSchema.format(result.error, key));
+      }
+    }
+    return { value: value as Partial<TksqConfig>, issues };
+  }
+
+  static format(error: z.ZodError, prefix?: string): string[] {
+    return error.issues.map((issue) => {
+      const path = [...(prefix ? [prefix] : []), ...issue.path].join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import type { DetectedContentType } from "../pipeline/stages/IStage.js";
+import { Markdown } from "../markdown/Markdown.js";
+
+/**
+ * Heuristic content type detection. No external dependencies.
+ * Classifies lines of a text sample and picks the dominant kind; fenced
+ * code blocks are ignored since the pipeline preserves them anyway.
+ */
+export class ContentTypeDetector {
+  private static readonly SAMPLE_LINES = 200;
+  private static readonly LINE_THRESHOLD = 0.5;
+
+  private static readonly LOG_LINE: RegExp[] = [
+    /^\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2})?/, // ISO timestamp
+    /^\[?\d{2}:\d{2}:\d{2}([.,]\d+)?\]?\s/, // time of day
+    /^\[?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\]?[\s:]/,
+    /^\s+at\s+\S.*(\(.*:\d+(:\d+)?\)|:\d+:\d+)$/, // JS / Java frames
+    /^\s*File ".*", line \d+/, // Python frames
+    /^Traceback \(most recent call last\):/,
+    /^\s*\.\.\. \d+ more$/,
+    /^(Caused by: |Exception in thread )/,
+  ];
+
+  private static readonly CODE_LINE: RegExp[] = [
+    /[;{}]\s*$/,
+    /^\s*[})\]]/,
+    /^\s*(import|export|from|const|let|var|function|class|interface|type|enum|def|return|if|elif|else|for|while|switch|case|try|catch|finally|public|private|protected|static|async|await|package|using|fn|pub|impl|struct|#include|#define)\b/,
+    /^\s*(\/\/|\/\*|\*\s|#!)/,
+    /^\s*@\w+/, // decorators / annotations
+    /=>\s*[{(]?\s*$/,
+  ];
+
+  private static readonly YAML_LINE =
+    /^\s*(-\s+\S|-\s*$|[\w.$"'-]+\s*:(\s|$)|#|---\s*$)/;
+
+  private static readonly YAML_KEY = /^\s*[\w.$"'-]+\s*:(\s|$)/;
+
+  static detect(text: string): DetectedContentType {
+    const stripped = text.replace(/```[\s\S]*?```/g, "").trim();
+    if (stripped.length === 0) return "prose";
+
+    if (ContentTypeDetector.isJson(stripped)) return "structured";
+
+    const lines = stripped
+      .split("\n")
+      .slice(0, ContentTypeDetector.SAMPLE_LINES)
+      .filter((l) => l.trim().length > 0);
+
+    if (lines.length === 0) return "prose";
+
+    const ratio = (test: (line: string) => boolean): number =>
+      lines.filter(test).length / lines.length;
+
+    const threshold = ContentTypeDetector.LINE_THRESHOLD;
+
+    const logRatio = ratio((l) =>
+      ContentTypeDetector.LOG_LINE.some((p) => p.test(l))
+    );
+    if (logRatio >= threshold) return "log";
+
+    if (ContentTypeDetector.isDelimited(lines)) return "structured";
+
+    const proseRatio = ratio(ContentTypeDetector.isProseLine);
+
+    const yamlRatio = ratio((l) => ContentTypeDetector.YAML_LINE.test(l));
+    // Markdown headings and bullet lists also look like YAML comments and
+    // sequences; YAML needs at least one mapping key
+    const hasYamlKey = lines.some((l) => ContentTypeDetector.YAML_KEY.test(l));
+    if (
+      lines.length >= 2 &&
+      yamlRatio >= 0.8 &&
+      hasYamlKey &&
+      proseRatio < threshold
+    ) {
+      return "structured";
+    }
+
+    const codeRatio = ratio((l) =>
+      ContentTypeDetector.CODE_LINE.some((p) => p.test(l))
+    );
+    if (codeRatio >= 0.4 && codeRatio > proseRatio) return "code";
+
+    return "prose";
+  }
+
+  private static isJson(text: string): boolean {
+    const first = text[0];
+    if (first !== "{" && first !== "[") return false;
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * CSV / TSV: at least 3 lines that all share the same non-zero number of
+   * delimiters.
+   */
+  private static isDelimited(lines: string[]): boolean {
+    if (lines.length < 3) return false;
+    // Markdown tables are prose documents; their cells get compressed
+    if (lines.some((l) => Markdown.isTableDelimiter(l))) return false;
+    for (const delimiter of [",", "\t", ";", "|"]) {
+      const counts = lines.map((l) => l.split(delimiter).length - 1);
+      if (counts[0] > 0 && counts.every((c) => c === counts[0])) {
+        // Commas are common in prose; require short, sentence-free cells
+        const avgCell =
+          lines.join("").length / (lines.length * (counts[0] + 1));
+        if (delimiter !== "," || avgCell < 25) return true;
+      }
+    }
+    return false;
+  }
+
+  private static isProseLine(line: string): boolean {
+    const words = line.trim().split(/\s+/);
+    if (words.length < 6) return false;
+    const wordLike = words.filter((w) => /^[\p{L}'’-]+[.,;:!?)]*$/u.test(w));
+    return wordLike.length / words.length >= 0.7;
+  }
+}
@@ -69,6 +69,7 @@ export class DictionaryLoader {
         replacement: r.replacement,
       })),
       abbreviations: new Map<string, string>(),
+      customKeys: new Set<string>(),
       shorthand: {
         contractions: pack.shorthand.contractions,
         articles: pack.shorthand.articles,
@@ -85,6 +86,7 @@ export class DictionaryLoader {
     if (customSubstitutions) {
       for (const [key, value] of Object.entries(customSubstitutions)) {
         dict.substitutions.set(key.toLowerCase(), value);
+        dict.customKeys.add(key.toLowerCase());
       }
     }
 
@@ -0,0 +1,183 @@
+import { readdir, readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { z } from "zod";
+import { ConfigManager } from "../config/ConfigManager.js";
+import { ConfigSchema } from "../config/schema.js";
+import { LanguageRegistry } from "./languages/registry.js";
+import type { LanguageCode, LanguagePack } from "./languages/types.js";
+
+export interface LanguagePackLoadResult {
+  // Codes registered, in file name order
+  loaded: LanguageCode[];
+  // One message per pack that was skipped
+  errors: string[];
+}
+
+const JSON_EXTENSIONS = new Set([".json"]);
+const MODULE_EXTENSIONS = new Set([".js", ".mjs"]);
+
+// Lowercase language subtag, optionally followed by region or variant subtags
+const CODE_PATTERN = /^[a-z]{2,8}(?:-[a-z0-9]{1,8})*$/;
+
+// Letter after ". "; group 1 is the letter to capitalize
+const DEFAULT_CAPITALIZE_AFTER_PERIOD = /\.\s+(\p{Ll})/gu;
+
+/**
+ * A regex in a pack file: "/source/flags", or a bare source compiled with
+ * "gi". JS packs may also use RegExp literals. Every pattern is applied to
+ * all matches, so "g" is always added.
+ */
+const regex = z
+  .union([z.string(), z.instanceof(RegExp)])
+  .transform((spec, ctx) => {
+    let source: string;
+    let flags: string;
+    if (spec instanceof RegExp) {
+      ({ source, flags } = spec);
+    } else {
+      const literal = /^\/(.+)\/([a-z]*)$/s.exec(spec);
+      [source, flags] = literal ? [literal[1], literal[2]] : [spec, "gi"];
+    }
+    if (!flags.includes("g")) flags += "g";
+
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      return z.NEVER;
+    }
+  });
+
+const word = z.string().refine((w) => w.trim() !== "", { message: "Empty entry" });
+const rewrites = z.array(z.tuple([regex, z.string()])).default([]);
+
+const PACK_SCHEMA = z
+  .object({
+    code: z
+      .string()
+      .regex(CODE_PATTERN, "Expected a lowercase language code such as \"de\" or \"pt-br\"")
+      .refine((code) => code !== "auto", { message: "\"auto\" is reserved" }),
+    name: z.string().optional(),
+    script: z.enum(["latin", "cyrillic"]).default("latin"),
+    fillers: z.array(word).default([]),
+    // { "phrase": "replacement" } or [["phrase", "replacement"], ...]
+    substitutions: z
+      .union([z.record(word, z.string()), z.array(z.tuple([word, z.string()]))])
+      .transform((subs) => (Array.isArray(subs) ? subs : Object.entries(subs)))
+      .default({}),
+    redundancies: z
+      .array(z.object({ pattern: regex, replacement: z.string() }).strict())
+      .default([]),
+    shorthand: z
+      .object({
+        contractions: rewrites,
+        articles: regex.nullable().default(null),
+        copulas: rewrites,
+        pronounElision: rewrites,
+        patronymicPattern: regex.nullable().default(null),
+        deverbalNouns: rewrites,
+      })
+      .strict()
+      .default({}),
+    stopwords: z.array(word).default([]),
+    capitalizeAfterPeriod: regex.optional(),
+  })
+  .strict();
+
+export class LanguagePackLoader {
+  static getDir(): string {
+    return join(ConfigManager.getConfigDir(), "languages");
+  }
+
+  /**
+   * Validate a pack definition. `source` names the file in error messages.
+   */
+  static parse(raw: unknown, source: string): LanguagePack {
+    const result = PACK_SCHEMA.safeParse(raw);
+    if (!result.success) {
+      throw new Error(
+        `Invalid language pack ${source}: ${ConfigSchema.format(result.error).join("; ")}`
+      );
+    }
+    const { capitalizeAfterPeriod, ...pack } = result.data;
+    return {
+      ...pack,
+      capitalizeAfterPeriod: capitalizeAfterPeriod ?? new RegExp(DEFAULT_CAPITALIZE_AFTER_PERIOD),
+    };
+  }
+
+  /**
+   * Read one pack: a JSON file, or a JS module whose default export is the
+   * pack definition.
+   */
+  static async load(path: string): Promise<LanguagePack> {
+    const extension = extname(path);
+    let raw: unknown;
+    if (JSON_EXTENSIONS.has(extension)) {
+      try {
+        raw = JSON.parse(await readFile(path, "utf-8"));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid language pack ${path}: ${message}`);
+      }
+    } else if (MODULE_EXTENSIONS.has(extension)) {
+      try {
+        raw = ((await import(pathToFileURL(path).href)) as { default?: unknown }).default;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to load language pack ${path}: ${message}`);
+      }
+    } else {
+      throw new Error(`Language pack ${path} must be a .json, .js or .mjs file`);
+    }
+    return LanguagePackLoader.parse(raw, path);
+  }
+
+  /**
+   * Load and register every pack in `dir` (default: the languages directory
+   * in the config dir). A pack that fails to load is skipped and reported;
+   * the rest still register. A missing directory loads nothing.
+   */
+  static async loadAll(dir: string = LanguagePackLoader.getDir()): Promise<LanguagePackLoadResult> {
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return { loaded: [], errors: [] };
+    }
+
+    const result: LanguagePackLoadResult = { loaded: [], errors: [] };
+    const sources = new Map<LanguageCode, string>();
+    for (const file of files.sort()) {
+      const extension = extname(file);
+      if (!JSON_EXTENSIONS.has(extension) && !MODULE_EXTENSIONS.has(extension)) continue;
+
+      const path = join(dir, file);
+      let pack: LanguagePack;
+      try {
+        pack = await LanguagePackLoader.load(path);
+      } catch (error) {
+        result.errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      const earlier = sources.get(pack.code);
+      if (earlier) {
+        result.errors.push(`Language pack ${path}: "${pack.code}" is already defined by ${earlier}`);
+        continue;
+      }
+      try {
+        LanguageRegistry.register(pack);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Language pack ${path}: ${message}`);
+        continue;
+      }
+      sources.set(pack.code, file);
+      result.loaded.push(pack.code);
+    }
+    return result;
+  }
+}
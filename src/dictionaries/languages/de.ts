@@ -0,0 +1,386 @@
+import type { LanguagePack } from "./types.js";
+import { letterBoundaryRegex as words } from "../../language/WordBoundary.js";
+
+const FILLERS: string[] = [
+  // Hedging / vagueness
+  "im Grunde genommen",
+  "im Grunde",
+  "im Prinzip",
+  "an und für sich",
+  "gewissermaßen",
+  "sozusagen",
+  "quasi",
+  "irgendwie",
+  "eigentlich",
+  "im Großen und Ganzen",
+  "alles in allem",
+
+  // Paraphrasing markers
+  "mit anderen Worten",
+  "anders gesagt",
+  "anders ausgedrückt",
+
+  // Honesty markers
+  "ehrlich gesagt",
+  "offen gesagt",
+  "um ehrlich zu sein",
+
+  // Precision qualifiers
+  "grob gesagt",
+  "streng genommen",
+  "genau genommen",
+
+  // Interjections / asides
+  "übrigens",
+  "nebenbei bemerkt",
+  "nebenbei gesagt",
+  "in der Tat",
+  "letzten Endes",
+  "unterm Strich",
+  "unter dem Strich",
+  "im Endeffekt",
+
+  // "As mentioned" family
+  "wie bereits erwähnt",
+  "wie bereits gesagt",
+  "wie schon erwähnt",
+  "wie schon gesagt",
+  "wie gesagt",
+  "wie oben beschrieben",
+  "wie oben erwähnt",
+  "wie bereits beschrieben",
+  "wie man sieht",
+  "wie wir sehen",
+
+  // Self-evident markers
+  "selbstverständlich",
+  "natürlich",
+  "bekanntlich",
+
+  // Opinion hedging
+  "meiner Meinung nach",
+  "meines Erachtens",
+  "aus meiner Sicht",
+  "unserer Meinung nach",
+  "unseres Erachtens",
+  "aus unserer Sicht",
+  "ich würde sagen",
+  "sagen wir mal",
+
+  // Emphasis without content
+  "in diesem Zusammenhang",
+  "an dieser Stelle",
+];
+
+const SUBSTITUTIONS: Array<[string, string]> = [
+  // === Standard abbreviations ===
+  ["zum Beispiel", "z.B."],
+  ["beispielsweise", "z.B."],
+  ["das heißt", "d.h."],
+  ["und so weiter", "usw."],
+  ["und Ähnliches", "u.Ä."],
+  ["unter anderem", "u.a."],
+  ["beziehungsweise", "bzw."],
+  ["gegebenenfalls", "ggf."],
+  ["eventuell", "evtl."],
+  ["in der Regel", "i.d.R."],
+  ["im Allgemeinen", "i.Allg."],
+  ["vor allem", "v.a."],
+  ["in erster Linie", "v.a."],
+  ["insbesondere", "insb."],
+  ["siehe oben", "s.o."],
+  ["siehe unten", "s.u."],
+  ["sogenannte", "sog."],
+  ["sogenannten", "sog."],
+  ["sogenannter", "sog."],
+  ["sogenanntes", "sog."],
+  ["ungefähr", "ca."],
+  ["circa", "ca."],
+  ["einschließlich", "inkl."],
+  ["inklusive", "inkl."],
+  ["exklusive", "exkl."],
+  ["bezüglich", "bzgl."],
+  ["mit freundlichen Grüßen", "MfG"],
+
+  // === Bureaucratic conjunctions (longest first) ===
+  ["aufgrund der Tatsache, dass", "weil"],
+  ["in Anbetracht der Tatsache, dass", "da"],
+  ["angesichts der Tatsache, dass", "da"],
+  ["trotz der Tatsache, dass", "obwohl"],
+  ["ungeachtet der Tatsache, dass", "obwohl"],
+  ["für den Fall, dass", "falls"],
+  ["im Falle, dass", "falls"],
+  ["unter der Voraussetzung, dass", "wenn"],
+  ["mit dem Ziel, dass", "damit"],
+  ["zu dem Zweck, dass", "damit"],
+
+  // === Bureaucratic phrases → short equivalents ===
+  ["zum jetzigen Zeitpunkt", "jetzt"],
+  ["zum gegenwärtigen Zeitpunkt", "jetzt"],
+  ["zum aktuellen Zeitpunkt", "jetzt"],
+  ["zu einem späteren Zeitpunkt", "später"],
+  ["zu einem früheren Zeitpunkt", "früher"],
+  ["in naher Zukunft", "bald"],
+  ["in Zukunft", "künftig"],
+  ["von Zeit zu Zeit", "manchmal"],
+  ["zu jeder Zeit", "jederzeit"],
+  ["im Vorfeld", "vorher"],
+  ["im Anschluss daran", "danach"],
+  ["aus diesem Grund", "daher"],
+  ["aus diesem Grunde", "daher"],
+  ["aus den genannten Gründen", "daher"],
+  ["zu diesem Zweck", "dafür"],
+  ["in Bezug auf", "über"],
+  ["im Hinblick auf", "für"],
+  ["mit Hilfe von", "mit"],
+  ["mithilfe von", "mit"],
+  ["auf diese Art und Weise", "so"],
+  ["auf diese Weise", "so"],
+  ["in gleicher Weise", "ebenso"],
+  ["in ähnlicher Weise", "ähnlich"],
+  ["in vielerlei Hinsicht", "vielfach"],
+  ["zum größten Teil", "meist"],
+  ["zum Teil", "teils"],
+  ["in zunehmendem Maße", "zunehmend"],
+  ["in hohem Maße", "sehr"],
+  ["in gewissem Maße", "teils"],
+  ["in ausreichendem Maße", "ausreichend"],
+  ["ohne Zweifel", "zweifellos"],
+  ["nach wie vor", "weiterhin"],
+  ["immer noch", "noch"],
+
+  // === Bureaucratic connectors ===
+  ["des Weiteren", "zudem"],
+  ["darüber hinaus", "zudem"],
+  ["nichtsdestotrotz", "dennoch"],
+  ["nichtsdestoweniger", "dennoch"],
+  ["infolgedessen", "daher"],
+  ["dementsprechend", "daher"],
+  ["diesbezüglich", "dazu"],
+  ["sowie", "und"],
+
+  // === Light verb constructions → verb ===
+  ["zur Verfügung stellen", "bereitstellen"],
+  ["zur Verfügung gestellt", "bereitgestellt"],
+  ["zur Anwendung kommen", "angewendet werden"],
+  ["Anwendung finden", "angewendet werden"],
+  ["Verwendung finden", "verwendet werden"],
+  ["in Betracht ziehen", "erwägen"],
+  ["in Betracht gezogen", "erwogen"],
+  ["in Erwägung ziehen", "erwägen"],
+  ["in Erwägung gezogen", "erwogen"],
+  ["in Anspruch nehmen", "nutzen"],
+  ["in Anspruch genommen", "genutzt"],
+  ["zum Ausdruck bringen", "ausdrücken"],
+  ["zum Ausdruck gebracht", "ausgedrückt"],
+  ["zum Abschluss bringen", "abschließen"],
+  ["zum Abschluss gebracht", "abgeschlossen"],
+  ["in Kenntnis setzen", "informieren"],
+  ["in Kenntnis gesetzt", "informiert"],
+  ["unter Beweis stellen", "beweisen"],
+  ["unter Beweis gestellt", "bewiesen"],
+  ["Bezug nehmen auf", "sich beziehen auf"],
+];
+
+const REDUNDANCIES: Array<{ pattern: RegExp; replacement: string }> = [
+  // === Redundant intensifiers (pleonasms) ===
+  { pattern: words("absolut notwendig"), replacement: "notwendig" },
+  { pattern: words("absolut sicher"), replacement: "sicher" },
+  { pattern: words("absolut einzigartig"), replacement: "einzigartig" },
+  { pattern: words("völlig einzigartig"), replacement: "einzigartig" },
+  { pattern: words("sehr einzigartig"), replacement: "einzigartig" },
+  { pattern: words("völlig neu"), replacement: "neu" },
+  { pattern: words("ganz genau"), replacement: "genau" },
+  { pattern: words("sehr sehr"), replacement: "sehr" },
+
+  // === Doubled adverbs ===
+  { pattern: words("bereits schon"), replacement: "bereits" },
+  { pattern: words("schon bereits"), replacement: "bereits" },
+  { pattern: words("zusätzlich noch"), replacement: "zusätzlich" },
+  { pattern: words("in etwa ungefähr"), replacement: "ungefähr" },
+  { pattern: words("schlussendlich"), replacement: "schließlich" },
+  { pattern: words("letztendlich"), replacement: "letztlich" },
+
+  // === Redundant verb modifiers ===
+  { pattern: words("nochmals wiederholen"), replacement: "wiederholen" },
+  { pattern: words("erneut wiederholen"), replacement: "wiederholen" },
+  { pattern: words("vorher ankündigen"), replacement: "ankündigen" },
+  { pattern: words("vorab ankündigen"), replacement: "ankündigen" },
+  { pattern: words("im Voraus planen"), replacement: "planen" },
+  { pattern: words("gemeinsam zusammenarbeiten"), replacement: "zusammenarbeiten" },
+  { pattern: words("zusammen kooperieren"), replacement: "kooperieren" },
+  { pattern: words("neu renovieren"), replacement: "renovieren" },
+  { pattern: words("neu renoviert"), replacement: "renoviert" },
+  { pattern: words("zurückerstatten"), replacement: "erstatten" },
+
+  // === Redundant adjectives ===
+  { pattern: words("endgültiges Ergebnis"), replacement: "Ergebnis" },
+  { pattern: words("tatsächliche Fakten"), replacement: "Fakten" },
+  { pattern: words("wahre Tatsache"), replacement: "Tatsache" },
+  { pattern: words("kurze Zusammenfassung"), replacement: "Zusammenfassung" },
+  { pattern: words("gemeinsame Zusammenarbeit"), replacement: "Zusammenarbeit" },
+  { pattern: words("unerwartete Überraschung"), replacement: "Überraschung" },
+  { pattern: words("neue Innovation"), replacement: "Innovation" },
+  { pattern: words("neue Innovationen"), replacement: "Innovationen" },
+  { pattern: words("grundlegende Basis"), replacement: "Basis" },
+  { pattern: words("zukünftige Pläne"), replacement: "Pläne" },
+  { pattern: words("einzelne Details"), replacement: "Details" },
+
+  // === Doubled superlatives ===
+  { pattern: words("am optimalsten"), replacement: "optimal" },
+  { pattern: words("optimalste"), replacement: "optimale" },
+  { pattern: words("optimalsten"), replacement: "optimalen" },
+  { pattern: words("einzigste"), replacement: "einzige" },
+  { pattern: words("einzigsten"), replacement: "einzigen" },
+  { pattern: words("bestmöglichste"), replacement: "bestmögliche" },
+  { pattern: words("am meisten bevorzugt"), replacement: "bevorzugt" },
+
+  // === Paired synonyms (keep shorter one) ===
+  { pattern: words("voll und ganz"), replacement: "ganz" },
+  { pattern: words("ganz und gar"), replacement: "ganz" },
+  { pattern: words("einzig und allein"), replacement: "allein" },
+  { pattern: words("nie und nimmer"), replacement: "nie" },
+  { pattern: words("klipp und klar"), replacement: "klar" },
+  { pattern: words("null und nichtig"), replacement: "nichtig" },
+  { pattern: words("hin und wieder"), replacement: "manchmal" },
+];
+
+// === Light verb constructions (Funktionsverbgefüge) ===
+// Nominal style replaces a verb with "noun + light verb":
+//   "eine Entscheidung treffen" -> "entscheiden"
+//   "eine Analyse durchgeführt" -> "analysiert"
+// German puts the infinitive or participle last, so both forms are
+// caught next to their noun ("wir müssen eine Entscheidung treffen",
+// "es wurde eine Prüfung vorgenommen"). The article is optional, since
+// article removal runs first, but any other determiner blocks the match, so
+// "diese Entscheidung treffen" isn't cut to "diese entscheiden".
+// Applied only on "aggressive" level.
+const NO_DETERMINER = "(?<!(?:kein|sein|ihr|unser|euer|dies|jed|welch)\\p{L}*\\s+)";
+const FEMININE = `${NO_DETERMINER}(?:(?:eine|die)\\s+)?`;
+const MASCULINE = `${NO_DETERMINER}(?:(?:einen|den)\\s+)?`;
+
+const DEVERBAL_NOUNS: Array<[RegExp, string]> = [
+  [words(`${FEMININE}Entscheidung\\s+treffen`), "entscheiden"],
+  [words(`${FEMININE}Entscheidung\\s+getroffen`), "entschieden"],
+  [words(`${FEMININE}Auswahl\\s+treffen`), "auswählen"],
+  [words(`${FEMININE}Auswahl\\s+getroffen`), "ausgewählt"],
+  [words(`${FEMININE}Vereinbarung\\s+treffen`), "vereinbaren"],
+  [words(`${FEMININE}Vereinbarung\\s+getroffen`), "vereinbart"],
+
+  [words(`${FEMININE}Analyse\\s+durchführen`), "analysieren"],
+  [words(`${FEMININE}Analyse\\s+durchgeführt`), "analysiert"],
+  [words(`${FEMININE}Untersuchung\\s+durchführen`), "untersuchen"],
+  [words(`${FEMININE}Untersuchung\\s+durchgeführt`), "untersucht"],
+  [words(`${FEMININE}Prüfung\\s+(?:durchführen|vornehmen)`), "prüfen"],
+  [words(`${FEMININE}Prüfung\\s+(?:durchgeführt|vorgenommen)`), "geprüft"],
+  [words(`${FEMININE}Überprüfung\\s+(?:durchführen|vornehmen)`), "überprüfen"],
+  [words(`${FEMININE}Überprüfung\\s+(?:durchgeführt|vorgenommen)`), "überprüft"],
+  [words(`${FEMININE}Bewertung\\s+(?:durchführen|vornehmen)`), "bewerten"],
+  [words(`${FEMININE}Bewertung\\s+(?:durchgeführt|vorgenommen)`), "bewertet"],
+  [words(`${FEMININE}Auswertung\\s+(?:durchführen|vornehmen)`), "auswerten"],
+  [words(`${FEMININE}Auswertung\\s+(?:durchgeführt|vorgenommen)`), "ausgewertet"],
+  [words(`${MASCULINE}Test\\s+durchführen`), "testen"],
+  [words(`${MASCULINE}Test\\s+durchgeführt`), "getestet"],
+  [words(`${FEMININE}Messung\\s+(?:durchführen|vornehmen)`), "messen"],
+  [words(`${FEMININE}Messung\\s+(?:durchgeführt|vorgenommen)`), "gemessen"],
+  [words(`${FEMININE}Berechnung\\s+(?:durchführen|vornehmen)`), "berechnen"],
+  [words(`${FEMININE}Berechnung\\s+(?:durchgeführt|vorgenommen)`), "berechnet"],
+  [words(`${FEMININE}Installation\\s+(?:durchführen|vornehmen)`), "installieren"],
+  [words(`${FEMININE}Installation\\s+(?:durchgeführt|vorgenommen)`), "installiert"],
+  [words(`${FEMININE}Schulung\\s+durchführen`), "schulen"],
+  [words(`${FEMININE}Schulung\\s+durchgeführt`), "geschult"],
+  [words(`${FEMININE}Überwachung\\s+durchführen`), "überwachen"],
+  [words(`${FEMININE}Überwachung\\s+durchgeführt`), "überwacht"],
+  [words(`${FEMININE}Planung\\s+(?:durchführen|vornehmen)`), "planen"],
+  [words(`${FEMININE}Planung\\s+(?:durchgeführt|vorgenommen)`), "geplant"],
+
+  [words(`${FEMININE}Änderungen?\\s+vornehmen`), "ändern"],
+  [words(`${FEMININE}Änderungen?\\s+vorgenommen`), "geändert"],
+  [words(`${FEMININE}Anpassungen?\\s+vornehmen`), "anpassen"],
+  [words(`${FEMININE}Anpassungen?\\s+vorgenommen`), "angepasst"],
+  [words(`${FEMININE}Konfiguration\\s+vornehmen`), "konfigurieren"],
+  [words(`${FEMININE}Konfiguration\\s+vorgenommen`), "konfiguriert"],
+  [words(`${FEMININE}Zahlung\\s+(?:leisten|vornehmen)`), "zahlen"],
+  [words(`${FEMININE}Zahlung\\s+(?:geleistet|vorgenommen)`), "gezahlt"],
+
+  // Usually without an article; "keine Hilfe leisten" must stay
+  [words(`${NO_DETERMINER}Unterstützung\\s+leisten`), "unterstützen"],
+  [words(`${NO_DETERMINER}Unterstützung\\s+geleistet`), "unterstützt"],
+  [words(`${NO_DETERMINER}Hilfe\\s+leisten`), "helfen"],
+  [words(`${NO_DETERMINER}Hilfe\\s+geleistet`), "geholfen"],
+  [words(`${MASCULINE}Beitrag\\s+leisten\\s+zu`), "beitragen zu"],
+  [words(`${MASCULINE}Beitrag\\s+geleistet\\s+zu`), "beigetragen zu"],
+  [words(`${NO_DETERMINER}Einfluss\\s+nehmen\\s+auf`), "beeinflussen"],
+  [words(`${NO_DETERMINER}Einfluss\\s+genommen\\s+auf`), "beeinflusst"],
+];
+
+// === Preposition + article contractions ===
+// Standard fusions ("in dem Ordner" -> "im Ordner"). Only before a
+// capitalized word, i.e. a noun, and never after a comma: there "in dem"
+// opens a relative clause ("das Haus, in dem Menschen wohnen") even when a
+// noun follows, and must not fuse.
+const CONTRACTIONS: Array<[RegExp, string]> = [
+  [/(?<!,\s*)(?<![\p{L}])[Ii]n dem(?=\s+\p{Lu})/gu, "im"],
+  [/(?<!,\s*)(?<![\p{L}])[Aa]n dem(?=\s+\p{Lu})/gu, "am"],
+  [/(?<!,\s*)(?<![\p{L}])[Zz]u dem(?=\s+\p{Lu})/gu, "zum"],
+  [/(?<!,\s*)(?<![\p{L}])[Zz]u der(?=\s+\p{Lu})/gu, "zur"],
+  [/(?<!,\s*)(?<![\p{L}])[Vv]on dem(?=\s+\p{Lu})/gu, "vom"],
+  [/(?<!,\s*)(?<![\p{L}])[Bb]ei dem(?=\s+\p{Lu})/gu, "beim"],
+  [/(?<!,\s*)(?<![\p{L}])[Ii]n das(?=\s+\p{Lu})/gu, "ins"],
+  [/(?<!,\s*)(?<![\p{L}])[Aa]n das(?=\s+\p{Lu})/gu, "ans"],
+];
+
+const COPULA_PATTERNS: Array<[RegExp, string]> = [
+  [words("es gibt viele"), "viele"],
+  [words("es gibt einige"), "einige"],
+  [words("es gibt mehrere"), "mehrere"],
+  [words("es gibt zahlreiche"), "zahlreiche"],
+  [words("es gibt keine"), "keine"],
+];
+
+// Articles directly before a noun (capitalized in German). Lowercase
+// only, so sentence-initial articles stay; "der", "die" and "das" before
+// a verb are pronouns and stay too. Articles after a preposition that
+// contracts with them are left for the contraction rules, and after a
+// comma "die" and "der" open relative clauses ("Nutzer, die Daten senden").
+// "der" and "des" after a noun are genitives ("Prüfung der Daten") and stay.
+const ARTICLE_PATTERN =
+  /(?<!,\s*)(?<!(?<![\p{L}])(?:[Ii]n|[Aa]n|[Zz]u|[Vv]on|[Bb]ei)\s+)(?<![\p{L}])((?<!\p{Lu}\p{L}*\s+)(?:der|des)|die|das|den|dem|ein|eine|einen|einem|einer|eines)\s+(?=\p{Lu})/gu;
+
+const STOPWORDS = [
+  "aber", "alle", "als", "also", "am", "an", "auch", "auf", "aus", "bei",
+  "bin", "bis", "bist", "da", "damit", "dann", "das", "dass", "dem", "den",
+  "denn", "der", "des", "dich", "die", "dies", "diese", "diesem", "diesen",
+  "dieser", "dieses", "doch", "dort", "du", "durch", "ein", "eine", "einem",
+  "einen", "einer", "eines", "er", "es", "euch", "für", "hat", "hatte",
+  "haben", "hier", "ich", "ihm", "ihn", "ihr", "ihre", "im", "in", "ins",
+  "ist", "jede", "jeder", "kann", "kein", "keine", "mich", "mir", "mit",
+  "muss", "nach", "nicht", "noch", "nur", "ob", "oder", "ohne", "sehr",
+  "sein", "seine", "sich", "sie", "sind", "so", "soll", "über", "um", "und",
+  "uns", "unter", "vom", "von", "vor", "war", "waren", "was", "weil", "wenn",
+  "werden", "wie", "wir", "wird", "wo", "zu", "zum", "zur",
+];
+
+export const germanPack: LanguagePack = {
+  code: "de",
+  name: "German",
+  script: "latin",
+
+  fillers: FILLERS,
+  substitutions: SUBSTITUTIONS,
+  redundancies: REDUNDANCIES,
+
+  shorthand: {
+    contractions: CONTRACTIONS,
+    articles: ARTICLE_PATTERN,
+    copulas: COPULA_PATTERNS,
+    // German doesn't drop subject pronouns
+    pronounElision: [],
+    patronymicPattern: null,
+    deverbalNouns: DEVERBAL_NOUNS,
+  },
+
+  stopwords: STOPWORDS,
+
+  capitalizeAfterPeriod: /\.\s+([a-zäöüß])/gu,
+};
@@ -59,8 +59,25 @@ const COPULA_PATTERNS: Array<[RegExp, string]> = [
 
 const ARTICLE_PATTERN = /\b(the|a|an)\s+/gi;
 
+const STOPWORDS = [
+  "a", "about", "above", "after", "again", "against", "all", "also", "am", "an",
+  "and", "any", "are", "as", "at", "be", "because", "been", "before", "being",
+  "below", "between", "both", "but", "by", "can", "could", "did", "do", "does",
+  "doing", "down", "during", "each", "few", "for", "from", "further", "had",
+  "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how",
+  "i", "if", "in", "into", "is", "it", "its", "just", "may", "me", "might",
+  "more", "most", "must", "my", "no", "nor", "not", "now", "of", "off", "on",
+  "once", "only", "or", "other", "our", "ours", "out", "over", "own", "same",
+  "shall", "she", "should", "so", "some", "such", "than", "that", "the",
+  "their", "theirs", "them", "then", "there", "these", "they", "this", "those",
+  "through", "to", "too", "under", "until", "up", "us", "very", "was", "we",
+  "were", "what", "when", "where", "which", "while", "who", "whom", "why",
+  "will", "with", "would", "you", "your", "yours",
+];
+
 export const englishPack: LanguagePack = {
   code: "en",
+  name: "English",
   script: "latin",
 
   fillers: FILLERS,
@@ -76,5 +93,7 @@ export const englishPack: LanguagePack = {
     deverbalNouns: [],
   },
 
+  stopwords: STOPWORDS,
+
   capitalizeAfterPeriod: /\.\s+([a-z])/g,
 };
@@ -0,0 +1,364 @@
+import type { LanguagePack } from "./types.js";
+import { letterBoundaryRegex as words } from "../../language/WordBoundary.js";
+
+const FILLERS: string[] = [
+  // Hedging / vagueness
+  "en realidad",
+  "en el fondo",
+  "de alguna manera",
+  "de alguna forma",
+  "por así decirlo",
+  "digamos",
+  "en cierto modo",
+  "en cierta medida",
+
+  // Paraphrasing markers
+  "en otras palabras",
+  "dicho de otro modo",
+  "dicho de otra manera",
+
+  // Honesty markers
+  "a decir verdad",
+  "para ser honesto",
+  "para ser sincero",
+  "sinceramente",
+  "francamente",
+
+  // Precision qualifiers
+  "estrictamente hablando",
+  "propiamente dicho",
+
+  // Interjections / asides
+  "de hecho",
+  "al fin y al cabo",
+  "a fin de cuentas",
+  "en definitiva",
+  "por cierto",
+
+  // "It should be noted" family; the clause after "que" keeps its own
+  // subject and verb, so it reads fine on its own
+  "es importante señalar que",
+  "es importante destacar que",
+  "es importante mencionar que",
+  "es importante tener en cuenta que",
+  "cabe señalar que",
+  "cabe destacar que",
+  "cabe mencionar que",
+  "hay que tener en cuenta que",
+  "vale la pena mencionar que",
+  "le informamos que",
+
+  // "As is known" family
+  "como es sabido",
+  "como ya sabemos",
+  "como usted sabe",
+  "como ya se ha dicho",
+  "como ya se ha mencionado",
+  "como se mencionó anteriormente",
+  "como se ha indicado anteriormente",
+  "como se puede ver",
+  "como podemos ver",
+
+  // Self-evident markers
+  "no hace falta decir que",
+  "ni que decir tiene que",
+  "por supuesto",
+  "evidentemente",
+  "obviamente",
+  "claro está",
+
+  // Opinion hedging
+  "en mi opinión",
+  "desde mi punto de vista",
+  "a mi juicio",
+  "en nuestra opinión",
+  "desde nuestro punto de vista",
+
+  // Emphasis without content
+  "en este contexto",
+  "en este sentido",
+  "a este respecto",
+];
+
+const SUBSTITUTIONS: Array<[string, string]> = [
+  // === Standard abbreviations ===
+  ["por ejemplo", "p. ej."],
+  ["etcétera", "etc."],
+  ["señor", "Sr."],
+  ["señora", "Sra."],
+  ["señorita", "Srta."],
+  ["número", "núm."],
+  ["página", "pág."],
+  ["teléfono", "tel."],
+
+  // === Bureaucratic conjunctions (longest first) ===
+  ["debido al hecho de que", "porque"],
+  ["teniendo en cuenta que", "ya que"],
+  ["dado el hecho de que", "ya que"],
+  ["a pesar del hecho de que", "aunque"],
+  ["a pesar de que", "aunque"],
+  ["con el fin de que", "para que"],
+  ["a fin de que", "para que"],
+  ["en el caso de que", "si"],
+  ["en caso de que", "si"],
+
+  // === Bureaucratic phrases → short equivalents ===
+  ["en la actualidad", "hoy"],
+  ["en el momento actual", "ahora"],
+  ["en este momento", "ahora"],
+  ["a partir de ahora", "desde ahora"],
+  ["con respecto a", "sobre"],
+  ["en lo que respecta a", "sobre"],
+  ["en lo que se refiere a", "sobre"],
+  ["en relación con", "sobre"],
+  ["con el fin de", "para"],
+  ["con el objetivo de", "para"],
+  ["con el propósito de", "para"],
+  ["a fin de", "para"],
+  ["en el marco de", "en"],
+  ["en el transcurso de", "durante"],
+  ["a lo largo de", "durante"],
+  ["por medio de", "mediante"],
+  ["con la ayuda de", "con"],
+  ["a excepción de", "salvo"],
+  ["con excepción de", "salvo"],
+  ["en primer lugar", "primero"],
+  ["en último lugar", "por último"],
+  ["en repetidas ocasiones", "a menudo"],
+  ["de vez en cuando", "a veces"],
+  ["la mayoría de las veces", "casi siempre"],
+  ["un gran número de", "muchos"],
+  ["una gran cantidad de", "mucho"],
+  ["un cierto número de", "varios"],
+
+  // === Bureaucratic connectors ===
+  ["por consiguiente", "por eso"],
+  ["por lo tanto", "por eso"],
+  ["en consecuencia", "por eso"],
+  ["además de eso", "además"],
+  ["así como", "y"],
+
+  // === Adverbial phrases → adverb ===
+  ["de manera general", "en general"],
+  ["de forma general", "en general"],
+  ["de manera significativa", "bastante"],
+  ["de manera eficaz", "eficazmente"],
+  ["de forma eficaz", "eficazmente"],
+  ["de manera rápida", "rápidamente"],
+  ["de forma rápida", "rápidamente"],
+  ["de manera clara", "claramente"],
+  ["de forma clara", "claramente"],
+  ["de manera regular", "regularmente"],
+  ["de forma regular", "regularmente"],
+  ["de manera automática", "automáticamente"],
+  ["de forma automática", "automáticamente"],
+
+  // === Periphrastic modals → verb ===
+  ["estar en condiciones de", "poder"],
+  ["estamos en condiciones de", "podemos"],
+  ["está en condiciones de", "puede"],
+  ["están en condiciones de", "pueden"],
+  ["tener la posibilidad de", "poder"],
+  ["tiene la posibilidad de", "puede"],
+  ["tienen la posibilidad de", "pueden"],
+
+  // === Verbal locutions → verb ===
+  ["llevar a cabo", "realizar"],
+  ["llevó a cabo", "realizó"],
+  ["llevamos a cabo", "realizamos"],
+  ["llevado a cabo", "realizado"],
+  ["lleva a cabo", "realiza"],
+  ["tener en cuenta", "considerar"],
+  ["tomar en cuenta", "considerar"],
+  ["tenido en cuenta", "considerado"],
+  ["hacer uso de", "usar"],
+  ["hace uso de", "usa"],
+  ["hacen uso de", "usan"],
+  ["poner en marcha", "lanzar"],
+  ["puesto en marcha", "lanzado"],
+];
+
+const REDUNDANCIES: Array<{ pattern: RegExp; replacement: string }> = [
+  // === Redundant intensifiers ===
+  { pattern: words("muy único"), replacement: "único" },
+  { pattern: words("muy única"), replacement: "única" },
+  { pattern: words("totalmente gratis"), replacement: "gratis" },
+  { pattern: words("totalmente gratuito"), replacement: "gratuito" },
+  { pattern: words("absolutamente esencial"), replacement: "esencial" },
+  { pattern: words("absolutamente necesario"), replacement: "necesario" },
+  { pattern: words("absolutamente necesaria"), replacement: "necesaria" },
+  { pattern: words("completamente lleno"), replacement: "lleno" },
+  { pattern: words("completamente vacío"), replacement: "vacío" },
+
+  // === Redundant direction / repetition ===
+  { pattern: words("subir arriba"), replacement: "subir" },
+  { pattern: words("bajar abajo"), replacement: "bajar" },
+  { pattern: words("salir afuera"), replacement: "salir" },
+  { pattern: words("salir fuera"), replacement: "salir" },
+  { pattern: words("entrar adentro"), replacement: "entrar" },
+  { pattern: words("entrar dentro"), replacement: "entrar" },
+  { pattern: words("volver a repetir"), replacement: "repetir" },
+  { pattern: words("volver a reiniciar"), replacement: "reiniciar" },
+  { pattern: words("prever de antemano"), replacement: "prever" },
+  { pattern: words("planificar de antemano"), replacement: "planificar" },
+  { pattern: words("planear de antemano"), replacement: "planear" },
+  { pattern: words("colaborar juntos"), replacement: "colaborar" },
+  { pattern: words("cooperar juntos"), replacement: "cooperar" },
+  { pattern: words("reunir juntos"), replacement: "reunir" },
+  { pattern: words("mutuo acuerdo entre ambos"), replacement: "mutuo acuerdo" },
+
+  // === Doubled connectors ===
+  { pattern: words("pero sin embargo"), replacement: "pero" },
+  { pattern: words("pero no obstante"), replacement: "pero" },
+  { pattern: words("como por ejemplo"), replacement: "como" },
+  { pattern: words("luego después"), replacement: "luego" },
+
+  // === Redundant adjectives ===
+  { pattern: words("resultado final"), replacement: "resultado" },
+  { pattern: words("conclusión final"), replacement: "conclusión" },
+  { pattern: words("planes futuros"), replacement: "planes" },
+  { pattern: words("planes de futuro"), replacement: "planes" },
+  { pattern: words("experiencia previa"), replacement: "experiencia" },
+  { pattern: words("experiencia pasada"), replacement: "experiencia" },
+  { pattern: words("sorpresa inesperada"), replacement: "sorpresa" },
+  { pattern: words("nueva innovación"), replacement: "innovación" },
+  { pattern: words("nuevas innovaciones"), replacement: "innovaciones" },
+  { pattern: words("regalo gratis"), replacement: "regalo" },
+  { pattern: words("regalo gratuito"), replacement: "regalo" },
+  { pattern: words("breve resumen"), replacement: "resumen" },
+  { pattern: words("panacea universal"), replacement: "panacea" },
+  { pattern: words("monopolio exclusivo"), replacement: "monopolio" },
+  { pattern: words("hecho real"), replacement: "hecho" },
+
+  // === Redundant superlatives ===
+  { pattern: words("más óptimo"), replacement: "óptimo" },
+  { pattern: words("más óptima"), replacement: "óptima" },
+  { pattern: words("más mejor"), replacement: "mejor" },
+  { pattern: words("más peor"), replacement: "peor" },
+];
+
+// === Light verb constructions ===
+// "tomar una decisión" -> "decidir", "realizó un análisis" -> "analizó".
+// Infinitives plus the most common conjugated forms, mapped to the same
+// person and tense of the plain verb. The article is optional, since
+// articles are removed first.
+// Applied only on "aggressive" level.
+// "realizar una revisión del código" -> "revisar el código": the noun's
+// "de" complement becomes the verb's direct object.
+function withObject(pattern: string, verb: string): Array<[RegExp, string]> {
+  return [
+    [words(`${pattern}\\s+del`), `${verb} el`],
+    [words(`${pattern}\\s+de`), verb],
+  ];
+}
+
+const DEVERBAL_NOUNS: Array<[RegExp, string]> = [
+  [words("tomar\\s+(?:una\\s+)?decisión"), "decidir"],
+  [words("tomamos\\s+(?:una\\s+)?decisión"), "decidimos"],
+  [words("tomó\\s+(?:una\\s+)?decisión"), "decidió"],
+  [words("tomado\\s+(?:una\\s+)?decisión"), "decidido"],
+
+  ...withObject("(?:realizar|hacer)\\s+(?:un\\s+)?análisis", "analizar"),
+  ...withObject("(?:realizó|hizo)\\s+(?:un\\s+)?análisis", "analizó"),
+  ...withObject("(?:realizado|hecho)\\s+(?:un\\s+)?análisis", "analizado"),
+  ...withObject("(?:realizar|hacer)\\s+(?:una\\s+)?revisión", "revisar"),
+  ...withObject("(?:realizó|hizo)\\s+(?:una\\s+)?revisión", "revisó"),
+  ...withObject("(?:realizado|hecho)\\s+(?:una\\s+)?revisión", "revisado"),
+  ...withObject("(?:realizar|hacer)\\s+(?:una\\s+)?búsqueda", "buscar"),
+  ...withObject("(?:realizó|hizo)\\s+(?:una\\s+)?búsqueda", "buscó"),
+  ...withObject("(?:realizar|hacer)\\s+(?:una\\s+)?evaluación", "evaluar"),
+  ...withObject("(?:realizó|hizo)\\s+(?:una\\s+)?evaluación", "evaluó"),
+  ...withObject("(?:realizar|hacer)\\s+(?:una\\s+)?comparación", "comparar"),
+  [words("(?:realizar|efectuar|hacer)\\s+(?:(?:un|el)\\s+)?pago"), "pagar"],
+  [words("(?:realizó|efectuó|hizo)\\s+(?:(?:un|el)\\s+)?pago"), "pagó"],
+  ...withObject("(?:realizar|hacer)\\s+(?:(?:una|la)\\s+)?instalación", "instalar"),
+  ...withObject("(?:realizar|hacer)\\s+(?:(?:una|la)\\s+)?copia\\s+de\\s+seguridad", "respaldar"),
+
+  [words("dar\\s+(?:una\\s+)?respuesta\\s+a"), "responder a"],
+  [words("dio\\s+(?:una\\s+)?respuesta\\s+a"), "respondió a"],
+  [words("dar\\s+comienzo\\s+a"), "comenzar"],
+  [words("dar\\s+por\\s+terminado"), "terminar"],
+  [words("poner\\s+fin\\s+a"), "terminar"],
+  [words("puso\\s+fin\\s+a"), "terminó"],
+  [words("hacer\\s+referencia\\s+a"), "referirse a"],
+  [words("hace\\s+referencia\\s+a"), "se refiere a"],
+  [words("hacen\\s+referencia\\s+a"), "se refieren a"],
+  [words("tener\\s+(?:un\\s+)?impacto\\s+en"), "influir en"],
+  [words("tiene\\s+(?:un\\s+)?impacto\\s+en"), "influye en"],
+  [words("ejercer\\s+(?:una\\s+)?influencia\\s+sobre"), "influir en"],
+  [words("ejerce\\s+(?:una\\s+)?influencia\\s+sobre"), "influye en"],
+];
+
+// "es necesario" and friends only become "hay que" where they open a
+// clause and an infinitive follows. "No es necesario reiniciar" must not
+// turn into "no hay que" (a prohibition), "el cambio es necesario" has a
+// subject, and "es necesario que" takes a subjunctive clause.
+const CLAUSE_START =
+  "(?<=^\\s*|[.!?¡¿;:,(\\n]\\s*|(?<![\\p{L}])(?:y|e|pero|porque|pues|si|cuando|aunque|que)\\s+)";
+const BEFORE_INFINITIVE = "(?=\\s+\\p{L}+(?:ar|er|ir|ír)(?:se|me|te|nos|l[eoa]s?)?(?![\\p{L}]))";
+
+function impersonal(phrase: string): RegExp {
+  return words(`${CLAUSE_START}${phrase}${BEFORE_INFINITIVE}`);
+}
+
+const COPULA_PATTERNS: Array<[RegExp, string]> = [
+  [impersonal("es necesario"), "hay que"],
+  [impersonal("es posible"), "se puede"],
+  [impersonal("es recomendable"), "conviene"],
+  [impersonal("es aconsejable"), "conviene"],
+  [words("hay muchos"), "muchos"],
+  [words("hay muchas"), "muchas"],
+  [words("hay varios"), "varios"],
+  [words("hay varias"), "varias"],
+  [words("existen varios"), "varios"],
+  [words("existen varias"), "varias"],
+];
+
+// "el" and the indefinite articles only: "la", "los" and "las" are also
+// object pronouns ("la veo"). "el que", "el de" and "el cual" are pronouns
+// and stay.
+const ARTICLE_PATTERN =
+  /(?<![\p{L}])(el|un|una|unos|unas)\s+(?!(?:que|de|del|cual)(?![\p{L}]))/giu;
+
+// Spanish is pro-drop: the verb ending already names the subject
+const PRONOUN_ELISION: Array<[RegExp, string]> = [
+  [/(?<![\p{L}])yo\s+(creo|pienso|quiero|puedo|sugiero|recomiendo|propongo|necesito)(?![\p{L}])/giu, "$1"],
+  [/(?<![\p{L}])yo\s+(estoy|tengo|voy|debo|sé)(?![\p{L}])/giu, "$1"],
+  [/(?<![\p{L}])nosotr[oa]s\s+(creemos|pensamos|queremos|podemos|sugerimos|recomendamos|proponemos|necesitamos)(?![\p{L}])/giu, "$1"],
+  [/(?<![\p{L}])nosotr[oa]s\s+(estamos|tenemos|vamos|debemos|sabemos)(?![\p{L}])/giu, "$1"],
+];
+
+const STOPWORDS = [
+  "a", "al", "algo", "algunos", "ante", "aquí", "así", "como", "con",
+  "cuando", "de", "del", "desde", "donde", "el", "él", "ella", "ellos", "en",
+  "entre", "era", "es", "esa", "ese", "eso", "esta", "está", "este", "esto",
+  "están", "fue", "hay", "la", "las", "le", "les", "lo", "los", "más", "me",
+  "mi", "muy", "nada", "ni", "no", "nos", "nosotros", "o", "para", "pero",
+  "por", "porque", "puede", "que", "qué", "se", "sea", "ser", "si", "sí",
+  "sin", "sobre", "son", "su", "sus", "también", "tiene", "todo", "todos",
+  "un", "una", "uno", "unos", "y", "ya", "yo",
+];
+
+export const spanishPack: LanguagePack = {
+  code: "es",
+  name: "Spanish",
+  script: "latin",
+
+  fillers: FILLERS,
+  substitutions: SUBSTITUTIONS,
+  redundancies: REDUNDANCIES,
+
+  shorthand: {
+    // Written Spanish only contracts "a el" and "de el", and always does
+    contractions: [],
+    articles: ARTICLE_PATTERN,
+    copulas: COPULA_PATTERNS,
+    pronounElision: PRONOUN_ELISION,
+    patronymicPattern: null,
+    deverbalNouns: DEVERBAL_NOUNS,
+  },
+
+  stopwords: STOPWORDS,
+
+  capitalizeAfterPeriod: /\.\s+([a-záéíñóúü])/gu,
+};
@@ -0,0 +1,360 @@
+import type { LanguagePack } from "./types.js";
+import { letterBoundaryRegex as words } from "../../language/WordBoundary.js";
+
+const FILLERS: string[] = [
+  // Hedging / vagueness
+  "en fait",
+  "au fond",
+  "en quelque sorte",
+  "pour ainsi dire",
+  "disons",
+  "en gros",
+  "grosso modo",
+  "somme toute",
+  "en somme",
+
+  // Paraphrasing markers
+  "en d'autres termes",
+  "autrement dit",
+
+  // Honesty markers
+  "à vrai dire",
+  "pour être honnête",
+  "pour tout dire",
+  "franchement",
+  "honnêtement",
+
+  // Precision qualifiers
+  "à proprement parler",
+  "strictement parlant",
+
+  // Interjections / asides
+  "en réalité",
+  "au final",
+  "en fin de compte",
+  "au bout du compte",
+  "d'ailleurs",
+
+  // "It should be noted" family; French keeps main-clause word order after
+  // "que", so the rest of the sentence stands on its own
+  "il est important de noter que",
+  "il est important de souligner que",
+  "il est intéressant de noter que",
+  "il convient de noter que",
+  "il convient de souligner que",
+  "il faut noter que",
+  "il faut souligner que",
+  "il faut dire que",
+  "il est à noter que",
+  "notons que",
+  "nous vous informons que",
+
+  // "As is known" family
+  "comme on le sait",
+  "comme vous le savez",
+  "comme nous le savons",
+  "comme nous l'avons vu",
+  "comme nous l'avons déjà dit",
+  "comme mentionné précédemment",
+  "comme indiqué précédemment",
+  "comme indiqué ci-dessus",
+  "comme déjà mentionné",
+  "comme on peut le voir",
+
+  // Self-evident markers
+  "il va sans dire que",
+  "cela va sans dire",
+  "bien entendu",
+  "bien sûr",
+  "évidemment",
+
+  // Opinion hedging
+  "à mon avis",
+  "selon moi",
+  "de mon point de vue",
+  "à notre avis",
+  "selon nous",
+  "de notre point de vue",
+
+  // Emphasis without content
+  "dans ce contexte",
+  "à cet égard",
+];
+
+const SUBSTITUTIONS: Array<[string, string]> = [
+  // === Standard abbreviations ===
+  ["c'est-à-dire", "c.-à-d."],
+  ["par exemple", "p. ex."],
+  ["et cetera", "etc."],
+  ["quelque chose", "qqch."],
+  ["quelqu'un", "qqn"],
+  ["s'il vous plaît", "SVP"],
+  ["rendez-vous", "RDV"],
+  ["Monsieur", "M."],
+  ["Madame", "Mme"],
+  ["Mademoiselle", "Mlle"],
+
+  // === Bureaucratic conjunctions (longest first) ===
+  ["compte tenu du fait que", "car"],
+  ["étant donné que", "car"],
+  ["du fait que", "car"],
+  ["en raison du fait que", "car"],
+  ["en dépit du fait que", "même si"],
+  ["malgré le fait que", "même si"],
+  ["afin que", "pour que"],
+
+  // === Bureaucratic phrases → short equivalents ===
+  ["à l'heure actuelle", "actuellement"],
+  ["à l'heure qu'il est", "actuellement"],
+  ["au moment présent", "maintenant"],
+  ["à partir de maintenant", "désormais"],
+  ["en ce qui concerne", "concernant"],
+  ["dans le but de", "pour"],
+  ["afin de", "pour"],
+  ["en vue de", "pour"],
+  ["de manière à", "pour"],
+  ["de façon à", "pour"],
+  ["dans le cadre de", "dans"],
+  ["au sein de", "dans"],
+  ["au cours de", "pendant"],
+  ["à l'aide de", "avec"],
+  ["au moyen de", "par"],
+  ["vis-à-vis de", "envers"],
+  ["à l'exception de", "sauf"],
+  ["dans un premier temps", "d'abord"],
+  ["dans un second temps", "ensuite"],
+  ["par la suite", "ensuite"],
+  ["en dernier lieu", "enfin"],
+  ["à plusieurs reprises", "plusieurs fois"],
+  ["de temps en temps", "parfois"],
+  ["de temps à autre", "parfois"],
+  ["la plupart du temps", "souvent"],
+  ["un grand nombre de", "beaucoup de"],
+  ["une grande quantité de", "beaucoup de"],
+  ["un certain nombre de", "plusieurs"],
+  ["il y a lieu de", "il faut"],
+  ["nous vous prions de bien vouloir", "veuillez"],
+  ["veuillez trouver ci-joint", "ci-joint"],
+
+  // === Bureaucratic connectors ===
+  ["par conséquent", "donc"],
+  ["en conséquence", "donc"],
+  ["de ce fait", "donc"],
+  ["c'est pourquoi", "donc"],
+  ["en outre", "aussi"],
+  ["par ailleurs", "aussi"],
+  ["ainsi que", "et"],
+
+  // === Adverbial phrases → adverb ===
+  ["de manière générale", "en général"],
+  ["d'une manière générale", "en général"],
+  ["de façon générale", "en général"],
+  ["de manière significative", "nettement"],
+  ["de manière efficace", "efficacement"],
+  ["de façon efficace", "efficacement"],
+  ["de manière rapide", "rapidement"],
+  ["de façon rapide", "rapidement"],
+  ["de manière claire", "clairement"],
+  ["de façon claire", "clairement"],
+  ["de manière régulière", "régulièrement"],
+  ["de façon régulière", "régulièrement"],
+  ["de manière automatique", "automatiquement"],
+  ["de façon automatique", "automatiquement"],
+
+  // === Periphrastic modals → verb ===
+  ["être en mesure de", "pouvoir"],
+  ["suis en mesure de", "peux"],
+  ["est en mesure de", "peut"],
+  ["sommes en mesure de", "pouvons"],
+  ["êtes en mesure de", "pouvez"],
+  ["sont en mesure de", "peuvent"],
+  ["avoir la possibilité de", "pouvoir"],
+  ["a la possibilité de", "peut"],
+  ["ont la possibilité de", "peuvent"],
+
+  // === Verbal locutions → verb ===
+  ["mettre en œuvre", "appliquer"],
+  ["mis en œuvre", "appliqué"],
+  ["prendre en compte", "considérer"],
+  ["pris en compte", "considéré"],
+  ["prendre en considération", "considérer"],
+  ["pris en considération", "considéré"],
+];
+
+const REDUNDANCIES: Array<{ pattern: RegExp; replacement: string }> = [
+  // === Redundant intensifiers (pleonasms) ===
+  { pattern: words("très unique"), replacement: "unique" },
+  { pattern: words("complètement unique"), replacement: "unique" },
+  { pattern: words("absolument essentiel"), replacement: "essentiel" },
+  { pattern: words("absolument essentielle"), replacement: "essentielle" },
+  { pattern: words("absolument nécessaire"), replacement: "nécessaire" },
+  { pattern: words("totalement gratuit"), replacement: "gratuit" },
+  { pattern: words("tous unanimes"), replacement: "unanimes" },
+  { pattern: words("suffisamment assez"), replacement: "assez" },
+
+  // === Redundant direction / repetition ===
+  { pattern: words("monter en haut"), replacement: "monter" },
+  { pattern: words("descendre en bas"), replacement: "descendre" },
+  { pattern: words("sortir dehors"), replacement: "sortir" },
+  { pattern: words("entrer dedans"), replacement: "entrer" },
+  { pattern: words("reculer en arrière"), replacement: "reculer" },
+  { pattern: words("prévoir à l'avance"), replacement: "prévoir" },
+  { pattern: words("prévoir d'avance"), replacement: "prévoir" },
+  { pattern: words("planifier à l'avance"), replacement: "planifier" },
+  { pattern: words("répéter de nouveau"), replacement: "répéter" },
+  { pattern: words("réitérer de nouveau"), replacement: "réitérer" },
+  { pattern: words("recommencer à nouveau"), replacement: "recommencer" },
+  { pattern: words("collaborer ensemble"), replacement: "collaborer" },
+  { pattern: words("coopérer ensemble"), replacement: "coopérer" },
+  { pattern: words("réunir ensemble"), replacement: "réunir" },
+  { pattern: words("s'entraider mutuellement"), replacement: "s'entraider" },
+  { pattern: words("ajouter en plus"), replacement: "ajouter" },
+  { pattern: words("comparer entre eux"), replacement: "comparer" },
+
+  // === Doubled connectors ===
+  { pattern: words("voire même"), replacement: "voire" },
+  { pattern: words("mais cependant"), replacement: "mais" },
+  { pattern: words("mais pourtant"), replacement: "mais" },
+  { pattern: words("puis ensuite"), replacement: "puis" },
+  { pattern: words("comme par exemple"), replacement: "comme" },
+  { pattern: words("car en effet"), replacement: "car" },
+  { pattern: words("au jour d'aujourd'hui"), replacement: "aujourd'hui" },
+
+  // === Redundant adjectives ===
+  { pattern: words("résultat final"), replacement: "résultat" },
+  { pattern: words("conclusion finale"), replacement: "conclusion" },
+  { pattern: words("projets d'avenir"), replacement: "projets" },
+  { pattern: words("perspectives d'avenir"), replacement: "perspectives" },
+  { pattern: words("expérience passée"), replacement: "expérience" },
+  { pattern: words("surprise inattendue"), replacement: "surprise" },
+  { pattern: words("nouvelle innovation"), replacement: "innovation" },
+  { pattern: words("nouvelles innovations"), replacement: "innovations" },
+  { pattern: words("première priorité"), replacement: "priorité" },
+  { pattern: words("panacée universelle"), replacement: "panacée" },
+  { pattern: words("faux prétexte"), replacement: "prétexte" },
+  { pattern: words("bref résumé"), replacement: "résumé" },
+  { pattern: words("cadeau gratuit"), replacement: "cadeau" },
+  { pattern: words("monopole exclusif"), replacement: "monopole" },
+
+  // === Redundant superlatives ===
+  { pattern: words("le plus optimal"), replacement: "optimal" },
+  { pattern: words("la plus optimale"), replacement: "optimale" },
+  { pattern: words("les plus optimaux"), replacement: "optimaux" },
+];
+
+// === Light verb constructions ===
+// "prendre une décision" -> "décider", "effectué une analyse" -> "analysé".
+// Infinitives (after a modal: "nous devons prendre une décision") and past
+// participles (after an auxiliary: "il a pris une décision"); "fait" is
+// left out, since it is also the present tense of "faire". The article
+// is optional, since "un" and "une" are removed first.
+// Applied only on "aggressive" level.
+
+// Not followed by a "de" complement
+const NO_COMPLEMENT = "(?!\\s+(?:d['’]|(?:de|du|des)(?![\\p{L}])))";
+
+// "effectué une vérification du code" -> "vérifié le code": the noun's
+// "de" complement becomes the verb's direct object. Other complements
+// ("de l'", bare "de") block the rewrite.
+function withObject(pattern: string, verb: string): Array<[RegExp, string]> {
+  return [
+    [words(`${pattern}\\s+du`), `${verb} le`],
+    [words(`${pattern}\\s+des`), `${verb} les`],
+    [words(`${pattern}\\s+de\\s+la`), `${verb} la`],
+    [words(`${pattern}${NO_COMPLEMENT}`), verb],
+  ];
+}
+
+const DEVERBAL_NOUNS: Array<[RegExp, string]> = [
+  [words("prendre\\s+(?:(?:une|la)\\s+)?décision"), "décider"],
+  [words("pris\\s+(?:(?:une|la)\\s+)?décision"), "décidé"],
+  [words("prendre\\s+contact\\s+avec"), "contacter"],
+  [words("pris\\s+contact\\s+avec"), "contacté"],
+
+  ...withObject("(?:effectuer|réaliser)\\s+(?:une\\s+|l['’])?analyse", "analyser"),
+  ...withObject("(?:effectué|réalisé)\\s+(?:une\\s+|l['’])?analyse", "analysé"),
+  ...withObject("(?:effectuer|réaliser)\\s+(?:(?:une|la)\\s+)?vérification", "vérifier"),
+  ...withObject("(?:effectué|réalisé)\\s+(?:(?:une|la)\\s+)?vérification", "vérifié"),
+  ...withObject("(?:effectuer|réaliser)\\s+(?:(?:un|le)\\s+)?contrôle", "contrôler"),
+  ...withObject("(?:effectué|réalisé)\\s+(?:(?:un|le)\\s+)?contrôle", "contrôlé"),
+  ...withObject("(?:effectuer|réaliser)\\s+(?:une\\s+|l['’])?évaluation", "évaluer"),
+  ...withObject("(?:effectué|réalisé)\\s+(?:une\\s+|l['’])?évaluation", "évalué"),
+  ...withObject("effectuer\\s+(?:(?:un|le)\\s+)?paiement", "payer"),
+  ...withObject("effectué\\s+(?:(?:un|le)\\s+)?paiement", "payé"),
+  ...withObject("effectuer\\s+(?:(?:un|le)\\s+)?déploiement", "déployer"),
+  ...withObject("effectué\\s+(?:(?:un|le)\\s+)?déploiement", "déployé"),
+  ...withObject("effectuer\\s+(?:(?:une|la)\\s+)?sauvegarde", "sauvegarder"),
+  ...withObject("effectué\\s+(?:(?:une|la)\\s+)?sauvegarde", "sauvegardé"),
+  ...withObject("effectuer\\s+(?:(?:une|la)\\s+)?mise\\s+à\\s+jour", "mettre à jour"),
+  ...withObject("effectué\\s+(?:(?:une|la)\\s+)?mise\\s+à\\s+jour", "mis à jour"),
+  ...withObject("effectuer\\s+(?:(?:un|le)\\s+)?redémarrage", "redémarrer"),
+  ...withObject("effectué\\s+(?:(?:un|le)\\s+)?redémarrage", "redémarré"),
+
+  [words(`(?:effectuer|réaliser)\\s+(?:(?:une|la)\\s+)?recherche${NO_COMPLEMENT}`), "chercher"],
+  [words(`(?:effectué|réalisé)\\s+(?:(?:une|la)\\s+)?recherche${NO_COMPLEMENT}`), "cherché"],
+  [words("mener\\s+(?:une\\s+|l['’])?enquête"), "enquêter"],
+  [words("mené\\s+(?:une\\s+|l['’])?enquête"), "enquêté"],
+  [words("tirer\\s+(?:(?:une|la)\\s+)?conclusion"), "conclure"],
+  [words("tiré\\s+(?:(?:une|la)\\s+)?conclusion"), "conclu"],
+  [words("donner\\s+(?:(?:une|la)\\s+)?réponse\\s+à"), "répondre à"],
+  [words("donné\\s+(?:(?:une|la)\\s+)?réponse\\s+à"), "répondu à"],
+  [words("mettre\\s+fin\\s+à"), "terminer"],
+  [words("mis\\s+fin\\s+à"), "terminé"],
+  [words("avoir\\s+(?:un\\s+|de\\s+l['’])?impact\\s+sur"), "influencer"],
+  [words("eu\\s+(?:un\\s+|de\\s+l['’])?impact\\s+sur"), "influencé"],
+  [words("exercer\\s+(?:une\\s+)?influence\\s+sur"), "influencer"],
+  [words("exercé\\s+(?:une\\s+)?influence\\s+sur"), "influencé"],
+];
+
+const COPULA_PATTERNS: Array<[RegExp, string]> = [
+  [words("il est nécessaire de"), "il faut"],
+  [words("il est possible de"), "on peut"],
+  [words("il est recommandé de"), "mieux vaut"],
+  [words("il est conseillé de"), "mieux vaut"],
+  [words("il y a beaucoup de"), "beaucoup de"],
+  [words("il y a plusieurs"), "plusieurs"],
+  [words("il existe plusieurs"), "plusieurs"],
+  [words("il y a de nombreux"), "de nombreux"],
+  [words("il y a de nombreuses"), "de nombreuses"],
+];
+
+// Only the indefinite "un" and "une": "le", "la" and "les" are also object
+// pronouns ("je la vois") and "des" is also "de" + "les". "un des" and
+// "une de" mean "one of" and stay.
+const ARTICLE_PATTERN = /(?<![\p{L}'’])(un|une)\s+(?!(?:des|de|d'|d’)(?![\p{L}]))/giu;
+
+const STOPWORDS = [
+  "à", "afin", "ai", "au", "aux", "avec", "avons", "ce", "ceci", "cela",
+  "ces", "cet", "cette", "comme", "dans", "de", "des", "donc", "dont", "du",
+  "elle", "elles", "en", "entre", "est", "et", "été", "être", "eux", "il",
+  "ils", "je", "la", "le", "les", "leur", "leurs", "lui", "mais", "me", "même",
+  "mes", "moi", "mon", "ne", "nos", "notre", "nous", "on", "ont", "ou", "où",
+  "par", "pas", "pour", "qu", "que", "qui", "sa", "sans", "se", "ses", "si",
+  "son", "sont", "sous", "sur", "ta", "te", "tes", "toi", "ton", "tous",
+  "tout", "très", "tu", "un", "une", "vos", "votre", "vous", "y",
+];
+
+export const frenchPack: LanguagePack = {
+  code: "fr",
+  name: "French",
+  script: "latin",
+
+  fillers: FILLERS,
+  substitutions: SUBSTITUTIONS,
+  redundancies: REDUNDANCIES,
+
+  shorthand: {
+    // Written French already contracts and elides ("du", "l'") as a rule
+    contractions: [],
+    articles: ARTICLE_PATTERN,
+    copulas: COPULA_PATTERNS,
+    // French doesn't drop subject pronouns
+    pronounElision: [],
+    patronymicPattern: null,
+    deverbalNouns: DEVERBAL_NOUNS,
+  },
+
+  stopwords: STOPWORDS,
+
+  capitalizeAfterPeriod: /\.\s+([a-zàâæçéèêëîïôœùûüÿ])/gu,
+};
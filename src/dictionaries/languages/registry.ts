@@ -1,17 +1,26 @@
-import type { LanguageCode, LanguagePack } from "./types.js";
+import type { BuiltinLanguageCode, LanguageCode, LanguagePack } from "./types.js";
 import { englishPack } from "./en.js";
 import { russianPack } from "./ru.js";
+import { germanPack } from "./de.js";
+import { frenchPack } from "./fr.js";
+import { spanishPack } from "./es.js";
 
-const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+const BUILTIN_PACKS: Record<BuiltinLanguageCode, LanguagePack> = {
   en: englishPack,
   ru: russianPack,
+  de: germanPack,
+  fr: frenchPack,
+  es: spanishPack,
 };
 
+// Built-ins first, then user packs in registration order
+const LANGUAGE_PACKS = new Map<LanguageCode, LanguagePack>(Object.entries(BUILTIN_PACKS));
+
 export class LanguageRegistry {
   static get(code: LanguageCode): LanguagePack {
-    const pack = LANGUAGE_PACKS[code];
+    const pack = LANGUAGE_PACKS.get(code);
     if (!pack) {
-      const available = Object.keys(LANGUAGE_PACKS).join(", ");
+      const available = [...LANGUAGE_PACKS.keys()].join(", ");
       throw new Error(
         `Unknown language: ${code}. Available: ${available}`
       );
@@ -19,7 +28,33 @@ export class LanguageRegistry {
     return pack;
   }
 
+  static has(code: string): boolean {
+    return LANGUAGE_PACKS.has(code);
+  }
+
+  static isBuiltin(code: string): code is BuiltinLanguageCode {
+    return Object.hasOwn(BUILTIN_PACKS, code);
+  }
+
   static availableLanguages(): LanguageCode[] {
-    return Object.keys(LANGUAGE_PACKS) as LanguageCode[];
+    return [...LANGUAGE_PACKS.keys()];
+  }
+
+  /**
+   * Add a user language pack. Built-in languages can't be replaced; a user
+   * pack registered again under the same code replaces the earlier one.
+   */
+  static register(pack: LanguagePack): void {
+    if (LanguageRegistry.isBuiltin(pack.code)) {
+      throw new Error(`Language "${pack.code}" is built in and can't be replaced`);
+    }
+    LANGUAGE_PACKS.set(pack.code, pack);
+  }
+
+  // Drop every user pack, leaving the built-ins
+  static reset(): void {
+    for (const code of LANGUAGE_PACKS.keys()) {
+      if (!LanguageRegistry.isBuiltin(code)) LANGUAGE_PACKS.delete(code);
+    }
   }
 }
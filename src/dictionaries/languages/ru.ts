@@ -354,8 +354,20 @@ const PRONOUN_ELISION: Array<[RegExp, string]> = [
 // Replaces "Имя Отчество" -> "И." + first letter of patronymic + "."
 const PATRONYMIC_PATTERN = /(?<![\p{L}])([А-ЯЁ][а-яё]{2,})\s+([А-ЯЁ][а-яё]*(?:ович|евич|ич|овна|евна|ична|инична))(?![\p{L}])/gu;
 
+const STOPWORDS = [
+  "а", "без", "бы", "был", "была", "были", "было", "быть", "в", "вам", "вас",
+  "весь", "во", "вот", "все", "всё", "вы", "где", "да", "для", "до", "его",
+  "ее", "её", "если", "есть", "еще", "ещё", "же", "за", "здесь", "и", "из",
+  "или", "им", "их", "к", "как", "ко", "когда", "кто", "ли", "мне", "мы", "на",
+  "над", "надо", "не", "него", "нее", "неё", "нет", "ни", "них", "но", "ну",
+  "о", "об", "он", "она", "они", "оно", "от", "по", "под", "при", "с", "со",
+  "так", "также", "там", "то", "тоже", "только", "тот", "ты", "у", "уже",
+  "чем", "что", "чтобы", "эта", "эти", "это", "этот", "я",
+];
+
 export const russianPack: LanguagePack = {
   code: "ru",
+  name: "Russian",
   script: "cyrillic",
 
   fillers: FILLERS,
@@ -371,5 +383,7 @@ export const russianPack: LanguagePack = {
     deverbalNouns: DEVERBAL_NOUNS,
   },
 
+  stopwords: STOPWORDS,
+
   capitalizeAfterPeriod: /\.\s+([a-яёa-z])/gu,
 };
@@ -1,4 +1,7 @@
-export type LanguageCode = "en" | "ru";
+export type BuiltinLanguageCode = "en" | "ru" | "de" | "fr" | "es";
+
+// Built-in codes, or any code registered by a user language pack
+export type LanguageCode = BuiltinLanguageCode | (string & {});
 
 export type ScriptType = "latin" | "cyrillic";
 
@@ -13,6 +16,8 @@ export interface ShorthandConfig {
 
 export interface LanguagePack {
   readonly code: LanguageCode;
+  // Display name, e.g. "English"
+  readonly name?: string;
   readonly script: ScriptType;
 
   readonly fillers: string[];
@@ -21,6 +26,9 @@ export interface LanguagePack {
 
   readonly shorthand: ShorthandConfig;
 
+  // Function words; learned phrases may not start or end with one
+  readonly stopwords: string[];
+
   // Regex for capitalize-after-period (language-specific letter ranges)
   readonly capitalizeAfterPeriod: RegExp;
 }
@@ -0,0 +1,208 @@
+import { appendFile, mkdir, readFile, rename, stat, unlink } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { ConfigManager, PROJECT_CONFIG_FILE } from "../config/ConfigManager.js";
+import { FileLock } from "../storage/FileLock.js";
+import type { CompressionLevel, TokenizerType } from "../pipeline/stages/IStage.js";
+import type { DomainName } from "../dictionaries/DictionaryLoader.js";
+import type { LanguageCode } from "../dictionaries/languages/types.js";
+
+/**
+ * One compression, as logged to history.jsonl. Tools that don't run the
+ * text pipeline (JSON compression) log null level, domain and language.
+ */
+export interface CompressionEvent {
+  at: string; // ISO date
+  tool: string;
+  level: CompressionLevel | null;
+  domain: DomainName | null;
+  language: LanguageCode | null;
+  tokenizer: TokenizerType;
+  tokensIn: number;
+  tokensOut: number;
+  // Root directory of the project the compression ran in
+  project: string;
+}
+
+export type HistoryGrouping = "day" | "week" | "tool" | "domain" | "project";
+
+export interface HistoryBucket {
+  key: string;
+  compressions: number;
+  tokensIn: number;
+  tokensOut: number;
+  tokensSaved: number;
+  reductionPercent: number;
+}
+
+export interface HistoryLogOptions {
+  // Rotate once the current file reaches this size (default: 5 MB)
+  maxBytes?: number;
+  // Rotated files kept as history.1.jsonl ... history.N.jsonl (default: 3)
+  keep?: number;
+}
+
+// Files or directories that mark a project root
+const PROJECT_MARKERS = [PROJECT_CONFIG_FILE, ".git"];
+
+export class HistoryLog {
+  private readonly maxBytes: number;
+  private readonly keep: number;
+
+  constructor(options: HistoryLogOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 5 * 1024 * 1024;
+    this.keep = options.keep ?? 3;
+  }
+
+  static getLogPath(): string {
+    return join(ConfigManager.getConfigDir(), "history.jsonl");
+  }
+
+  /**
+   * Nearest directory at or above `cwd` with a .tksqrc or .git, or `cwd`
+   * itself if there is none.
+   */
+  static async projectRoot(cwd: string): Promise<string> {
+    const start = resolve(cwd);
+    let dir = start;
+    for (;;) {
+      for (const marker of PROJECT_MARKERS) {
+        try {
+          await stat(join(dir, marker));
+          return dir;
+        } catch {
+          // Not here
+        }
+      }
+      const parent = dirname(dir);
+      if (parent === dir) return start;
+      dir = parent;
+    }
+  }
+
+  async record(
+    event: Omit<CompressionEvent, "at" | "project">,
+    cwd: string = process.cwd()
+  ): Promise<void> {
+    const line: CompressionEvent = {
+      at: new Date().toISOString(),
+      ...event,
+      project: await HistoryLog.projectRoot(cwd),
+    };
+
+    const path = HistoryLog.getLogPath();
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    await FileLock.withLock(path, async () => {
+      await this.rotateIfNeeded(path);
+      await appendFile(path, JSON.stringify(line) + "\n", "utf-8");
+    });
+  }
+
+  /**
+   * Logged events, oldest first, optionally only those at or after `since`.
+   * Lines that don't parse (e.g. cut off by a crash) are skipped.
+   */
+  async read(since?: Date): Promise<CompressionEvent[]> {
+    const path = HistoryLog.getLogPath();
+    const files = [
+      ...Array.from({ length: this.keep }, (_, i) => HistoryLog.rotatedPath(path, this.keep - i)),
+      path,
+    ];
+
+    const events: CompressionEvent[] = [];
+    for (const file of files) {
+      let text: string;
+      try {
+        text = await readFile(file, "utf-8");
+      } catch {
+        continue;
+      }
+      for (const line of text.split("\n")) {
+        if (line.trim() === "") continue;
+        try {
+          const event = JSON.parse(line) as CompressionEvent;
+          if (!since || Date.parse(event.at) >= since.getTime()) events.push(event);
+        } catch {
+          // Partial line
+        }
+      }
+    }
+    return events;
+  }
+
+  static aggregate(events: CompressionEvent[], by: HistoryGrouping): HistoryBucket[] {
+    const buckets = new Map<string, HistoryBucket>();
+    for (const event of events) {
+      const key = HistoryLog.groupKey(event, by);
+      const bucket = buckets.get(key) ?? {
+        key,
+        compressions: 0,
+        tokensIn: 0,
+        tokensOut: 0,
+        tokensSaved: 0,
+        reductionPercent: 0,
+      };
+      bucket.compressions++;
+      bucket.tokensIn += event.tokensIn;
+      bucket.tokensOut += event.tokensOut;
+      bucket.tokensSaved = bucket.tokensIn - bucket.tokensOut;
+      buckets.set(key, bucket);
+    }
+
+    const result = [...buckets.values()];
+    for (const bucket of result) {
+      bucket.reductionPercent =
+        bucket.tokensIn > 0
+          ? Math.round((bucket.tokensSaved / bucket.tokensIn) * 1000) / 10
+          : 0;
+    }
+
+    // Time buckets read best in order; the rest by what they saved
+    return by === "day" || by === "week"
+      ? result.sort((a, b) => a.key.localeCompare(b.key))
+      : result.sort((a, b) => b.tokensSaved - a.tokensSaved);
+  }
+
+  /**
+   * Day as YYYY-MM-DD, week as the date of its Monday, both in UTC.
+   */
+  static groupKey(event: CompressionEvent, by: HistoryGrouping): string {
+    switch (by) {
+      case "day":
+        return event.at.slice(0, 10);
+      case "week": {
+        const date = new Date(event.at.slice(0, 10));
+        const sinceMonday = (date.getUTCDay() + 6) % 7;
+        date.setUTCDate(date.getUTCDate() - sinceMonday);
+        return date.toISOString().slice(0, 10);
+      }
+      case "tool":
+        return event.tool;
+      case "domain":
+        return event.domain ?? "(none)";
+      case "project":
+        return event.project;
+    }
+  }
+
+  private static rotatedPath(path: string, n: number): string {
+    return path.replace(/\.jsonl$/, `.${n}.jsonl`);
+  }
+
+  private async rotateIfNeeded(path: string): Promise<void> {
+    let size: number;
+    try {
+      size = (await stat(path)).size;
+    } catch {
+      return;
+    }
+    if (size < this.maxBytes) return;
+
+    await unlink(HistoryLog.rotatedPath(path, this.keep)).catch(() => {});
+    for (let n = this.keep - 1; n >= 1; n--) {
+      await rename(HistoryLog.rotatedPath(path, n), HistoryLog.rotatedPath(path, n + 1)).catch(
+        () => {}
+      );
+    }
+    await rename(path, HistoryLog.rotatedPath(path, 1));
+  }
+}
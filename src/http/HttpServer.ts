@@ -0,0 +1,253 @@
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import { randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, ServerState } from "../server.js";
+
+export interface HttpServerOptions {
+  port: number;
+  // Interface to bind (default: 127.0.0.1)
+  host?: string;
+  // Endpoint path (default: /mcp)
+  path?: string;
+  // Sessions without a request for this long are closed (default: 30 minutes)
+  sessionIdleMs?: number;
+  // Open sessions allowed at once; new clients beyond it get 503 (default: 100)
+  maxSessions?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1", "[::1]"]);
+
+// Tool inputs can be whole documents
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * MCP over streamable HTTP. Every client session gets its own McpServer
+ * and transport; all of them share one ServerState, so stats and learning
+ * accumulate across the agents of a run. Clients that go away without a
+ * DELETE are closed once idle, and the number of open sessions is capped.
+ */
+export class HttpServer {
+  private readonly state = new ServerState();
+  private readonly sessions = new Map<string, Session>();
+  private readonly host: string;
+  private readonly path: string;
+  private readonly sessionIdleMs: number;
+  private readonly maxSessions: number;
+  private http: Server | null = null;
+  private sweeper: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: HttpServerOptions) {
+    this.host = options.host ?? "127.0.0.1";
+    this.path = options.path ?? "/mcp";
+    this.sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  }
+
+  /**
+   * Start listening; resolves with the bound address (port 0 picks a free
+   * port).
+   */
+  async start(): Promise<{ host: string; port: number; url: string }> {
+    const http = createHttpServer((req, res) => {
+      this.handle(req, res).catch((error) => this.fail(res, error));
+    });
+    this.http = http;
+
+    await new Promise<void>((resolve, reject) => {
+      http.once("error", reject);
+      http.listen(this.options.port, this.host, () => {
+        http.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.sweeper = setInterval(
+      () => void this.closeIdleSessions(),
+      Math.min(this.sessionIdleMs, MAX_SWEEP_INTERVAL_MS)
+    );
+    this.sweeper.unref();
+
+    const { port } = http.address() as AddressInfo;
+    const hostPart = this.host.includes(":") ? `[${this.host}]` : this.host;
+    return { host: this.host, port, url: `http://${hostPart}:${port}${this.path}` };
+  }
+
+  sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session, stop listening and flush learned data.
+   */
+  async close(): Promise<void> {
+    if (this.sweeper) clearInterval(this.sweeper);
+    this.sweeper = null;
+
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map((s) => s.transport.close()));
+
+    const http = this.http;
+    this.http = null;
+    if (http) {
+      await new Promise<void>((resolve) => {
+        http.close(() => resolve());
+        http.closeAllConnections();
+      });
+    }
+
+    await this.state.flush();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== this.path) {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+    this.checkHost(req);
+
+    const sessionId = req.headers["mcp-session-id"];
+    const session =
+      typeof sessionId === "string" ? this.sessions.get(sessionId) : undefined;
+
+    if (session) session.lastSeen = Date.now();
+
+    if (req.method === "POST") {
+      const body = await this.readBody(req);
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId === undefined && this.isInitialize(body)) {
+        await this.openSession(req, res, body);
+        return;
+      }
+      throw new HttpError(400, "No valid session ID provided");
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) throw new HttpError(400, "No valid session ID provided");
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    throw new HttpError(405, `Method not allowed: ${req.method}`);
+  }
+
+  private async openSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    if (this.sessions.size >= this.maxSessions) {
+      await this.closeIdleSessions();
+      if (this.sessions.size >= this.maxSessions) {
+        throw new HttpError(503, `Too many sessions (max ${this.maxSessions})`);
+      }
+    }
+
+    const server = createServer(this.state);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.sessionIdleMs;
+    const idle = [...this.sessions].filter(([, s]) => s.lastSeen <= cutoff);
+    for (const [id] of idle) this.sessions.delete(id);
+    await Promise.all(idle.map(([, s]) => s.transport.close()));
+  }
+
+  private isInitialize(body: unknown): boolean {
+    return Array.isArray(body)
+      ? body.some((message) => isInitializeRequest(message))
+      : isInitializeRequest(body);
+  }
+
+  /**
+   * A loopback-bound server only answers to loopback Host headers, so a
+   * web page can't reach it through DNS rebinding.
+   */
+  private checkHost(req: IncomingMessage): void {
+    if (!LOOPBACK_HOSTS.has(this.host)) return;
+    const host = req.headers.host ?? "";
+    const hostname = host.startsWith("[")
+      ? host.slice(0, host.indexOf("]") + 1)
+      : host.split(":")[0];
+    if (!LOOPBACK_HOSTS.has(hostname)) {
+      throw new HttpError(403, `Host not allowed: ${host}`);
+    }
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch {
+      throw new HttpError(400, "Request body is not valid JSON");
+    }
+  }
+
+  private fail(res: ServerResponse, error: unknown): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        error: { code: -32000, message },
+        id: null,
+      })
+    );
+  }
+}
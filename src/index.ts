@@ -1,33 +1,56 @@
-#!/usr/bin/env node
-
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { createServer } from "./server.js";
-
-// Public API exports
-export { createServer } from "./server.js";
+// Public API exports; the CLI entry point is bin.ts
+export { createServer, ServerState } from "./server.js";
+export { HttpServer } from "./http/HttpServer.js";
+export { Cli, CliUsageError } from "./cli/Cli.js";
 export { Pipeline } from "./pipeline/Pipeline.js";
+export { StagePluginLoader } from "./pipeline/StagePluginLoader.js";
+export { PhraseMatcher } from "./pipeline/matcher/PhraseMatcher.js";
+export { TextChunker } from "./pipeline/streaming/TextChunker.js";
 export { DictionaryLoader } from "./dictionaries/DictionaryLoader.js";
+export { LanguagePackLoader } from "./dictionaries/LanguagePackLoader.js";
 export { TokenCounterFactory } from "./tokenizer/TokenCounter.js";
 export { TextDiffer } from "./diff/TextDiffer.js";
+export { Legend } from "./legend/Legend.js";
+export { JsonCompressor } from "./structured/JsonCompressor.js";
+export { MessageCompressor, DEFAULT_MESSAGE_POLICY } from "./messages/MessageCompressor.js";
 export { ConfigManager } from "./config/ConfigManager.js";
+export { Profiles, BUILT_IN_PROFILES } from "./config/profiles.js";
+export { ConfigSchema, CONFIG_VERSION } from "./config/schema.js";
 export { LanguageDetector } from "./language/LanguageDetector.js";
+export { LanguageSegmenter } from "./language/LanguageSegmenter.js";
+export { ContentTypeDetector } from "./content/ContentTypeDetector.js";
+export { Markdown } from "./markdown/Markdown.js";
 export { LanguageRegistry } from "./dictionaries/languages/registry.js";
 export { buildWordBoundaryRegex } from "./language/WordBoundary.js";
-export { PhraseStore } from "./learning/PhraseStore.js";
+export { PhraseStore, type DemoteTarget } from "./learning/PhraseStore.js";
 export { PhraseTracker } from "./learning/PhraseTracker.js";
-export type { CompressionLevel, TokenizerType, PipelineConfig, PipelineResult, CompressionStats } from "./pipeline/stages/IStage.js";
+export { LearnedPacks, LEARNED_PACK_VERSION } from "./learning/packs.js";
+export { HistoryLog } from "./history/HistoryLog.js";
+export type { CompressionLevel, TokenizerType, PipelineConfig, PipelineResult, CompressionStats, LanguageStats, ContentType, DetectedContentType } from "./pipeline/stages/IStage.js";
+export type { ICompressionStage, StageOptions, StageResult, Change, PreservedRegion, SubstitutionDictionary, LegendEntry } from "./pipeline/stages/IStage.js";
+export type { StageRegistration, StreamOptions, ChunkedOptions, StreamChunk } from "./pipeline/Pipeline.js";
+export type { StagePlugin } from "./pipeline/StagePluginLoader.js";
+export type { PhraseMatch } from "./pipeline/matcher/PhraseMatcher.js";
+export type { JsonCompressOptions, JsonCompressResult } from "./structured/JsonCompressor.js";
+export type { ChatMessage, ContentPart, MessageLevel, MessagePolicy, MessageSlot, MessageCompressConfig, MessageStats, MessageCompressResult } from "./messages/MessageCompressor.js";
+export { isInPreservedRegion } from "./pipeline/stages/StageUtils.js";
 export type { DomainName } from "./dictionaries/DictionaryLoader.js";
-export type { LanguageCode, ScriptType, LanguagePack, ShorthandConfig } from "./dictionaries/languages/types.js";
+export type { LanguageCode, BuiltinLanguageCode, ScriptType, LanguagePack, ShorthandConfig } from "./dictionaries/languages/types.js";
+export type { LanguagePackLoadResult } from "./dictionaries/LanguagePackLoader.js";
+export type { LanguageCandidate, LanguageDetection } from "./language/LanguageDetector.js";
+export type { LanguageSegment } from "./language/LanguageSegmenter.js";
 export type { LanguageSetting, TksqConfig } from "./config/defaults.js";
-export type { LearningConfig, CandidatePattern, LearnedData } from "./learning/types.js";
-
-async function main(): Promise<void> {
-  const server = createServer();
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-}
-
-main().catch((error) => {
-  console.error("Fatal error starting tksq server:", error);
-  process.exit(1);
-});
+export type { ConfigLayer, ResolvedConfig, ConfigManagerOptions } from "./config/ConfigManager.js";
+export type { CompressionProfile } from "./config/profiles.js";
+export type {
+  LearningConfig,
+  CandidatePattern,
+  LearnedData,
+  RejectedPattern,
+  AuditEntry,
+  LearningAction,
+} from "./learning/types.js";
+export type { CliIO } from "./cli/Cli.js";
+export type { HttpServerOptions } from "./http/HttpServer.js";
+export type { LearnedPack, PackStrategy, PackConflict, PackImportOptions, PackImportResult } from "./learning/packs.js";
+export type { CompressionEvent, HistoryGrouping, HistoryBucket, HistoryLogOptions } from "./history/HistoryLog.js";
@@ -1,24 +1,196 @@
-import type { LanguageCode } from "../dictionaries/languages/types.js";
+import type { LanguageCode, LanguagePack, ScriptType } from "../dictionaries/languages/types.js";
+import type { LanguageSetting } from "../config/defaults.js";
+import { LanguageRegistry } from "../dictionaries/languages/registry.js";
+
+export interface LanguageCandidate {
+  language: LanguageCode;
+  // 0-1: how well the text fits the pack's script, stopwords and trigrams
+  score: number;
+}
+
+export interface LanguageDetection {
+  // Best candidate, or the script default when no pack fits at all
+  language: LanguageCode;
+  // 0-1: the best score, reduced when the runner-up is close
+  confidence: number;
+  // Every registered pack, best first
+  candidates: LanguageCandidate[];
+}
+
+interface LanguageProfile {
+  stopwords: Set<string>;
+  trigrams: Map<string, number>;
+  norm: number;
+}
+
+// Languages assumed for each script when detection isn't confident
+const SCRIPT_DEFAULTS: Record<ScriptType, LanguageCode> = {
+  latin: "en",
+  cyrillic: "ru",
+};
+
+const SCRIPT_LETTERS: Record<ScriptType, RegExp> = {
+  latin: /\p{Script=Latin}/gu,
+  cyrillic: /\p{Script=Cyrillic}/gu,
+};
+
+// Share of running words that are stopwords in ordinary prose; reaching it
+// counts as a full stopword match
+const EXPECTED_STOPWORD_SHARE = 0.3;
+const STOPWORD_WEIGHT = 0.7;
+const TRIGRAM_WEIGHT = 0.3;
+const PROFILE_SIZE = 300;
+
+// Profiles are derived from each pack's own word lists, so user packs get
+// one too. Keyed by pack object, so a re-registered code is rebuilt.
+const profiles = new WeakMap<LanguagePack, LanguageProfile>();
+
+// Script with the most letters in `text`, or null if it has none of a known script
+function dominantScript(text: string): ScriptType | null {
+  let dominant: ScriptType | null = null;
+  let most = 0;
+  for (const [script, letters] of Object.entries(SCRIPT_LETTERS) as [ScriptType, RegExp][]) {
+    const count = (text.match(letters) || []).length;
+    if (count > most) {
+      dominant = script;
+      most = count;
+    }
+  }
+  return dominant;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/\p{L}+(?:['’]\p{L}+)*/gu) || [];
+}
+
+// Character trigrams of each word, padded so word starts and ends count
+function trigramCounts(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    const padded = ` ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function norm(counts: Map<string, number>): number {
+  let sum = 0;
+  for (const count of counts.values()) sum += count * count;
+  return Math.sqrt(sum);
+}
+
+function profileOf(pack: LanguagePack): LanguageProfile {
+  let profile = profiles.get(pack);
+  if (!profile) {
+    const corpus = [
+      ...pack.stopwords,
+      ...pack.fillers,
+      ...pack.substitutions.flatMap(([phrase, replacement]) => [phrase, replacement]),
+    ].join(" ");
+    const top = [...trigramCounts(words(corpus))]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, PROFILE_SIZE);
+    const trigrams = new Map(top);
+    profile = {
+      stopwords: new Set(pack.stopwords.map((w) => w.toLowerCase())),
+      trigrams,
+      norm: norm(trigrams),
+    };
+    profiles.set(pack, profile);
+  }
+  return profile;
+}
+
+function cosine(sample: Map<string, number>, sampleNorm: number, profile: LanguageProfile): number {
+  if (sampleNorm === 0 || profile.norm === 0) return 0;
+  let dot = 0;
+  for (const [gram, count] of sample) {
+    dot += count * (profile.trigrams.get(gram) ?? 0);
+  }
+  return dot / (sampleNorm * profile.norm);
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
 
 /**
- * Script-based language detection. No external dependencies.
- * Analyzes Unicode block distribution in a text sample.
+ * Offline language detection. No external dependencies.
+ * Scores every registered pack on a text sample by the share of letters in
+ * the pack's script, the share of words that are its stopwords, and the
+ * similarity of the sample's character trigrams to a profile built from the
+ * pack's own word lists.
  */
 export class LanguageDetector {
   private static readonly SAMPLE_SIZE = 2000;
-  private static readonly CYRILLIC_THRESHOLD = 0.3;
+  // Below this, `detect` and `resolve` fall back instead of trusting the best guess
+  static readonly MIN_CONFIDENCE = 0.3;
 
+  /**
+   * The detected language when detection is confident, else the default
+   * for the text's script. Use `analyze` for the best guess regardless.
+   */
   static detect(text: string): LanguageCode {
-    const sample = text.slice(0, LanguageDetector.SAMPLE_SIZE);
+    return LanguageDetector.resolve(text, "auto");
+  }
 
-    const cyrillicCount = (sample.match(/[\u0400-\u04FF]/g) || []).length;
+  static analyze(text: string): LanguageDetection {
+    const sample = text.slice(0, LanguageDetector.SAMPLE_SIZE);
     const totalLetters = (sample.match(/\p{L}/gu) || []).length;
+    const tokens = words(sample);
+    const sampleTrigrams = trigramCounts(tokens);
+    const sampleNorm = norm(sampleTrigrams);
+
+    const scriptShare = (script: ScriptType) =>
+      totalLetters === 0 ? 0 : (sample.match(SCRIPT_LETTERS[script]) || []).length / totalLetters;
 
-    if (totalLetters === 0) return "en";
-    if (cyrillicCount / totalLetters > LanguageDetector.CYRILLIC_THRESHOLD) {
-      return "ru";
+    const candidates: LanguageCandidate[] = LanguageRegistry.availableLanguages().map((code) => {
+      const pack = LanguageRegistry.get(code);
+      const profile = profileOf(pack);
+      const hits = tokens.filter((w) => profile.stopwords.has(w)).length;
+      const stopwordFit =
+        tokens.length === 0 ? 0 : Math.min(1, hits / tokens.length / EXPECTED_STOPWORD_SHARE);
+      const fit =
+        STOPWORD_WEIGHT * stopwordFit + TRIGRAM_WEIGHT * cosine(sampleTrigrams, sampleNorm, profile);
+      return { language: code, score: round(scriptShare(pack.script) * fit) };
+    });
+    // Stable sort: built-ins come first, so ties keep the script default
+    candidates.sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = candidates;
+    if (!best || best.score === 0) {
+      return {
+        language: LanguageDetector.scriptDefault(sample) ?? SCRIPT_DEFAULTS.latin,
+        confidence: 0,
+        candidates,
+      };
     }
+    return {
+      language: best.language,
+      confidence: round(Math.max(0, best.score - (runnerUp?.score ?? 0) / 2)),
+      candidates,
+    };
+  }
+
+  /**
+   * Language assumed for the script most of `text` is written in (English
+   * for Latin, Russian for Cyrillic), or null if it has no such letters.
+   */
+  static scriptDefault(text: string): LanguageCode | null {
+    const script = dominantScript(text.slice(0, LanguageDetector.SAMPLE_SIZE));
+    return script ? SCRIPT_DEFAULTS[script] : null;
+  }
 
-    return "en";
+  /**
+   * Language for `text` under the "auto" setting: the detected one when
+   * detection is confident, else `fallback` (the configured language), or
+   * the default for the text's script when that is "auto" as well.
+   */
+  static resolve(text: string, fallback: LanguageSetting): LanguageCode {
+    const detection = LanguageDetector.analyze(text);
+    if (detection.confidence >= LanguageDetector.MIN_CONFIDENCE) return detection.language;
+    if (fallback !== "auto") return fallback;
+    return LanguageDetector.scriptDefault(text) ?? SCRIPT_DEFAULTS.latin;
   }
 }
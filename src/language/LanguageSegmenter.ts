@@ -0,0 +1,126 @@
+import type { LanguageCode } from "../dictionaries/languages/types.js";
+import { LanguageRegistry } from "../dictionaries/languages/registry.js";
+import { PatternPreserver } from "../pipeline/preserver/PatternPreserver.js";
+import { LanguageDetector } from "./LanguageDetector.js";
+
+export interface LanguageSegment {
+  // Original text between the previous segment and this one ("" for the first)
+  separator: string;
+  text: string;
+  language: LanguageCode;
+}
+
+// Opening or closing line of a fenced code block
+const FENCE = /^[ \t]*(```|~~~)/;
+
+// Line breaks, and sentence ends followed by what starts a new sentence
+const BOUNDARY = /[ \t]*\n\s*|(?<=[.!?…])[ \t]+(?=[\p{Lu}\p{N}"'«“„(])/gu;
+
+// Unsure pieces shorter than this ("OK.", a product name) follow the
+// language before them even when written in another script
+const MIN_SCRIPT_SWITCH_WORDS = 3;
+
+const preserver = new PatternPreserver();
+
+/**
+ * Splits mixed-language text into runs of one language. Each sentence or
+ * line is detected on its own; one detection isn't confident about (a short
+ * heading, a code block) joins the language before it, unless it is a few
+ * words in another script and takes that script's default. Preserved regions
+ * (code, URLs) and fenced code blocks, even unclosed ones, are never split
+ * and don't count towards detection.
+ * Concatenating every segment's separator and text gives the input back.
+ */
+export class LanguageSegmenter {
+  /**
+   * `defaultLanguage` covers text where no sentence is detected confidently.
+   */
+  static split(
+    text: string,
+    preservePatterns: RegExp[],
+    defaultLanguage: LanguageCode
+  ): LanguageSegment[] {
+    // Mask preserved regions so boundaries and detection skip them
+    let masked = text;
+    const regions = [
+      ...preserver.findRegions(text, preservePatterns),
+      ...LanguageSegmenter.fencedBlocks(text),
+    ];
+    for (const region of regions) {
+      masked =
+        masked.slice(0, region.start) +
+        "\x00".repeat(region.end - region.start) +
+        masked.slice(region.end);
+    }
+
+    const pieces: Array<{
+      separator: string;
+      text: string;
+      language: LanguageCode | null;
+      scriptDefault: LanguageCode | null;
+    }> = [];
+    let offset = 0;
+    let separator = "";
+    const add = (end: number) => {
+      const sample = masked.slice(offset, end);
+      const detection = LanguageDetector.analyze(sample);
+      pieces.push({
+        separator,
+        text: text.slice(offset, end),
+        language:
+          detection.confidence >= LanguageDetector.MIN_CONFIDENCE ? detection.language : null,
+        scriptDefault:
+          (sample.match(/\p{L}+/gu) || []).length >= MIN_SCRIPT_SWITCH_WORDS
+            ? LanguageDetector.scriptDefault(sample)
+            : null,
+      });
+    };
+    for (const match of masked.matchAll(BOUNDARY)) {
+      add(match.index!);
+      separator = match[0];
+      offset = match.index! + match[0].length;
+    }
+    add(text.length);
+
+    // Unsure pieces take the language before them, or their script's default
+    // if that language is written in another script; leading ones the first
+    // confident language
+    const scriptOf = (language: LanguageCode) => LanguageRegistry.get(language).script;
+    let current = pieces.find((p) => p.language !== null)?.language ?? defaultLanguage;
+    const segments: LanguageSegment[] = [];
+    for (const piece of pieces) {
+      if (piece.language) {
+        current = piece.language;
+      } else if (piece.scriptDefault && scriptOf(piece.scriptDefault) !== scriptOf(current)) {
+        current = piece.scriptDefault;
+      }
+      const last = segments[segments.length - 1];
+      if (last && last.language === current) {
+        last.text += piece.separator + piece.text;
+      } else {
+        segments.push({ separator: piece.separator, text: piece.text, language: current });
+      }
+    }
+    return segments;
+  }
+
+  // Fenced code blocks by line, so "~~~" fences and a fence left open at
+  // the end count too
+  private static fencedBlocks(text: string): Array<{ start: number; end: number }> {
+    const blocks: Array<{ start: number; end: number }> = [];
+    let open: { start: number; marker: string } | null = null;
+    let offset = 0;
+    for (const line of text.split("\n")) {
+      const marker = FENCE.exec(line)?.[1];
+      if (open === null && marker) {
+        open = { start: offset, marker };
+      } else if (open !== null && marker === open.marker) {
+        blocks.push({ start: open.start, end: offset + line.length });
+        open = null;
+      }
+      offset += line.length + 1;
+    }
+    if (open !== null) blocks.push({ start: open.start, end: text.length });
+    return blocks;
+  }
+}
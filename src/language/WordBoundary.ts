@@ -36,3 +36,12 @@ export function buildWordBoundaryRegex(
     script === "cyrillic" && !flags.includes("u") ? flags + "u" : flags;
   return new RegExp(pattern, finalFlags);
 }
+
+/**
+ * Compile a pattern source that must start and end on letter boundaries.
+ * For language pack rules: \b treats accented letters (ä, é, ñ) as
+ * non-word characters, so "\bmás\b" never matches.
+ */
+export function letterBoundaryRegex(source: string, flags: string = "giu"): RegExp {
+  return new RegExp(`(?<![\\p{L}])(?:${source})(?![\\p{L}])`, flags);
+}
@@ -1,12 +1,52 @@
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { readFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { ConfigManager } from "../config/ConfigManager.js";
-import type { LearnedData, CandidatePattern } from "./types.js";
-import { EMPTY_LEARNED_DATA } from "./types.js";
+import { AtomicFile } from "../storage/AtomicFile.js";
+import { FileLock } from "../storage/FileLock.js";
+import {
+  LEARNED_PACK_VERSION,
+  type LearnedPack,
+  type PackConflict,
+  type PackImportOptions,
+  type PackImportResult,
+} from "./packs.js";
+import type {
+  LearnedData,
+  CandidatePattern,
+  RejectedPattern,
+  AuditEntry,
+} from "./types.js";
+import {
+  EMPTY_LEARNED_DATA,
+  LEARNED_DATA_VERSION,
+  MAX_AUDIT_ENTRIES,
+} from "./types.js";
+
+export type DemoteTarget = "candidates" | "blocklist";
+
+// A candidate's weight halves for every this many days it goes unseen
+const RECENCY_HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A change to learned data. Changes are applied in memory right away and
+// replayed onto the file's current content on save, so parallel tksq
+// processes add to each other's counts instead of overwriting them.
+type Change = (data: LearnedData) => void;
+
+function emptyData(): LearnedData {
+  return {
+    ...EMPTY_LEARNED_DATA,
+    candidates: {},
+    promoted: {},
+    rejected: {},
+    audit: [],
+    stats: { ...EMPTY_LEARNED_DATA.stats },
+  };
+}
 
 export class PhraseStore {
   private data: LearnedData | null = null;
-  private dirty = false;
+  private pending: Change[] = [];
 
   static getStorePath(): string {
     return join(ConfigManager.getConfigDir(), "learned.json");
@@ -15,108 +55,374 @@ export class PhraseStore {
   async load(): Promise<LearnedData> {
     if (this.data) return this.data;
 
-    try {
-      const raw = await readFile(PhraseStore.getStorePath(), "utf-8");
-      const parsed = JSON.parse(raw);
-      this.data = {
-        ...EMPTY_LEARNED_DATA,
-        ...parsed,
-        stats: { ...EMPTY_LEARNED_DATA.stats, ...(parsed.stats ?? {}) },
-      };
-    } catch {
-      this.data = {
-        ...EMPTY_LEARNED_DATA,
-        candidates: {},
-        promoted: {},
-        stats: { ...EMPTY_LEARNED_DATA.stats },
-      };
-    }
-
-    return this.data!;
+    this.data = (await PhraseStore.read()) ?? emptyData();
+    return this.data;
   }
 
+  /**
+   * Write pending changes. Under a lock on the file, they are replayed
+   * onto what is there now (which may include other processes' changes)
+   * and the result replaces the file atomically.
+   */
   async save(): Promise<void> {
-    if (!this.data || !this.dirty) return;
-
-    const dir = ConfigManager.getConfigDir();
-    await mkdir(dir, { recursive: true });
-    await writeFile(
-      PhraseStore.getStorePath(),
-      JSON.stringify(this.data, null, 2),
-      "utf-8"
-    );
-    this.dirty = false;
+    if (!this.data || this.pending.length === 0) return;
+
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    const path = PhraseStore.getStorePath();
+
+    await FileLock.withLock(path, async () => {
+      const changes = this.pending;
+      const snapshot = JSON.stringify(this.data, null, 2);
+      this.pending = [];
+
+      try {
+        const current = await PhraseStore.read();
+        if (!current) {
+          // Nothing to merge with
+          await AtomicFile.write(path, snapshot);
+          return;
+        }
+
+        for (const change of changes) change(current);
+        await AtomicFile.write(path, JSON.stringify(current, null, 2));
+        // Changes made while saving stay pending for the next save
+        for (const change of this.pending) change(current);
+        this.data = current;
+      } catch (error) {
+        this.pending = [...changes, ...this.pending];
+        throw error;
+      }
+    });
   }
 
   async flush(): Promise<void> {
     await this.save();
   }
 
+  /**
+   * Estimated value of a candidate: tokens saved per occurrence times
+   * occurrences, decayed by time since it was last seen.
+   */
+  static score(candidate: CandidatePattern, now = Date.now()): number {
+    const saved = candidate.tokensSaved ?? 1;
+    const ageDays = Math.max(0, now - Date.parse(candidate.lastSeen)) / DAY_MS;
+    return saved * candidate.count * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+  }
+
   async addCandidate(
     phrase: string,
     suggestedReplacement: string | null,
-    maxCandidates: number
+    maxCandidates: number,
+    tokensSaved?: number
   ): Promise<void> {
-    const data = await this.load();
+    await this.load();
     const key = phrase.toLowerCase();
     const now = new Date().toISOString();
 
-    if (data.candidates[key]) {
-      data.candidates[key].count++;
-      data.candidates[key].lastSeen = now;
-      if (suggestedReplacement && !data.candidates[key].suggestedReplacement) {
-        data.candidates[key].suggestedReplacement = suggestedReplacement;
+    this.change((data) => {
+      const existing = data.candidates[key];
+      if (existing) {
+        existing.count++;
+        if (now > existing.lastSeen) existing.lastSeen = now;
+        if (suggestedReplacement && !existing.suggestedReplacement) {
+          existing.suggestedReplacement = suggestedReplacement;
+          if (tokensSaved !== undefined) existing.tokensSaved = tokensSaved;
+        }
+      } else {
+        data.candidates[key] = {
+          phrase,
+          suggestedReplacement,
+          ...(tokensSaved !== undefined ? { tokensSaved } : {}),
+          count: 1,
+          firstSeen: now,
+          lastSeen: now,
+        };
       }
-    } else {
-      data.candidates[key] = {
-        phrase,
-        suggestedReplacement,
-        count: 1,
-        firstSeen: now,
-        lastSeen: now,
-      };
-    }
 
-    this.evictIfNeeded(data, maxCandidates);
-    this.dirty = true;
+      this.evictIfNeeded(data, maxCandidates);
+    });
   }
 
   async incrementCandidate(phrase: string): Promise<void> {
     const data = await this.load();
     const key = phrase.toLowerCase();
+    const now = new Date().toISOString();
 
     if (data.candidates[key]) {
-      data.candidates[key].count++;
-      data.candidates[key].lastSeen = new Date().toISOString();
-      this.dirty = true;
+      this.change((data) => {
+        const candidate = data.candidates[key];
+        if (!candidate) return;
+        candidate.count++;
+        if (now > candidate.lastSeen) candidate.lastSeen = now;
+      });
     }
   }
 
-  async promote(phrase: string, replacement: string): Promise<boolean> {
-    const data = await this.load();
+  /**
+   * Activate a substitution. An explicit promote or add also lifts a
+   * blocklist entry for the phrase.
+   */
+  async promote(
+    phrase: string,
+    replacement: string,
+    options: { action?: "promote" | "auto-promote" | "add"; reason?: string } = {}
+  ): Promise<boolean> {
+    await this.load();
     const key = phrase.toLowerCase();
+    const entry = PhraseStore.entry({
+      action: options.action ?? "promote",
+      phrase: key,
+      replacement,
+      reason: options.reason,
+    });
 
-    data.promoted[key] = replacement;
-    delete data.candidates[key];
-    this.dirty = true;
+    this.change((data) => {
+      data.promoted[key] = replacement;
+      delete data.candidates[key];
+      delete data.rejected[key];
+      PhraseStore.record(data, entry);
+    });
     await this.save();
     return true;
   }
 
-  async reject(phrase: string): Promise<boolean> {
+  /**
+   * Move a candidate to the blocklist so the tracker stops suggesting it.
+   * Returns false if the phrase isn't a candidate.
+   */
+  async reject(phrase: string, reason?: string): Promise<boolean> {
     const data = await this.load();
     const key = phrase.toLowerCase();
 
     if (!data.candidates[key]) return false;
-    delete data.candidates[key];
-    this.dirty = true;
+    const entry = PhraseStore.entry({ action: "reject", phrase: key, reason });
+
+    this.change((data) => {
+      delete data.candidates[key];
+      PhraseStore.block(data, key, entry);
+      PhraseStore.record(data, entry);
+    });
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Deactivate a promoted phrase, either back to the candidates (keeping
+   * its replacement as the suggestion) or onto the blocklist. Returns the
+   * old replacement, or null if the phrase isn't promoted.
+   */
+  async demote(
+    phrase: string,
+    to: DemoteTarget,
+    reason?: string
+  ): Promise<string | null> {
+    const data = await this.load();
+    const key = phrase.toLowerCase();
+    const replacement = data.promoted[key];
+
+    if (replacement === undefined) return null;
+    const entry = PhraseStore.entry({ action: "demote", phrase: key, replacement, to, reason });
+
+    this.change((data) => {
+      delete data.promoted[key];
+
+      if (to === "blocklist") {
+        PhraseStore.block(data, key, entry);
+      } else if (!data.candidates[key]) {
+        // Count starts over so auto-promote doesn't bring it straight back
+        data.candidates[key] = {
+          phrase: key,
+          suggestedReplacement: replacement,
+          count: 0,
+          firstSeen: entry.at,
+          lastSeen: entry.at,
+        };
+      }
+
+      PhraseStore.record(data, entry);
+    });
+    await this.save();
+    return replacement;
+  }
+
+  /**
+   * Remove a phrase from the blocklist. Returns false if it wasn't there.
+   */
+  async unblock(phrase: string, reason?: string): Promise<boolean> {
+    const data = await this.load();
+    const key = phrase.toLowerCase();
+
+    if (!data.rejected[key]) return false;
+    const entry = PhraseStore.entry({ action: "unblock", phrase: key, reason });
+
+    this.change((data) => {
+      delete data.rejected[key];
+      PhraseStore.record(data, entry);
+    });
     await this.save();
     return true;
   }
 
+  async isRejected(phrase: string): Promise<boolean> {
+    const data = await this.load();
+    return Object.hasOwn(data.rejected, phrase.toLowerCase());
+  }
+
+  async getRejected(): Promise<RejectedPattern[]> {
+    const data = await this.load();
+    return Object.values(data.rejected).sort((a, b) =>
+      b.rejectedAt.localeCompare(a.rejectedAt)
+    );
+  }
+
+  /**
+   * Audit entries, newest first.
+   */
+  async getAudit(limit?: number): Promise<AuditEntry[]> {
+    const data = await this.load();
+    const entries = [...data.audit].reverse();
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
+  /**
+   * Candidates, highest score first.
+   */
   async getCandidates(): Promise<CandidatePattern[]> {
     const data = await this.load();
-    return Object.values(data.candidates).sort((a, b) => b.count - a.count);
+    const now = Date.now();
+    return Object.values(data.candidates).sort(
+      (a, b) =>
+        PhraseStore.score(b, now) - PhraseStore.score(a, now) || b.count - a.count
+    );
+  }
+
+  /**
+   * Promoted patterns and the blocklist as a shareable pack. Custom
+   * substitutions live in the config, so the caller passes them in.
+   */
+  async exportPack(
+    options: { name?: string; customSubstitutions?: Record<string, string> } = {}
+  ): Promise<LearnedPack> {
+    const data = await this.load();
+    return {
+      format: "tksq-pack",
+      version: LEARNED_PACK_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...(options.name ? { name: options.name } : {}),
+      promoted: { ...data.promoted },
+      customSubstitutions: { ...(options.customSubstitutions ?? {}) },
+      rejected: structuredClone(data.rejected),
+    };
+  }
+
+  /**
+   * Merge a pack into this store. A phrase the pack maps differently than
+   * we do (or blocklists while we promote it, or the reverse) is a
+   * conflict, settled by `resolutions` or the strategy. With unresolved
+   * conflicts nothing is changed. Custom substitutions belong to the
+   * config, so they go through `writeCustomSubstitutions` first; if that
+   * throws, the store is left unchanged.
+   */
+  async importPack(
+    pack: LearnedPack,
+    options: PackImportOptions = {}
+  ): Promise<PackImportResult> {
+    const data = await this.load();
+    const strategy = options.strategy ?? "ask";
+    const customs = options.customSubstitutions ?? {};
+
+    const conflicts: PackConflict[] = [];
+    const promote: Record<string, string> = {};
+    const block: Record<string, RejectedPattern> = {};
+    const customSubstitutions: Record<string, string> = {};
+    let added = 0;
+    let unchanged = 0;
+
+    const conflict = (
+      phrase: string,
+      kind: PackConflict["kind"],
+      ours: string | null,
+      theirs: string | null
+    ): boolean => {
+      const resolution =
+        options.resolutions?.[phrase] ?? (strategy === "ask" ? null : strategy);
+      conflicts.push({ phrase, kind, ours, theirs, resolution });
+      return resolution === "theirs";
+    };
+
+    for (const [phrase, replacement] of Object.entries(pack.promoted)) {
+      const key = phrase.toLowerCase();
+      if (data.rejected[key]) {
+        if (conflict(key, "promoted", null, replacement)) promote[key] = replacement;
+      } else if (data.promoted[key] === undefined) {
+        promote[key] = replacement;
+        added++;
+      } else if (data.promoted[key] === replacement) {
+        unchanged++;
+      } else if (conflict(key, "promoted", data.promoted[key], replacement)) {
+        promote[key] = replacement;
+      }
+    }
+
+    for (const [phrase, replacement] of Object.entries(pack.customSubstitutions)) {
+      if (customs[phrase] === undefined) {
+        customSubstitutions[phrase] = replacement;
+        added++;
+      } else if (customs[phrase] === replacement) {
+        unchanged++;
+      } else if (conflict(phrase, "customSubstitutions", customs[phrase], replacement)) {
+        customSubstitutions[phrase] = replacement;
+      }
+    }
+
+    for (const [phrase, rejected] of Object.entries(pack.rejected)) {
+      const key = phrase.toLowerCase();
+      if (data.rejected[key]) {
+        unchanged++;
+      } else if (data.promoted[key] === undefined) {
+        block[key] = { ...rejected, phrase: key };
+        added++;
+      } else if (conflict(key, "rejected", data.promoted[key], null)) {
+        block[key] = { ...rejected, phrase: key };
+      }
+    }
+
+    const replaced = conflicts.filter((c) => c.resolution === "theirs").length;
+    const kept = conflicts.filter((c) => c.resolution === "ours").length;
+    const applied = conflicts.every((c) => c.resolution !== null);
+    const result = { applied, added, replaced, kept, unchanged, conflicts };
+    if (!applied) return { ...result, customSubstitutions: {} };
+
+    if (Object.keys(customSubstitutions).length > 0) {
+      await options.writeCustomSubstitutions?.(customSubstitutions);
+    }
+
+    const entries = [
+      ...Object.entries(promote).map(([key, replacement]) =>
+        PhraseStore.entry({ action: "import", phrase: key, replacement, reason: options.reason })
+      ),
+      ...Object.keys(block).map((key) =>
+        PhraseStore.entry({ action: "import", phrase: key, to: "blocklist", reason: options.reason })
+      ),
+    ];
+    if (entries.length > 0) {
+      this.change((data) => {
+        for (const [key, replacement] of Object.entries(promote)) {
+          data.promoted[key] = replacement;
+          delete data.candidates[key];
+          delete data.rejected[key];
+        }
+        for (const [key, rejected] of Object.entries(block)) {
+          delete data.promoted[key];
+          delete data.candidates[key];
+          data.rejected[key] = { ...rejected };
+        }
+        for (const entry of entries) PhraseStore.record(data, entry);
+      });
+      await this.save();
+    }
+
+    return { ...result, customSubstitutions };
   }
 
   async getPromoted(): Promise<Record<string, string>> {
@@ -127,7 +433,10 @@ export class PhraseStore {
   async getReadyCandidates(minFrequency: number): Promise<CandidatePattern[]> {
     const candidates = await this.getCandidates();
     return candidates.filter(
-      (c) => c.count >= minFrequency && c.suggestedReplacement !== null
+      (c) =>
+        c.count >= minFrequency &&
+        c.suggestedReplacement !== null &&
+        (c.tokensSaved ?? 1) > 0
     );
   }
 
@@ -136,12 +445,13 @@ export class PhraseStore {
     charsOriginal: number,
     charsCompressed: number
   ): Promise<void> {
-    const data = await this.load();
-    data.stats.totalCompressions++;
-    data.stats.totalTokensSaved += tokensSaved;
-    data.stats.totalCharsOriginal += charsOriginal;
-    data.stats.totalCharsCompressed += charsCompressed;
-    this.dirty = true;
+    await this.load();
+    this.change((data) => {
+      data.stats.totalCompressions++;
+      data.stats.totalTokensSaved += tokensSaved;
+      data.stats.totalCharsOriginal += charsOriginal;
+      data.stats.totalCharsCompressed += charsCompressed;
+    });
   }
 
   async getStats(): Promise<LearnedData["stats"]> {
@@ -150,30 +460,90 @@ export class PhraseStore {
   }
 
   async incrementSessionCount(): Promise<void> {
-    const data = await this.load();
-    data.stats.sessionCount++;
-    this.dirty = true;
+    await this.load();
+    this.change((data) => {
+      data.stats.sessionCount++;
+    });
     await this.save();
   }
 
-  async reset(): Promise<void> {
-    this.data = {
-      ...EMPTY_LEARNED_DATA,
-      candidates: {},
-      promoted: {},
-      stats: { ...EMPTY_LEARNED_DATA.stats },
-    };
-    this.dirty = true;
+  async reset(reason?: string): Promise<void> {
+    await this.load();
+    const entry = PhraseStore.entry({ action: "reset", reason });
+
+    this.change((data) => {
+      Object.assign(data, emptyData());
+      PhraseStore.record(data, entry);
+    });
     await this.save();
   }
 
+  // Apply a change now and queue it for the next save
+  private change(change: Change): void {
+    change(this.data!);
+    this.pending.push(change);
+  }
+
+  /**
+   * The file's current content, or null if it is missing or unreadable.
+   * Data from older versions gets the fields added since.
+   */
+  private static async read(): Promise<LearnedData | null> {
+    let parsed: Partial<LearnedData>;
+    try {
+      parsed = JSON.parse(await readFile(PhraseStore.getStorePath(), "utf-8"));
+    } catch {
+      return null;
+    }
+
+    const empty = emptyData();
+    return {
+      ...empty,
+      ...parsed,
+      rejected: parsed.rejected ?? empty.rejected,
+      audit: parsed.audit ?? empty.audit,
+      stats: { ...empty.stats, ...(parsed.stats ?? {}) },
+      version: Math.max(parsed.version ?? 1, LEARNED_DATA_VERSION),
+    };
+  }
+
+  // Timestamped when the decision is made, not when it is saved
+  private static entry(entry: Omit<AuditEntry, "at">): AuditEntry {
+    const full: AuditEntry = { at: new Date().toISOString(), action: entry.action };
+    if (entry.phrase !== undefined) full.phrase = entry.phrase;
+    if (entry.replacement !== undefined) full.replacement = entry.replacement;
+    if (entry.to !== undefined) full.to = entry.to;
+    if (entry.reason) full.reason = entry.reason;
+    return full;
+  }
+
+  private static block(data: LearnedData, key: string, entry: AuditEntry): void {
+    data.rejected[key] = {
+      phrase: key,
+      rejectedAt: entry.at,
+      ...(entry.reason ? { reason: entry.reason } : {}),
+    };
+  }
+
+  private static record(data: LearnedData, entry: AuditEntry): void {
+    data.audit.push({ ...entry });
+    if (data.audit.length > MAX_AUDIT_ENTRIES) {
+      data.audit.splice(0, data.audit.length - MAX_AUDIT_ENTRIES);
+    }
+  }
+
   private evictIfNeeded(data: LearnedData, maxCandidates: number): void {
     const keys = Object.keys(data.candidates);
     if (keys.length <= maxCandidates) return;
 
+    const now = Date.now();
     const sorted = keys
-      .map((k) => ({ key: k, ...data.candidates[k] }))
-      .sort((a, b) => a.count - b.count || a.lastSeen.localeCompare(b.lastSeen));
+      .map((k) => ({
+        key: k,
+        score: PhraseStore.score(data.candidates[k], now),
+        lastSeen: data.candidates[k].lastSeen,
+      }))
+      .sort((a, b) => a.score - b.score || a.lastSeen.localeCompare(b.lastSeen));
 
     const toRemove = sorted.length - maxCandidates;
     for (let i = 0; i < toRemove; i++) {
@@ -1,35 +1,56 @@
 import type { PhraseStore } from "./PhraseStore.js";
 import type { LearningConfig } from "./types.js";
+import { ApproximateCounter, type ITokenCounter } from "../tokenizer/TokenCounter.js";
+import { LanguageDetector } from "../language/LanguageDetector.js";
+import { LanguageRegistry } from "../dictionaries/languages/registry.js";
+import type { LanguageCode } from "../dictionaries/languages/types.js";
 
 interface PhraseOccurrence {
   phrase: string;
   count: number;
 }
 
+const stopwordCache = new Map<LanguageCode, Set<string>>();
+
+function stopwordsFor(text: string): Set<string> {
+  const code = LanguageDetector.detect(text);
+  let stopwords = stopwordCache.get(code);
+  if (!stopwords) {
+    stopwords = new Set(LanguageRegistry.get(code).stopwords);
+    stopwordCache.set(code, stopwords);
+  }
+  return stopwords;
+}
+
 export class PhraseTracker {
   private sessionFrequencies = new Map<string, number>();
 
   constructor(
     private readonly store: PhraseStore,
-    private readonly config: LearningConfig
+    private readonly config: LearningConfig,
+    private readonly counter: ITokenCounter = new ApproximateCounter()
   ) {}
 
   async analyzeText(text: string): Promise<PhraseOccurrence[]> {
     if (!this.config.enabled) return [];
 
-    const phrases = this.extractRepeatingPhrases(text);
+    const phrases = this.extractRepeatingPhrases(text, stopwordsFor(text));
     const newCandidates: PhraseOccurrence[] = [];
 
     for (const { phrase, count } of phrases) {
       const key = phrase.toLowerCase();
+      // Rejected phrases stay rejected
+      if (await this.store.isRejected(key)) continue;
 
       const sessionCount = (this.sessionFrequencies.get(key) ?? 0) + count;
       this.sessionFrequencies.set(key, sessionCount);
 
+      const replacement = this.suggestReplacement(phrase);
       await this.store.addCandidate(
         phrase,
-        this.suggestReplacement(phrase),
-        this.config.maxCandidates
+        replacement,
+        this.config.maxCandidates,
+        replacement ? this.tokensSaved(phrase, replacement) : 0
       );
 
       newCandidates.push({ phrase, count: sessionCount });
@@ -61,13 +82,25 @@ export class PhraseTracker {
       if (candidate.suggestedReplacement) {
         await this.store.promote(
           candidate.phrase,
-          candidate.suggestedReplacement
+          candidate.suggestedReplacement,
+          { action: "auto-promote", reason: `seen ${candidate.count} times` }
         );
       }
     }
   }
 
-  private extractRepeatingPhrases(text: string): PhraseOccurrence[] {
+  /**
+   * Tokens saved per occurrence by writing `replacement` for `phrase`.
+   * Both are counted after a space, as they appear mid-sentence.
+   */
+  tokensSaved(phrase: string, replacement: string): number {
+    return this.counter.count(` ${phrase}`) - this.counter.count(` ${replacement}`);
+  }
+
+  private extractRepeatingPhrases(
+    text: string,
+    stopwords: Set<string>
+  ): PhraseOccurrence[] {
     const words = text
       .replace(/[^\p{L}\p{N}\s]/gu, " ")
       .split(/\s+/)
@@ -84,6 +117,14 @@ export class PhraseTracker {
         const key = ngram.toLowerCase();
         // Skip if too short (total chars)
         if (key.length < 8) continue;
+        // "of the system" -> only "system" carries meaning; the longer
+        // n-gram would just duplicate it with function words attached
+        if (
+          stopwords.has(words[i].toLowerCase()) ||
+          stopwords.has(words[i + n - 1].toLowerCase())
+        ) {
+          continue;
+        }
         phraseCounts.set(key, (phraseCounts.get(key) ?? 0) + 1);
       }
     }
@@ -101,16 +142,17 @@ export class PhraseTracker {
     return results.slice(0, 20);
   }
 
+  /**
+   * The acronym or known shortening that saves the most tokens, or null
+   * if none saves any.
+   */
   suggestReplacement(phrase: string): string | null {
     const words = phrase.split(/\s+/);
+    const options: string[] = [];
 
     // Acronym: if 2-5 words, try first letters
     if (words.length >= 2 && words.length <= 5) {
-      const acronym = words.map((w) => w[0].toUpperCase()).join("");
-      // Only suggest if significantly shorter
-      if (acronym.length < phrase.length * 0.5) {
-        return acronym;
-      }
+      options.push(words.map((w) => w[0].toUpperCase()).join(""));
     }
 
     // Single long word: try common shortenings
@@ -128,11 +170,19 @@ export class PhraseTracker {
         [/repository$/i, "repo"],
       ];
 
-      for (const [pattern, short] of shortenings) {
-        if (pattern.test(phrase)) return short;
-      }
+      const match = shortenings.find(([pattern]) => pattern.test(phrase));
+      if (match) options.push(match[1]);
     }
 
-    return null;
+    let best: string | null = null;
+    let bestSaved = 0;
+    for (const option of options) {
+      const saved = this.tokensSaved(phrase, option);
+      if (saved > bestSaved) {
+        best = option;
+        bestSaved = saved;
+      }
+    }
+    return best;
   }
 }
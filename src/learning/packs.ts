@@ -0,0 +1,135 @@
+import { readFile, unlink, writeFile } from "node:fs/promises";
+import { z } from "zod";
+import { ConfigSchema } from "../config/schema.js";
+import type { RejectedPattern } from "./types.js";
+
+// Bump when the pack format changes; older packs must keep importing
+export const LEARNED_PACK_VERSION = 1;
+
+/**
+ * Promoted patterns, custom substitutions and the blocklist of one
+ * installation, for sharing with a team.
+ */
+export interface LearnedPack {
+  format: "tksq-pack";
+  version: number;
+  exportedAt: string; // ISO date
+  name?: string;
+  promoted: Record<string, string>;
+  customSubstitutions: Record<string, string>;
+  rejected: Record<string, RejectedPattern>;
+}
+
+/**
+ * How import settles a phrase the pack and this installation disagree on:
+ * keep ours, take theirs, or import nothing and report the conflicts.
+ */
+export type PackStrategy = "ours" | "theirs" | "ask";
+
+export interface PackConflict {
+  phrase: string;
+  kind: "promoted" | "customSubstitutions" | "rejected";
+  // Replacement on each side; null means the side blocklists the phrase
+  ours: string | null;
+  theirs: string | null;
+  // How it was settled, or null if it still needs a decision
+  resolution: "ours" | "theirs" | null;
+}
+
+export interface PackImportOptions {
+  strategy?: PackStrategy;
+  // Per-phrase decisions, taking precedence over the strategy
+  resolutions?: Record<string, "ours" | "theirs">;
+  // Current custom substitutions to compare the pack's against
+  customSubstitutions?: Record<string, string>;
+  // Recorded in the audit trail
+  reason?: string;
+  // Writes the pack's custom substitutions to config; runs before the store
+  // changes, so a failed write leaves the import unapplied
+  writeCustomSubstitutions?: (customSubstitutions: Record<string, string>) => Promise<void>;
+}
+
+export interface PackImportResult {
+  // False if conflicts were left unresolved; nothing is changed then
+  applied: boolean;
+  added: number;
+  replaced: number;
+  kept: number;
+  unchanged: number;
+  conflicts: PackConflict[];
+  // Custom substitutions added or changed in config
+  customSubstitutions: Record<string, string>;
+}
+
+const phrase = z.string().refine((p) => p.trim() !== "", { message: "Empty phrase" });
+
+const PACK_SCHEMA = z
+  .object({
+    format: z.literal("tksq-pack"),
+    version: z.number().int().positive(),
+    exportedAt: z.string(),
+    name: z.string().optional(),
+    promoted: z.record(phrase, z.string()).default({}),
+    customSubstitutions: z.record(phrase, z.string()).default({}),
+    rejected: z
+      .record(
+        phrase,
+        z.object({
+          phrase: z.string(),
+          rejectedAt: z.string(),
+          reason: z.string().optional(),
+        })
+      )
+      .default({}),
+  })
+  .strip();
+
+export class LearnedPacks {
+  /**
+   * Parse and validate a pack file's contents. `source` names the file in
+   * error messages.
+   */
+  static parse(text: string, source: string): LearnedPack {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid pack ${source}: ${message}`);
+    }
+
+    const version = (raw as { version?: unknown } | null)?.version;
+    if (typeof version === "number" && version > LEARNED_PACK_VERSION) {
+      throw new Error(
+        `Pack ${source} was written by a newer tksq (pack version ${version}, this one supports ${LEARNED_PACK_VERSION})`
+      );
+    }
+
+    const result = PACK_SCHEMA.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`Invalid pack ${source}: ${ConfigSchema.format(result.error).join("; ")}`);
+    }
+    return result.data;
+  }
+
+  static async read(path: string): Promise<LearnedPack> {
+    return LearnedPacks.parse(await readFile(path, "utf-8"), path);
+  }
+
+  /**
+   * Write a pack to a new file. Refuses to replace an existing file, since
+   * the path may come from an MCP client.
+   */
+  static async write(path: string, pack: LearnedPack): Promise<void> {
+    try {
+      await writeFile(path, JSON.stringify(pack, null, 2) + "\n", { encoding: "utf-8", flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException | null)?.code === "EEXIST") {
+        throw new Error(`${path} already exists; export to a new file`);
+      }
+      // Don't leave a partial pack behind
+      await unlink(path).catch(() => {});
+      throw error;
+    }
+  }
+}
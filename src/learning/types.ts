@@ -1,15 +1,45 @@
 export interface CandidatePattern {
   phrase: string;
   suggestedReplacement: string | null;
+  // Tokens one occurrence saves with the suggestion, per the tracker's
+  // tokenizer; missing in data from before token scoring
+  tokensSaved?: number;
   count: number;
   firstSeen: string; // ISO date
   lastSeen: string; // ISO date
 }
 
+export interface RejectedPattern {
+  phrase: string;
+  rejectedAt: string; // ISO date
+  reason?: string;
+}
+
+export type LearningAction =
+  | "promote"
+  | "auto-promote"
+  | "add"
+  | "reject"
+  | "demote"
+  | "unblock"
+  | "import"
+  | "reset";
+
+export interface AuditEntry {
+  at: string; // ISO date
+  action: LearningAction;
+  phrase?: string;
+  replacement?: string;
+  to?: "candidates" | "blocklist"; // demote, and import of a blocklist entry
+  reason?: string;
+}
+
 export interface LearnedData {
   version: number;
   candidates: Record<string, CandidatePattern>;
   promoted: Record<string, string>; // phrase -> replacement
+  rejected: Record<string, RejectedPattern>; // never re-suggested
+  audit: AuditEntry[]; // oldest first
   stats: CompressionStats;
 }
 
@@ -35,10 +65,18 @@ export const DEFAULT_LEARNING_CONFIG: LearningConfig = {
   maxCandidates: 100,
 };
 
+// v2 added the blocklist and audit trail; v1 files load with both empty
+export const LEARNED_DATA_VERSION = 2;
+
+// Oldest audit entries are dropped past this
+export const MAX_AUDIT_ENTRIES = 1000;
+
 export const EMPTY_LEARNED_DATA: LearnedData = {
-  version: 1,
+  version: LEARNED_DATA_VERSION,
   candidates: {},
   promoted: {},
+  rejected: {},
+  audit: [],
   stats: {
     totalCompressions: 0,
     totalTokensSaved: 0,
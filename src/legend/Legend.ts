@@ -0,0 +1,138 @@
+import type { Change, LegendEntry } from "../pipeline/stages/IStage.js";
+import { PatternPreserver } from "../pipeline/preserver/PatternPreserver.js";
+import { escapeRegex, matchCase } from "../pipeline/stages/StageUtils.js";
+
+/**
+ * Rules whose replacements are not plain language and may be opaque to the
+ * receiving agent: domain abbreviations ("fn"), and acronyms from user
+ * custom substitutions or promoted learned patterns ("CP"). Other custom
+ * substitutions ("repository" -> "repo") are ordinary words, and expanding
+ * them would rewrite the same words wherever else they occur.
+ */
+const LEGEND_RULES = new Set(["semantic:abbreviation", "semantic:custom"]);
+const ACRONYM_ONLY_RULES = new Set(["semantic:custom"]);
+
+function isAcronym(word: string): boolean {
+  return word.length > 1 && word === word.toUpperCase() && /\p{Lu}/u.test(word);
+}
+
+const LEGEND_LINE = /^\[legend: (.*)\]$/m;
+
+export interface ExpandResult {
+  text: string;
+  expansions: number;
+}
+
+/**
+ * Compact legend of abbreviations introduced during compression, and the
+ * reverse mapping used by tksq_expand.
+ *
+ * Serialized form: `[legend: fn=function; CP=critical path]`
+ */
+export class Legend {
+  static fromChanges(changes: Change[]): LegendEntry[] {
+    const entries = new Map<string, LegendEntry>();
+
+    for (const change of changes) {
+      if (!LEGEND_RULES.has(change.rule)) continue;
+
+      const short = change.replacement.trim();
+      if (short.length === 0 || /\s/.test(short)) continue;
+      if (ACRONYM_ONLY_RULES.has(change.rule) && !isAcronym(short)) continue;
+
+      // Case variants of one abbreviation ("fn", "Fn") share an entry
+      const key = short.toLowerCase();
+      if (entries.has(key)) continue;
+
+      entries.set(key, {
+        short: isAcronym(short) ? short : key,
+        full: change.original.toLowerCase(),
+      });
+    }
+
+    return [...entries.values()];
+  }
+
+  static format(entries: LegendEntry[]): string {
+    const body = entries.map((e) => `${e.short}=${e.full}`).join("; ");
+    return `[legend: ${body}]`;
+  }
+
+  /**
+   * Parse either a full `[legend: ...]` line or just its body.
+   */
+  static parse(legend: string): LegendEntry[] {
+    const match = legend.match(LEGEND_LINE);
+    const body = match ? match[1] : legend.trim();
+    const entries: LegendEntry[] = [];
+
+    for (const pair of body.split(";")) {
+      const eq = pair.indexOf("=");
+      if (eq <= 0) continue;
+      const short = pair.slice(0, eq).trim();
+      const full = pair.slice(eq + 1).trim();
+      if (short && full) entries.push({ short, full });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Split a `[legend: ...]` line off compressed text, if present.
+   */
+  static extract(text: string): { text: string; entries: LegendEntry[] } {
+    const match = text.match(LEGEND_LINE);
+    if (!match) return { text, entries: [] };
+
+    const stripped = (
+      text.slice(0, match.index) + text.slice(match.index! + match[0].length)
+    ).replace(/\n{3,}/g, "\n\n");
+    return { text: stripped.trim(), entries: Legend.parse(match[0]) };
+  }
+
+  static expand(text: string, entries: LegendEntry[]): ExpandResult {
+    const preserver = new PatternPreserver();
+    const { processed, regions } = preserver.extract(text, []);
+
+    // Acronyms match exactly, lowercase abbreviations in any case
+    const exact = new Map<string, string>();
+    const folded = new Map<string, string>();
+    for (const { short, full } of entries) {
+      if (short === short.toUpperCase() && short.length > 1) {
+        exact.set(short, full);
+      } else {
+        folded.set(short.toLowerCase(), full);
+      }
+    }
+
+    if (exact.size === 0 && folded.size === 0) {
+      return { text, expansions: 0 };
+    }
+
+    // One alternation, longest first, so expansions are never re-expanded
+    // and "params" is not eaten by "param"
+    const alternation = [...exact.keys(), ...folded.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegex)
+      .join("|");
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])(?:${alternation})(?![\\p{L}\\p{N}_])`,
+      "giu"
+    );
+
+    let expansions = 0;
+    const result = processed.replace(pattern, (matched) => {
+      const acronym = exact.get(matched);
+      if (acronym !== undefined) {
+        expansions++;
+        return acronym;
+      }
+      const full = folded.get(matched.toLowerCase());
+      if (full === undefined) return matched;
+      expansions++;
+      return matchCase(matched, full);
+    });
+
+    return { text: preserver.restore(result, regions), expansions };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Line-level Markdown recognition shared by the stages, so structural
+ * rewrites leave headings, tables and lists valid.
+ */
+
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/;
+const LINK_DEFINITION = /^ {0,3}\[[^\]\n]+\]:[ \t]+\S/;
+const LIST_MARKER = /^([ \t]*)([-*+]|\d{1,9}[.)])[ \t]+/;
+
+export class Markdown {
+  /**
+   * Regions the pipeline must never rewrite: table delimiter rows, link
+   * reference definitions and inline link destinations.
+   */
+  static readonly PRESERVE_PATTERNS: RegExp[] = [
+    /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(?:\|[ \t]*:?-{3,}:?[ \t]*)+\|?[ \t]*$/gm,
+    /^ {0,3}\[[^\]\n]+\]:[ \t]+\S.*$/gm,
+    /\]\([^)\s]+(?:\s+"[^"\n]*")?\)/g,
+  ];
+
+  static isHeading(line: string): boolean {
+    return HEADING.test(line);
+  }
+
+  static isTableDelimiter(line: string): boolean {
+    return TABLE_DELIMITER.test(line);
+  }
+
+  /**
+   * A table row starts or ends with a pipe, or has at least two cell
+   * separators.
+   */
+  static isTableRow(line: string): boolean {
+    const trimmed = line.trim();
+    if (!trimmed.includes("|")) return false;
+    if (trimmed.startsWith("|") || trimmed.endsWith("|")) return true;
+    return trimmed.split("|").length >= 3;
+  }
+
+  static isLinkDefinition(line: string): boolean {
+    return LINK_DEFINITION.test(line);
+  }
+
+  /**
+   * Lines whose identity is structure rather than prose; deduplicating or
+   * re-flowing them would break the document.
+   */
+  static isStructural(line: string): boolean {
+    return (
+      Markdown.isHeading(line) ||
+      Markdown.isTableRow(line) ||
+      Markdown.isLinkDefinition(line)
+    );
+  }
+
+  /**
+   * Split a list item into its prefix (indentation + marker + space) and
+   * content. Non-list lines return an empty prefix.
+   */
+  static splitListMarker(line: string): { prefix: string; content: string } {
+    const match = line.match(LIST_MARKER);
+    if (!match) return { prefix: "", content: line };
+    return { prefix: match[0], content: line.slice(match[0].length) };
+  }
+}
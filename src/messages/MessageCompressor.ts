@@ -0,0 +1,244 @@
+import type { CompressionLevel, PipelineConfig } from "../pipeline/stages/IStage.js";
+import { Pipeline } from "../pipeline/Pipeline.js";
+import { TokenCounterFactory, type ITokenCounter } from "../tokenizer/TokenCounter.js";
+
+/**
+ * A content part of an OpenAI/Anthropic message. Only `text` parts are
+ * compressed; images, tool calls and tool results pass through unchanged.
+ */
+export interface ContentPart {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface ChatMessage {
+  role: string;
+  // null for OpenAI assistant turns that only carry tool_calls
+  content: string | ContentPart[] | null;
+  [key: string]: unknown;
+}
+
+export type MessageLevel = CompressionLevel | "none";
+
+/**
+ * Level per message slot. `latest` is the last user message, which the
+ * model is answering; `user` covers earlier user turns.
+ */
+export interface MessagePolicy {
+  system: MessageLevel;
+  user: MessageLevel;
+  latest: MessageLevel;
+  assistant: MessageLevel;
+  tool: MessageLevel;
+}
+
+export type MessageSlot = keyof MessagePolicy;
+
+export const DEFAULT_MESSAGE_POLICY: MessagePolicy = {
+  system: "light",
+  user: "medium",
+  latest: "none",
+  assistant: "aggressive",
+  tool: "medium",
+};
+
+export interface MessageCompressConfig
+  extends Omit<PipelineConfig, "level" | "budget" | "stages" | "legend"> {
+  policy?: Partial<MessagePolicy>;
+  // Drop paragraphs and code blocks already sent in an earlier message (default: true)
+  dedupe?: boolean;
+}
+
+export interface MessageStats {
+  index: number;
+  role: string;
+  level: MessageLevel;
+  originalTokens: number;
+  compressedTokens: number;
+  // Paragraphs or code blocks dropped as repeats of earlier messages
+  duplicatesRemoved: number;
+}
+
+export interface MessageCompressResult {
+  messages: ChatMessage[];
+  perMessage: MessageStats[];
+  total: {
+    originalTokens: number;
+    compressedTokens: number;
+    reductionPercent: number;
+    duplicatesRemoved: number;
+  };
+}
+
+const ROLE_SLOTS: Record<string, MessageSlot> = {
+  system: "system",
+  developer: "system",
+  user: "user",
+  assistant: "assistant",
+  tool: "tool",
+  function: "tool",
+};
+
+// Shorter blocks ("OK", "Thanks!") repeat naturally and are kept
+const MIN_DUPLICATE_CHARS = 40;
+
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Compresses a chat transcript message by message, with a compression
+ * level chosen by role and position, and removes content repeated across
+ * turns.
+ */
+export class MessageCompressor {
+  constructor(private readonly pipeline: Pipeline = new Pipeline()) {}
+
+  async compress(
+    messages: ChatMessage[],
+    config: MessageCompressConfig
+  ): Promise<MessageCompressResult> {
+    const counter = await TokenCounterFactory.createReady(config.tokenizer);
+    const policy = { ...DEFAULT_MESSAGE_POLICY, ...config.policy };
+    const dedupe = config.dedupe ?? true;
+    const latestUser = messages.map((m) => m.role).lastIndexOf("user");
+    const seen = new Map<string, number>();
+
+    const output: ChatMessage[] = [];
+    const perMessage: MessageStats[] = [];
+
+    for (const [index, message] of messages.entries()) {
+      const slot =
+        index === latestUser ? "latest" : (ROLE_SLOTS[message.role] ?? "user");
+      const level = policy[slot];
+      const originalTokens = MessageCompressor.countTokens(message, counter);
+      let duplicatesRemoved = 0;
+
+      const compressText = async (text: string): Promise<string> => {
+        let result = text;
+        if (dedupe) {
+          const deduped = MessageCompressor.dropRepeats(
+            text,
+            seen,
+            index,
+            level !== "none"
+          );
+          result = deduped.text;
+          duplicatesRemoved += deduped.removed;
+        }
+        if (level === "none" || result.trim() === "") return result;
+        const compressed = await this.pipeline.compress(result, { ...config, level });
+        return compressed.compressed;
+      };
+
+      let content: string | ContentPart[] | null;
+      if (message.content === null) {
+        content = null;
+      } else if (typeof message.content === "string") {
+        content = await compressText(message.content);
+      } else {
+        content = [];
+        for (const part of message.content) {
+          content.push(
+            part.type === "text" && typeof part.text === "string"
+              ? { ...part, text: await compressText(part.text) }
+              : part
+          );
+        }
+      }
+
+      const compressed = { ...message, content };
+      output.push(compressed);
+      perMessage.push({
+        index,
+        role: message.role,
+        level,
+        originalTokens,
+        compressedTokens: MessageCompressor.countTokens(compressed, counter),
+        duplicatesRemoved,
+      });
+    }
+
+    const originalTokens = perMessage.reduce((sum, m) => sum + m.originalTokens, 0);
+    const compressedTokens = perMessage.reduce((sum, m) => sum + m.compressedTokens, 0);
+    return {
+      messages: output,
+      perMessage,
+      total: {
+        originalTokens,
+        compressedTokens,
+        reductionPercent:
+          originalTokens > 0
+            ? Math.round(((originalTokens - compressedTokens) / originalTokens) * 10000) / 100
+            : 0,
+        duplicatesRemoved: perMessage.reduce((sum, m) => sum + m.duplicatesRemoved, 0),
+      },
+    };
+  }
+
+  /**
+   * Split text into blocks at blank lines; a fenced code block is one
+   * block however many blank lines it contains.
+   */
+  static splitBlocks(text: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let inFence = false;
+
+    for (const line of text.split("\n")) {
+      if (FENCE.test(line)) inFence = !inFence;
+      if (!inFence && line.trim() === "") {
+        if (current.length > 0) blocks.push(current.join("\n"));
+        current = [];
+        continue;
+      }
+      current.push(line);
+    }
+    if (current.length > 0) blocks.push(current.join("\n"));
+    return blocks;
+  }
+
+  /**
+   * Remove blocks already seen in an earlier message and record the new
+   * ones. Messages that must stay untouched only record. A message left
+   * empty points at the message that had its content.
+   */
+  private static dropRepeats(
+    text: string,
+    seen: Map<string, number>,
+    index: number,
+    mutable: boolean
+  ): { text: string; removed: number } {
+    const kept: string[] = [];
+    let removed = 0;
+    let source: number | undefined;
+
+    for (const block of MessageCompressor.splitBlocks(text)) {
+      const key = block.trim().replace(/\s+/g, " ");
+      const first = seen.get(key);
+      if (mutable && first !== undefined && first !== index) {
+        removed++;
+        source ??= first;
+        continue;
+      }
+      if (key.length >= MIN_DUPLICATE_CHARS && first === undefined) {
+        seen.set(key, index);
+      }
+      kept.push(block);
+    }
+
+    if (removed === 0) return { text, removed };
+    if (kept.length === 0) {
+      return { text: `[repeats message ${source}]`, removed };
+    }
+    return { text: kept.join("\n\n"), removed };
+  }
+
+  private static countTokens(message: ChatMessage, counter: ITokenCounter): number {
+    if (message.content === null) return 0;
+    if (typeof message.content === "string") return counter.count(message.content);
+    return message.content.reduce(
+      (sum, part) => sum + (typeof part.text === "string" ? counter.count(part.text) : 0),
+      0
+    );
+  }
+}
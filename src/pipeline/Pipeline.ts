@@ -4,8 +4,11 @@ import type {
   PipelineResult,
   CompressionStats,
   StageStats,
+  LanguageStats,
+  SubstitutionDictionary,
   Change,
   CompressionLevel,
+  DetectedContentType,
 } from "./stages/IStage.js";
 import { PatternPreserver } from "./preserver/PatternPreserver.js";
 import { TokenCounterFactory, type ITokenCounter } from "../tokenizer/TokenCounter.js";
@@ -13,6 +16,16 @@ import { CleanupStage } from "./stages/CleanupStage.js";
 import { SemanticStage } from "./stages/SemanticStage.js";
 import { StructuralStage } from "./stages/StructuralStage.js";
 import { ShorthandStage } from "./stages/ShorthandStage.js";
+import { JsonStage } from "./stages/JsonStage.js";
+import { LogStage } from "./stages/LogStage.js";
+import { Legend } from "../legend/Legend.js";
+import { ContentTypeDetector } from "../content/ContentTypeDetector.js";
+import { TextChunker } from "./streaming/TextChunker.js";
+import { LanguageSegmenter } from "../language/LanguageSegmenter.js";
+import type { LanguageCode } from "../dictionaries/languages/types.js";
+
+const DEFAULT_CHUNK_SIZE = 16_000;
+const DEFAULT_READ_AHEAD = 4;
 
 const LEVEL_STAGES: Record<CompressionLevel, string[]> = {
   light: ["cleanup"],
@@ -20,12 +33,83 @@ const LEVEL_STAGES: Record<CompressionLevel, string[]> = {
   aggressive: ["cleanup", "semantic", "structural", "shorthand"],
 };
 
+/**
+ * Per content type: built-in stages that damage its syntax, and stages
+ * specific to it. Plugin stages are never skipped; they get the content
+ * type in StageOptions.
+ */
+const CONTENT_ROUTES: Record<
+  DetectedContentType,
+  { skip: string[]; add: string[] }
+> = {
+  prose: { skip: [], add: [] },
+  code: { skip: ["semantic", "structural", "shorthand"], add: [] },
+  structured: { skip: ["semantic", "structural", "shorthand"], add: ["json"] },
+  log: { skip: ["semantic", "structural", "shorthand"], add: ["log"] },
+};
+
+interface EscalationStep {
+  name: string;
+  level: CompressionLevel;
+  stages: string[];
+}
+
+/**
+ * Budget mode escalation ladder, mildest first. The level also gates rule
+ * groups inside stages (abbreviations at medium+, list condensing and
+ * telegraphic shorthand at aggressive), so some steps only change the level.
+ */
+function budgetEscalation(
+  levelStages: Record<CompressionLevel, string[]>
+): EscalationStep[] {
+  return [
+    { name: "none", level: "light", stages: [] },
+    { name: "light", level: "light", stages: levelStages.light },
+    { name: "light+substitutions", level: "light", stages: levelStages.medium },
+    { name: "medium", level: "medium", stages: levelStages.medium },
+    { name: "medium+structural", level: "medium", stages: levelStages.aggressive },
+    { name: "aggressive", level: "aggressive", stages: levelStages.aggressive },
+  ];
+}
+
+export interface StageRegistration {
+  // Insert after this stage id in each level's stage list (default: last)
+  after?: string;
+  // Levels that run the stage by default. Without levels the stage only
+  // runs when named explicitly in PipelineConfig.stages.
+  levels?: CompressionLevel[];
+}
+
+export interface StreamOptions {
+  // Target chunk size in characters (default: 16000)
+  chunkSize?: number;
+  // Chunks read and queued ahead of the consumer (default: 4). Stages are
+  // synchronous, so chunks are still compressed one at a time; this only
+  // bounds how far input is read before output is taken.
+  readAhead?: number;
+}
+
+export interface ChunkedOptions extends StreamOptions {
+  // Called after each chunk with the chunks done and the total
+  onProgress?: (done: number, total: number) => void | Promise<void>;
+}
+
+export interface StreamChunk {
+  index: number;
+  // Compressed chunk with its leading separator; concatenating every
+  // chunk's text gives the full output
+  text: string;
+  result: PipelineResult;
+}
+
 function createStageRegistry(): Map<string, ICompressionStage> {
   const stages: ICompressionStage[] = [
     new CleanupStage(),
     new SemanticStage(),
     new StructuralStage(),
     new ShorthandStage(),
+    new JsonStage(),
+    new LogStage(),
   ];
   const map = new Map<string, ICompressionStage>();
   for (const stage of stages) {
@@ -37,9 +121,49 @@ function createStageRegistry(): Map<string, ICompressionStage> {
 export class Pipeline {
   private readonly preserver = new PatternPreserver();
   private readonly stageRegistry: Map<string, ICompressionStage>;
+  private readonly pluginStages = new Set<string>();
+  private readonly levelStages: Record<CompressionLevel, string[]>;
 
   constructor() {
     this.stageRegistry = createStageRegistry();
+    this.levelStages = {
+      light: [...LEVEL_STAGES.light],
+      medium: [...LEVEL_STAGES.medium],
+      aggressive: [...LEVEL_STAGES.aggressive],
+    };
+  }
+
+  /**
+   * Register a third-party stage. Its id must not clash with an existing
+   * stage, and `after` must name a registered stage.
+   */
+  registerStage(
+    stage: ICompressionStage,
+    registration: StageRegistration = {}
+  ): void {
+    if (this.stageRegistry.has(stage.id)) {
+      throw new Error(`Stage "${stage.id}" is already registered`);
+    }
+    const { after, levels = [] } = registration;
+    if (after !== undefined && !this.stageRegistry.has(after)) {
+      const available = this.describeStages();
+      throw new Error(
+        `Cannot register stage "${stage.id}" after unknown stage "${after}". Available stages: ${available}`
+      );
+    }
+
+    this.stageRegistry.set(stage.id, stage);
+    this.pluginStages.add(stage.id);
+
+    for (const level of levels) {
+      const ids = this.levelStages[level];
+      const anchor = after !== undefined ? ids.indexOf(after) : -1;
+      if (anchor === -1) {
+        ids.push(stage.id);
+      } else {
+        ids.splice(anchor + 1, 0, stage.id);
+      }
+    }
   }
 
   async compress(
@@ -48,7 +172,419 @@ export class Pipeline {
   ): Promise<PipelineResult> {
     const tokenCounter = await TokenCounterFactory.createReady(config.tokenizer);
 
-    const stageIds = config.stages ?? LEVEL_STAGES[config.level];
+    const contentType =
+      config.contentType === undefined || config.contentType === "auto"
+        ? ContentTypeDetector.detect(text)
+        : config.contentType;
+
+    if (config.budget !== undefined) {
+      return this.compressToBudget(
+        text,
+        config,
+        config.budget,
+        contentType,
+        tokenCounter
+      );
+    }
+
+    // Explicit stage lists are honored as given; level defaults are routed
+    const stageIds =
+      config.stages ??
+      Pipeline.routeStages(this.levelStages[config.level], contentType);
+    return this.run(text, config, config.level, stageIds, contentType, tokenCounter);
+  }
+
+  /**
+   * Compress a stream of text (strings or UTF-8 bytes, e.g. a Node
+   * Readable) chunk by chunk. Chunks are split at paragraph breaks outside
+   * preserved regions, compressed ahead of the consumer and yielded in
+   * order. Line deduplication carries across chunks. The content type is
+   * detected from the first chunk unless given; budget mode needs the
+   * whole text and is not supported.
+   */
+  async *compressStream(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string>,
+    config: PipelineConfig,
+    options: StreamOptions = {}
+  ): AsyncGenerator<StreamChunk> {
+    const chunker = new TextChunker(
+      options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      config.preservePatterns
+    );
+
+    async function* split(): AsyncGenerator<string> {
+      const decoder = new TextDecoder();
+      for await (const piece of source) {
+        const text =
+          typeof piece === "string"
+            ? piece
+            : decoder.decode(piece, { stream: true });
+        yield* chunker.push(text);
+      }
+      yield* chunker.push(decoder.decode());
+      yield* chunker.flush();
+    }
+
+    yield* this.compressChunks(split(), config, options);
+  }
+
+  /**
+   * Compress a large text in chunks and merge the results. Stats are
+   * summed over chunks; change positions are relative to their chunk.
+   */
+  async compressChunked(
+    text: string,
+    config: PipelineConfig,
+    options: ChunkedOptions = {}
+  ): Promise<PipelineResult> {
+    const chunks = TextChunker.split(
+      text,
+      options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      config.preservePatterns
+    );
+
+    const parts: StreamChunk[] = [];
+    for await (const part of this.compressChunks(chunks, config, options)) {
+      parts.push(part);
+      await options.onProgress?.(parts.length, chunks.length);
+    }
+
+    return this.mergeChunks(parts, config);
+  }
+
+  private async *compressChunks(
+    chunks: AsyncIterable<string> | Iterable<string>,
+    config: PipelineConfig,
+    options: StreamOptions
+  ): AsyncGenerator<StreamChunk> {
+    if (config.budget !== undefined) {
+      throw new Error("Token budget is not supported for chunked compression");
+    }
+
+    const tokenCounter = await TokenCounterFactory.createReady(config.tokenizer);
+    const readAhead = Math.max(1, options.readAhead ?? DEFAULT_READ_AHEAD);
+    const streamState = new Map<string, unknown>();
+    const pending: Array<Promise<PipelineResult>> = [];
+    let contentType: DetectedContentType | undefined =
+      config.contentType === "auto" ? undefined : config.contentType;
+    let stageIds: string[] | undefined;
+    let index = 0;
+    let emitted = false;
+
+    const schedule = (chunk: string): void => {
+      if (contentType === undefined) {
+        contentType = ContentTypeDetector.detect(chunk);
+      }
+      stageIds ??=
+        config.stages ??
+        Pipeline.routeStages(this.levelStages[config.level], contentType);
+
+      const type = contentType;
+      const ids = stageIds;
+      // Stages are synchronous; callbacks run in scheduling order, so
+      // cross-chunk state sees chunks in input order
+      const task = new Promise<PipelineResult>((resolve, reject) => {
+        setImmediate(() => {
+          try {
+            resolve(
+              this.run(chunk, config, config.level, ids, type, tokenCounter, streamState)
+            );
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+      // Rejections surface when the chunk is awaited in order
+      task.catch(() => {});
+      pending.push(task);
+    };
+
+    const next = async (): Promise<StreamChunk> => {
+      const result = await pending.shift()!;
+      let text = "";
+      if (result.compressed !== "") {
+        text = (emitted ? "\n\n" : "") + result.compressed;
+        emitted = true;
+      }
+      return { index: index++, text, result };
+    };
+
+    for await (const chunk of chunks) {
+      schedule(chunk);
+      if (pending.length >= readAhead) yield await next();
+    }
+    while (pending.length > 0) yield await next();
+  }
+
+  private mergeChunks(
+    parts: StreamChunk[],
+    config: PipelineConfig
+  ): PipelineResult {
+    const results = parts.map((p) => p.result);
+    const merged = Pipeline.mergeResults(
+      results,
+      parts.map((p) => p.text).join(""),
+      config
+    );
+    merged.stats.chunks = results.length;
+    return merged;
+  }
+
+  /**
+   * Sum the stats of results compressed from consecutive parts of one text.
+   * Stage and language breakdowns are merged by name.
+   */
+  private static mergeResults(
+    results: PipelineResult[],
+    compressed: string,
+    config: PipelineConfig
+  ): PipelineResult {
+    const allChanges = results.flatMap((r) => r.allChanges);
+    const sum = (pick: (stats: CompressionStats) => number): number =>
+      results.reduce((total, r) => total + pick(r.stats), 0);
+
+    const stageBreakdown: StageStats[] = [];
+    for (const result of results) {
+      for (const stage of result.stats.stageBreakdown) {
+        const merged = stageBreakdown.find((s) => s.stage === stage.stage);
+        if (merged) {
+          merged.tokensIn += stage.tokensIn;
+          merged.tokensOut += stage.tokensOut;
+          merged.timeMs = Math.round((merged.timeMs + stage.timeMs) * 100) / 100;
+        } else {
+          stageBreakdown.push({ ...stage });
+        }
+      }
+    }
+    for (const stage of stageBreakdown) {
+      stage.reductionPercent = Pipeline.percent(stage.tokensIn, stage.tokensOut);
+    }
+
+    const languages: LanguageStats[] = [];
+    for (const result of results) {
+      for (const language of result.stats.languages ?? []) {
+        const merged = languages.find((l) => l.language === language.language);
+        if (merged) {
+          merged.segments += language.segments;
+          merged.originalTokens += language.originalTokens;
+          merged.compressedTokens += language.compressedTokens;
+        } else {
+          languages.push({ ...language });
+        }
+      }
+    }
+    for (const language of languages) {
+      language.reductionPercent = Pipeline.percent(
+        language.originalTokens,
+        language.compressedTokens
+      );
+    }
+
+    const originalTokens = sum((s) => s.originalTokens);
+    const compressedTokens = sum((s) => s.compressedTokens);
+
+    const stats: CompressionStats = {
+      originalTokens,
+      compressedTokens,
+      reductionPercent: Pipeline.percent(originalTokens, compressedTokens),
+      originalChars: sum((s) => s.originalChars),
+      compressedChars: compressed.length,
+      stageBreakdown,
+      tokenizer: results[0]?.stats.tokenizer ?? config.tokenizer,
+      contentType: results[0]?.stats.contentType ?? "prose",
+      ...(languages.length > 0 ? { languages } : {}),
+    };
+
+    return {
+      compressed,
+      stats,
+      allChanges,
+      ...(config.legend ? { legend: Legend.fromChanges(allChanges) } : {}),
+    };
+  }
+
+  private static percent(before: number, after: number): number {
+    return before > 0 ? Math.round(((before - after) / before) * 10000) / 100 : 0;
+  }
+
+  private static routeStages(
+    stageIds: string[],
+    contentType: DetectedContentType
+  ): string[] {
+    const { skip, add } = CONTENT_ROUTES[contentType];
+    const routed = stageIds.filter((id) => !skip.includes(id));
+    // An empty list means "no compression" (budget step "none"); keep it so
+    if (routed.length === 0) return routed;
+    return [...routed, ...add.filter((id) => !routed.includes(id))];
+  }
+
+  private compressToBudget(
+    text: string,
+    config: PipelineConfig,
+    budget: number,
+    contentType: DetectedContentType,
+    tokenCounter: ITokenCounter
+  ): PipelineResult {
+    if (!Number.isFinite(budget) || budget < 0) {
+      throw new Error(`Invalid token budget: ${budget}`);
+    }
+
+    const steps = budgetEscalation(this.levelStages);
+    let result: PipelineResult | null = null;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      result = this.run(
+        text,
+        config,
+        step.level,
+        Pipeline.routeStages(step.stages, contentType),
+        contentType,
+        tokenCounter
+      );
+
+      const met = result.stats.compressedTokens <= budget;
+      const last = i === steps.length - 1;
+      if (met || last) {
+        result.stats.budget = {
+          budget,
+          met,
+          step: step.name,
+          stepIndex: i + 1,
+          totalSteps: steps.length,
+          level: step.level,
+          stages: Pipeline.routeStages(step.stages, contentType),
+          overBy: Math.max(0, result.stats.compressedTokens - budget),
+        };
+        break;
+      }
+    }
+
+    return result!;
+  }
+
+  private run(
+    text: string,
+    config: PipelineConfig,
+    level: CompressionLevel,
+    stageIds: string[],
+    contentType: DetectedContentType,
+    tokenCounter: ITokenCounter,
+    streamState?: Map<string, unknown>
+  ): PipelineResult {
+    // Only prose is split by language; splitting code, JSON or logs would
+    // break them apart before their stages see them whole
+    if (config.dictionaryFor && contentType === "prose") {
+      return this.runSegmented(
+        text,
+        config,
+        level,
+        stageIds,
+        contentType,
+        tokenCounter,
+        streamState
+      );
+    }
+    return this.runSingle(
+      text,
+      config,
+      level,
+      stageIds,
+      contentType,
+      tokenCounter,
+      streamState
+    );
+  }
+
+  /**
+   * Mixed-language text: compress each run of one language with its own
+   * dictionary and join the runs. Stats are summed over runs and broken
+   * down per language; change positions are relative to their run.
+   */
+  private runSegmented(
+    text: string,
+    config: PipelineConfig,
+    level: CompressionLevel,
+    stageIds: string[],
+    contentType: DetectedContentType,
+    tokenCounter: ITokenCounter,
+    streamState = new Map<string, unknown>()
+  ): PipelineResult {
+    const dictionaryFor = config.dictionaryFor!;
+    const dictionaries = new Map<LanguageCode, SubstitutionDictionary>();
+    const segments = LanguageSegmenter.split(
+      text,
+      config.preservePatterns,
+      config.dictionary.language
+    );
+
+    const results: PipelineResult[] = [];
+    let compressed = "";
+    for (const segment of segments) {
+      let dictionary = dictionaries.get(segment.language);
+      if (!dictionary) {
+        dictionary =
+          segment.language === config.dictionary.language
+            ? config.dictionary
+            : dictionaryFor(segment.language);
+        dictionaries.set(segment.language, dictionary);
+      }
+
+      const result = this.runSingle(
+        segment.text,
+        { ...config, dictionary, dictionaryFor: undefined },
+        level,
+        stageIds,
+        contentType,
+        tokenCounter,
+        streamState
+      );
+      result.stats.languages = [
+        {
+          language: segment.language,
+          segments: 1,
+          originalTokens: result.stats.originalTokens,
+          compressedTokens: result.stats.compressedTokens,
+          reductionPercent: result.stats.reductionPercent,
+        },
+      ];
+      results.push(result);
+
+      if (result.compressed !== "") {
+        if (compressed !== "") {
+          // Cleanup would have trimmed line ends and collapsed blank lines
+          // had the runs been one text
+          compressed +=
+            stageIds.length === 0
+              ? segment.separator
+              : segment.separator.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n");
+        }
+        compressed += result.compressed;
+      }
+    }
+
+    const merged = Pipeline.mergeResults(results, compressed, config);
+    // Count the whole texts so separators are included
+    merged.stats.originalTokens = tokenCounter.count(text);
+    merged.stats.compressedTokens = tokenCounter.count(compressed);
+    merged.stats.reductionPercent = Pipeline.percent(
+      merged.stats.originalTokens,
+      merged.stats.compressedTokens
+    );
+    merged.stats.originalChars = text.length;
+    merged.stats.contentType = contentType;
+    return merged;
+  }
+
+  private runSingle(
+    text: string,
+    config: PipelineConfig,
+    level: CompressionLevel,
+    stageIds: string[],
+    contentType: DetectedContentType,
+    tokenCounter: ITokenCounter,
+    streamState?: Map<string, unknown>
+  ): PipelineResult {
     const stages = this.resolveStages(stageIds);
 
     const originalTokens = tokenCounter.count(text);
@@ -69,9 +605,12 @@ export class Pipeline {
       const startTime = performance.now();
 
       const result = stage.process(current, {
-        level: config.level,
+        level,
         preservedRegions: regions,
         dictionary: config.dictionary,
+        contentType,
+        dropEmptyJson: config.dropEmptyJson,
+        streamState,
       });
 
       const endTime = performance.now();
@@ -81,10 +620,7 @@ export class Pipeline {
         stage: stage.name,
         tokensIn,
         tokensOut,
-        reductionPercent:
-          tokensIn > 0
-            ? Math.round(((tokensIn - tokensOut) / tokensIn) * 10000) / 100
-            : 0,
+        reductionPercent: Pipeline.percent(tokensIn, tokensOut),
         timeMs: Math.round((endTime - startTime) * 100) / 100,
       });
 
@@ -101,22 +637,19 @@ export class Pipeline {
     const stats: CompressionStats = {
       originalTokens,
       compressedTokens,
-      reductionPercent:
-        originalTokens > 0
-          ? Math.round(
-              ((originalTokens - compressedTokens) / originalTokens) * 10000
-            ) / 100
-          : 0,
+      reductionPercent: Pipeline.percent(originalTokens, compressedTokens),
       originalChars,
       compressedChars,
       stageBreakdown,
       tokenizer: tokenCounter.name,
+      contentType,
     };
 
     return {
       compressed,
       stats,
       allChanges,
+      ...(config.legend ? { legend: Legend.fromChanges(allChanges) } : {}),
     };
   }
 
@@ -125,9 +658,8 @@ export class Pipeline {
     for (const id of stageIds) {
       const stage = this.stageRegistry.get(id);
       if (!stage) {
-        const available = [...this.stageRegistry.keys()].join(", ");
         throw new Error(
-          `Unknown stage "${id}". Available stages: ${available}`
+          `Unknown stage "${id}". Available stages: ${this.describeStages()}`
         );
       }
       stages.push(stage);
@@ -135,11 +667,32 @@ export class Pipeline {
     return stages;
   }
 
+  private describeStages(): string {
+    return [...this.stageRegistry.keys()]
+      .map((id) => (this.pluginStages.has(id) ? `${id} (plugin)` : id))
+      .join(", ");
+  }
+
   availableStages(): string[] {
     return [...this.stageRegistry.keys()];
   }
 
+  pluginStageIds(): string[] {
+    return [...this.pluginStages];
+  }
+
+  /**
+   * Stages run for a level on this instance, including registered plugins.
+   */
+  stagesFor(level: CompressionLevel): string[] {
+    return [...this.levelStages[level]];
+  }
+
   static stagesForLevel(level: CompressionLevel): string[] {
     return [...LEVEL_STAGES[level]];
   }
+
+  static budgetSteps(): string[] {
+    return budgetEscalation(LEVEL_STAGES).map((s) => s.name);
+  }
 }
@@ -0,0 +1,84 @@
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ICompressionStage } from "./stages/IStage.js";
+import type { Pipeline, StageRegistration } from "./Pipeline.js";
+
+/**
+ * Shape of a stage plugin module's default export. A module may also
+ * export a bare ICompressionStage, registered without levels.
+ */
+export interface StagePlugin extends StageRegistration {
+  stage: ICompressionStage;
+}
+
+function isStage(value: unknown): value is ICompressionStage {
+  if (!value || typeof value !== "object") return false;
+  const stage = value as Partial<ICompressionStage>;
+  return (
+    typeof stage.id === "string" &&
+    stage.id.length > 0 &&
+    typeof stage.name === "string" &&
+    typeof stage.process === "function"
+  );
+}
+
+export class StagePluginLoader {
+  /**
+   * Resolve a module specifier from config. Relative and absolute paths are
+   * file modules (relative to baseDir); anything else is a package name.
+   */
+  static resolveSpecifier(specifier: string, baseDir: string): string {
+    if (specifier.startsWith(".") || isAbsolute(specifier)) {
+      const path = isAbsolute(specifier) ? specifier : resolve(baseDir, specifier);
+      return pathToFileURL(path).href;
+    }
+    return specifier;
+  }
+
+  static async load(specifier: string, baseDir: string): Promise<StagePlugin> {
+    let mod: Record<string, unknown>;
+    try {
+      mod = await import(StagePluginLoader.resolveSpecifier(specifier, baseDir));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load stage plugin "${specifier}": ${message}`);
+    }
+
+    const exported = mod.default;
+    if (isStage(exported)) {
+      return { stage: exported };
+    }
+    if (
+      exported &&
+      typeof exported === "object" &&
+      isStage((exported as StagePlugin).stage)
+    ) {
+      return exported as StagePlugin;
+    }
+
+    throw new Error(
+      `Stage plugin "${specifier}" must default-export a stage ({ id, name, process }) ` +
+        "or { stage, after?, levels? }"
+    );
+  }
+
+  /**
+   * Load every plugin in order and register it on the pipeline.
+   */
+  static async registerAll(
+    pipeline: Pipeline,
+    specifiers: string[],
+    baseDir: string
+  ): Promise<string[]> {
+    const registered: string[] = [];
+    for (const specifier of specifiers) {
+      const { stage, after, levels } = await StagePluginLoader.load(
+        specifier,
+        baseDir
+      );
+      pipeline.registerStage(stage, { after, levels });
+      registered.push(stage.id);
+    }
+    return registered;
+  }
+}
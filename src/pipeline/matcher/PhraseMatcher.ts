@@ -0,0 +1,204 @@
+import type { ScriptType } from "../../dictionaries/languages/types.js";
+
+export interface PhraseMatch {
+  // Dictionary key that matched
+  phrase: string;
+  // Text as it appears in the input
+  matched: string;
+  start: number;
+  end: number;
+}
+
+interface TrieNode {
+  next: Map<string, TrieNode>;
+  phrase?: string;
+  // Position of the phrase in the dictionary, for ties between equal lengths
+  order?: number;
+}
+
+interface Candidate extends PhraseMatch {
+  order: number;
+}
+
+interface CacheEntry {
+  script: ScriptType;
+  size: number;
+  matcher: PhraseMatcher;
+}
+
+const PLACEHOLDER = /\x00TKSQ_\d+\x00/y;
+// \w, widened to accented Latin letters (é, ü, ñ) so they don't split words
+const WORD = /[\p{L}\p{N}_]/u;
+const LETTER = /\p{L}/u;
+
+/**
+ * Fold one UTF-16 unit for case-insensitive comparison. Characters whose
+ * lowercase form has a different length compare as themselves.
+ */
+function fold(ch: string): string {
+  const lower = ch.toLowerCase();
+  return lower.length === ch.length ? lower : ch;
+}
+
+/**
+ * Matches every phrase of a dictionary in one pass over the text. Phrases
+ * are compiled into a trie that collects every phrase occurrence on word
+ * boundaries; overlaps are then settled as a replace pass per phrase,
+ * longest phrase first, would settle them: longer phrases win, then
+ * earlier dictionary entries, then earlier positions. Unlike such passes,
+ * replaced text is never matched again. Word boundaries follow
+ * buildWordBoundaryRegex: \b for Latin (counting any letter as a word
+ * character, so "café" is one word), letter lookarounds for Cyrillic.
+ * Preserved-region placeholders are skipped.
+ */
+export class PhraseMatcher {
+  private static readonly cache = new WeakMap<object, CacheEntry>();
+
+  private readonly root: TrieNode = { next: new Map() };
+  private size = 0;
+
+  constructor(
+    phrases: Iterable<string>,
+    private readonly script: ScriptType
+  ) {
+    for (const phrase of phrases) {
+      this.add(phrase);
+    }
+  }
+
+  /**
+   * Compiled matcher for a dictionary collection, reused until the
+   * collection changes size or is matched with another script.
+   */
+  static for(
+    source: Map<string, string> | string[],
+    script: ScriptType
+  ): PhraseMatcher {
+    const size = Array.isArray(source) ? source.length : source.size;
+    const cached = PhraseMatcher.cache.get(source);
+    if (cached && cached.script === script && cached.size === size) {
+      return cached.matcher;
+    }
+
+    const phrases = Array.isArray(source) ? source : source.keys();
+    const matcher = new PhraseMatcher(phrases, script);
+    PhraseMatcher.cache.set(source, { script, size, matcher });
+    return matcher;
+  }
+
+  /**
+   * Non-overlapping matches in text order. `accept` is asked in priority
+   * order; when it rejects a match, shorter overlapping ones are tried.
+   */
+  findAll(
+    text: string,
+    accept: (match: PhraseMatch) => boolean = () => true
+  ): PhraseMatch[] {
+    const candidates: Candidate[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      if (text[i] === "\x00") {
+        PLACEHOLDER.lastIndex = i;
+        if (PLACEHOLDER.test(text)) {
+          i = PLACEHOLDER.lastIndex;
+          continue;
+        }
+      }
+      if (this.startsAt(text, i)) this.collect(text, i, candidates);
+      i++;
+    }
+
+    candidates.sort(
+      (a, b) => b.end - b.start - (a.end - a.start) || a.order - b.order || a.start - b.start
+    );
+
+    const taken = new Uint8Array(text.length);
+    const matches: PhraseMatch[] = [];
+    for (const { order: _order, ...match } of candidates) {
+      if (taken.subarray(match.start, match.end).includes(1)) continue;
+      if (!accept(match)) continue;
+      taken.fill(1, match.start, match.end);
+      matches.push(match);
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replace every accepted match. Returning null from `replacer` rejects
+   * the match.
+   */
+  replace(
+    text: string,
+    replacer: (match: PhraseMatch) => string | null
+  ): string {
+    const replacements = new Map<number, string>();
+    const matches = this.findAll(text, (match) => {
+      const replacement = replacer(match);
+      if (replacement === null) return false;
+      replacements.set(match.start, replacement);
+      return true;
+    });
+
+    let result = "";
+    let last = 0;
+    for (const match of matches) {
+      result += text.slice(last, match.start) + replacements.get(match.start)!;
+      last = match.end;
+    }
+    return result + text.slice(last);
+  }
+
+  private add(phrase: string): void {
+    if (phrase.length === 0) return;
+    let node = this.root;
+    for (let k = 0; k < phrase.length; k++) {
+      const key = fold(phrase[k]);
+      let child = node.next.get(key);
+      if (!child) {
+        child = { next: new Map() };
+        node.next.set(key, child);
+      }
+      node = child;
+    }
+    if (node.phrase === undefined) node.order = this.size++;
+    node.phrase = phrase;
+  }
+
+  // Every phrase occurrence starting at `start`
+  private collect(text: string, start: number, candidates: Candidate[]): void {
+    let node: TrieNode | undefined = this.root;
+
+    for (let j = start; j < text.length && node; j++) {
+      node = node.next.get(fold(text[j]));
+      if (node?.phrase !== undefined && this.endsAt(text, j + 1)) {
+        candidates.push({
+          phrase: node.phrase,
+          matched: text.slice(start, j + 1),
+          start,
+          end: j + 1,
+          order: node.order!,
+        });
+      }
+    }
+  }
+
+  private startsAt(text: string, index: number): boolean {
+    if (this.script === "cyrillic") {
+      return index === 0 || !LETTER.test(text[index - 1]);
+    }
+    return this.isWordChar(text[index - 1]) !== this.isWordChar(text[index]);
+  }
+
+  private endsAt(text: string, index: number): boolean {
+    if (this.script === "cyrillic") {
+      return index >= text.length || !LETTER.test(text[index]);
+    }
+    return this.isWordChar(text[index - 1]) !== this.isWordChar(text[index]);
+  }
+
+  private isWordChar(ch: string | undefined): boolean {
+    return ch !== undefined && WORD.test(ch);
+  }
+}
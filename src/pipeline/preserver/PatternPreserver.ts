@@ -1,4 +1,5 @@
 import type { PreservedRegion } from "../stages/IStage.js";
+import { Markdown } from "../../markdown/Markdown.js";
 
 export class PatternPreserver {
   private static readonly BUILT_IN_PATTERNS: RegExp[] = [
@@ -6,32 +7,15 @@ export class PatternPreserver {
     /`[^`]+`/g,               // Inline code
     /https?:\/\/\S+/g,        // URLs
     /"[^"]{80,}"/g,           // Long quoted strings (80+ chars, likely intentional)
+    ...Markdown.PRESERVE_PATTERNS, // Table delimiters, link definitions and targets
   ];
 
   extract(
     text: string,
     userPatterns: RegExp[]
   ): { processed: string; regions: PreservedRegion[] } {
-    const allPatterns = [...PatternPreserver.BUILT_IN_PATTERNS, ...userPatterns];
     const regions: PreservedRegion[] = [];
-
-    // Collect all matches
-    const matches: Array<{ start: number; end: number; text: string }> = [];
-
-    for (const pattern of allPatterns) {
-      const regex = new RegExp(pattern.source, pattern.flags);
-      let match: RegExpExecArray | null;
-      while ((match = regex.exec(text)) !== null) {
-        matches.push({
-          start: match.index,
-          end: match.index + match[0].length,
-          text: match[0],
-        });
-      }
-    }
-
-    // Remove overlapping matches (keep longer ones)
-    const deduped = this.removeOverlaps(matches);
+    const deduped = this.findRegions(text, userPatterns);
 
     // Sort by position descending to replace from end (preserves earlier positions)
     deduped.sort((a, b) => b.start - a.start);
@@ -53,10 +37,45 @@ export class PatternPreserver {
     return { processed, regions };
   }
 
+  /**
+   * Non-overlapping spans that extract() would protect, in no particular
+   * order.
+   */
+  findRegions(
+    text: string,
+    userPatterns: RegExp[]
+  ): Array<{ start: number; end: number; text: string }> {
+    const allPatterns = [...PatternPreserver.BUILT_IN_PATTERNS, ...userPatterns];
+
+    // Collect all matches
+    const matches: Array<{ start: number; end: number; text: string }> = [];
+
+    for (const pattern of allPatterns) {
+      const regex = new RegExp(pattern.source, pattern.flags);
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        // An empty match protects nothing and would not advance lastIndex
+        if (match[0] === "") {
+          regex.lastIndex++;
+          continue;
+        }
+        matches.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0],
+        });
+      }
+    }
+
+    // Remove overlapping matches (keep longer ones)
+    return this.removeOverlaps(matches);
+  }
+
   restore(text: string, regions: PreservedRegion[]): string {
     let result = text;
     for (const region of regions) {
-      result = result.replace(region.placeholder, region.originalText);
+      // A function, so "$&" and friends in the original text stay literal
+      result = result.replace(region.placeholder, () => region.originalText);
     }
     return result;
   }
@@ -5,7 +5,9 @@ import type {
   Change,
 } from "./IStage.js";
 import { isInPreservedRegion } from "./StageUtils.js";
-import { buildWordBoundaryRegex } from "../../language/WordBoundary.js";
+import { PhraseMatcher } from "../matcher/PhraseMatcher.js";
+
+const FILLER_TAIL = /,?[ \t]*/y;
 
 export class CleanupStage implements ICompressionStage {
   readonly id = "cleanup";
@@ -14,8 +16,17 @@ export class CleanupStage implements ICompressionStage {
   process(text: string, options: StageOptions): StageResult {
     const changes: Change[] = [];
     let result = text;
+    const contentType = options.contentType ?? "prose";
+
+    // Spacing inside code and structured data lines can be significant
+    const layoutOnly = contentType === "code" || contentType === "structured";
+
+    result = this.normalizeWhitespace(result, changes, !layoutOnly);
+
+    if (contentType !== "prose") {
+      return { text: this.finalLayoutPass(result), changes };
+    }
 
-    result = this.normalizeWhitespace(result, changes);
     result = this.removeFillers(result, options, changes);
     result = this.removeRedundancies(result, options, changes);
     result = this.cleanupPunctuation(result, options, changes);
@@ -24,7 +35,11 @@ export class CleanupStage implements ICompressionStage {
     return { text: result, changes };
   }
 
-  private normalizeWhitespace(text: string, changes: Change[]): string {
+  private normalizeWhitespace(
+    text: string,
+    changes: Change[],
+    collapseSpaces: boolean = true
+  ): string {
     let result = text;
 
     // Collapse multiple blank lines into one
@@ -40,23 +55,25 @@ export class CleanupStage implements ICompressionStage {
     }
 
     // Collapse multiple spaces (preserve leading indentation)
-    const lines = result.split("\n");
-    const normalized = lines.map((line) => {
-      const match = line.match(/^(\s*)(.*)/);
-      if (!match) return line;
-      const [, indent, content] = match;
-      const collapsed = content.replace(/ {2,}/g, " ");
-      return indent + collapsed;
-    });
-    const after = normalized.join("\n");
-    if (after !== result) {
-      changes.push({
-        original: "(multiple spaces)",
-        replacement: "(single space)",
-        position: 0,
-        rule: "cleanup:collapse-spaces",
+    if (collapseSpaces) {
+      const lines = result.split("\n");
+      const normalized = lines.map((line) => {
+        const match = line.match(/^(\s*)(.*)/);
+        if (!match) return line;
+        const [, indent, content] = match;
+        const collapsed = content.replace(/ {2,}/g, " ");
+        return indent + collapsed;
       });
-      result = after;
+      const after = normalized.join("\n");
+      if (after !== result) {
+        changes.push({
+          original: "(multiple spaces)",
+          replacement: "(single space)",
+          position: 0,
+          rule: "cleanup:collapse-spaces",
+        });
+        result = after;
+      }
     }
 
     // Trim trailing whitespace per line
@@ -82,38 +99,29 @@ export class CleanupStage implements ICompressionStage {
     options: StageOptions,
     changes: Change[]
   ): string {
-    let result = text;
-    const { fillers } = options.dictionary;
-
-    // Sort fillers longest-first to avoid partial matches
-    const sorted = [...fillers].sort((a, b) => b.length - a.length);
+    const { fillers, script } = options.dictionary;
+    const matcher = PhraseMatcher.for(fillers, script);
 
-    for (const filler of sorted) {
-      const baseRegex = buildWordBoundaryRegex(filler, options.dictionary.script);
-      // Extend pattern to also consume trailing comma and whitespace
-      const pattern = new RegExp(baseRegex.source + `[,]?\\s*`, baseRegex.flags);
-
-      const matches = [...result.matchAll(new RegExp(pattern.source, pattern.flags))];
-      for (const match of matches) {
-        if (!isInPreservedRegion(match.index!, result)) {
-          changes.push({
-            original: match[0],
-            replacement: "",
-            position: match.index!,
-            rule: "cleanup:filler",
-          });
-        }
-      }
+    let result = "";
+    let last = 0;
+    for (const { start, end } of matcher.findAll(text)) {
+      // Also consume a trailing comma and spaces; newlines stay so list
+      // items and table rows keep their lines
+      FILLER_TAIL.lastIndex = end;
+      const tailEnd = FILLER_TAIL.test(text) ? FILLER_TAIL.lastIndex : end;
 
-      result = result.replace(pattern, (matched, offset: number) => {
-        if (isInPreservedRegion(offset, result)) {
-          return matched;
-        }
-        return "";
+      changes.push({
+        original: text.slice(start, tailEnd),
+        replacement: "",
+        position: start,
+        rule: "cleanup:filler",
       });
+
+      result += text.slice(last, start);
+      last = tailEnd;
     }
 
-    return result;
+    return result + text.slice(last);
   }
 
   private removeRedundancies(
@@ -175,21 +183,39 @@ export class CleanupStage implements ICompressionStage {
       changes.push({ original: ",,", replacement: ",", position: 0, rule: "cleanup:double-comma" });
     }
 
-    // Capitalize after period (language-aware)
+    // Capitalize after period (language-aware), keeping line breaks
     const capPattern = options.dictionary.capitalizeAfterPeriod;
-    result = result.replace(capPattern, (_match, letter: string) => {
-      return ". " + letter.toUpperCase();
+    result = result.replace(capPattern, (match: string, letter: string) => {
+      const gap = match.slice(1, -letter.length);
+      return "." + (gap.includes("\n") ? gap : " ") + letter.toUpperCase();
     });
 
-    // Remove leading comma at start of line
-    result = result.replace(/^\s*[,]\s*/gm, "");
+    // Remove leading comma at start of line, keeping indentation and any
+    // list marker
+    result = result.replace(
+      /^([ \t]*)([-*+]|\d{1,9}[.)])?[ \t]*,[ \t]*/gm,
+      (_match, indent: string, marker?: string) =>
+        indent + (marker ? marker + " " : "")
+    );
+
+    return result;
+  }
 
+  /**
+   * Final pass for non-prose content. Unlike finalWhitespacePass it keeps
+   * indentation, including the first line's.
+   */
+  private finalLayoutPass(text: string): string {
+    let result = text;
+    result = result.replace(/\n{3,}/g, "\n\n");
+    result = result.replace(/^\n+/, "").trimEnd();
     return result;
   }
 
   private finalWhitespacePass(text: string): string {
     let result = text;
-    result = result.replace(/ {2,}/g, " ");
+    // Leading indentation nests Markdown lists; only collapse inner runs
+    result = result.replace(/(\S) {2,}/g, "$1 ");
     result = result.replace(/\n{3,}/g, "\n\n");
     result = result.trim();
     return result;
@@ -1,6 +1,8 @@
 export type CompressionLevel = "light" | "medium" | "aggressive";
 
-export type ContentType = "code" | "prose" | "structured" | "auto";
+export type ContentType = "code" | "prose" | "structured" | "log" | "auto";
+
+export type DetectedContentType = Exclude<ContentType, "auto">;
 
 export interface Change {
   original: string;
@@ -25,6 +27,13 @@ export interface StageOptions {
   level: CompressionLevel;
   preservedRegions: PreservedRegion[];
   dictionary: SubstitutionDictionary;
+  // Non-prose content only gets rules that keep its syntax intact (default: prose)
+  contentType?: DetectedContentType;
+  // Drop null and empty fields from JSON (default: false)
+  dropEmptyJson?: boolean;
+  // Shared by every chunk of one streamed compression; stages keep
+  // cross-chunk state here under keys prefixed with their id
+  streamState?: Map<string, unknown>;
 }
 
 export interface ICompressionStage {
@@ -43,6 +52,8 @@ export interface SubstitutionDictionary {
     replacement: string;
   }>;
   abbreviations: Map<string, string>;
+  // Keys of substitutions that came from user config or promoted patterns
+  customKeys: Set<string>;
   shorthand: import("../../dictionaries/languages/types.js").ShorthandConfig;
   capitalizeAfterPeriod: RegExp;
 }
@@ -63,6 +74,33 @@ export interface CompressionStats {
   compressedChars: number;
   stageBreakdown: StageStats[];
   tokenizer: string;
+  contentType: DetectedContentType;
+  budget?: BudgetStats;
+  // Number of chunks when compressed in chunks
+  chunks?: number;
+  // Per language when compressed with PipelineConfig.dictionaryFor
+  languages?: LanguageStats[];
+}
+
+export interface LanguageStats {
+  language: import("../../dictionaries/languages/types.js").LanguageCode;
+  // Runs of text in this language
+  segments: number;
+  originalTokens: number;
+  compressedTokens: number;
+  reductionPercent: number;
+}
+
+export interface BudgetStats {
+  budget: number;
+  met: boolean;
+  step: string;
+  stepIndex: number;
+  totalSteps: number;
+  level: CompressionLevel;
+  stages: string[];
+  // Tokens still above the budget after the last step tried (0 when met)
+  overBy: number;
 }
 
 export interface PipelineConfig {
@@ -71,12 +109,34 @@ export interface PipelineConfig {
   preservePatterns: RegExp[];
   tokenizer: TokenizerType;
   dictionary: SubstitutionDictionary;
+  // Content type routing. "auto" (default) detects it from the text.
+  contentType?: ContentType;
+  // Collect a legend of non-standard abbreviations so the output can be expanded
+  legend?: boolean;
+  // Let the json stage drop null and empty fields (default: false)
+  dropEmptyJson?: boolean;
+  // Target token count. When set, level and stages are ignored and the
+  // pipeline escalates step by step until the output fits.
+  budget?: number;
+  // Dictionary per language for mixed-language text. When set and the text
+  // is prose, it is split into runs of one language (see LanguageSegmenter)
+  // and each run is compressed with its own; `dictionary` covers text no run
+  // is sure about, and all other content types.
+  dictionaryFor?: (
+    language: import("../../dictionaries/languages/types.js").LanguageCode
+  ) => SubstitutionDictionary;
 }
 
 export interface PipelineResult {
   compressed: string;
   stats: CompressionStats;
   allChanges: Change[];
+  legend?: LegendEntry[];
+}
+
+export interface LegendEntry {
+  short: string;
+  full: string;
 }
 
 export type TokenizerType = "cl100k_base" | "o200k_base" | "approximate";
@@ -0,0 +1,65 @@
+import type {
+  ICompressionStage,
+  StageOptions,
+  StageResult,
+  Change,
+} from "./IStage.js";
+import { JsonCompressor } from "../../structured/JsonCompressor.js";
+
+export class JsonStage implements ICompressionStage {
+  readonly id = "json";
+  readonly name = "Json";
+
+  process(text: string, options: StageOptions): StageResult {
+    const changes: Change[] = [];
+
+    // Preserved regions (URLs inside string values) are put back first:
+    // placeholders contain control characters that JSON.parse rejects.
+    let source = text;
+    for (const region of options.preservedRegions) {
+      // A function, so "$&" and friends in the original text stay literal
+      source = source.replace(region.placeholder, () => region.originalText);
+    }
+
+    if (!JsonCompressor.isJson(source)) {
+      return { text, changes };
+    }
+
+    const result = JsonCompressor.compress(source, {
+      dropEmpty: options.dropEmptyJson ?? false,
+      tabular: options.level === "aggressive",
+    });
+
+    if (result.text.length < source.trim().length) {
+      changes.push({
+        original: "(formatted JSON)",
+        replacement: "(minified JSON)",
+        position: 0,
+        rule: "json:minify",
+      });
+    }
+    if (result.droppedFields > 0) {
+      changes.push({
+        original: `(${result.droppedFields} empty fields)`,
+        replacement: "",
+        position: 0,
+        rule: "json:drop-empty",
+      });
+    }
+    if (result.tabularArrays > 0) {
+      changes.push({
+        original: `(${result.tabularArrays} arrays of objects)`,
+        replacement: "($cols/$rows tables)",
+        position: 0,
+        rule: "json:tabular",
+      });
+    }
+
+    // Packed tables are unreadable without their key, so it goes on the
+    // line after the JSON, as in tksq_compress_json
+    return {
+      text: result.legend ? `${result.text}\n${result.legend}` : result.text,
+      changes,
+    };
+  }
+}
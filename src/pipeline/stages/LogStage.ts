@@ -0,0 +1,238 @@
+import type {
+  ICompressionStage,
+  StageOptions,
+  StageResult,
+  Change,
+} from "./IStage.js";
+
+const TIMESTAMP =
+  /\b(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2}(?:[.,]\d+)?)(Z|[+-]\d{2}:?\d{2})?(?![\d:])/g;
+const UUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HEX_ID = /\b0x[0-9a-f]+\b|\b[0-9a-f]{16,}\b/gi;
+
+const JS_OR_JAVA_FRAME = /^\s*at\s+\S/;
+const PYTHON_FRAME = /^\s*File "([^"]+)", line \d+/;
+
+const JS_LIBRARY = [/node_modules[\\/]/, /\(node:/, /\bnode:internal\b/, /\(internal\//, /^\s*at\s+internal\//];
+const PYTHON_LIBRARY = [/site-packages/, /dist-packages/, /[\\/]lib[\\/]python\d/, /^<frozen /];
+const JAVA_LIBRARY = /^\s*at\s+(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|org\.junit|org\.springframework|org\.apache|org\.gradle|org\.hibernate|io\.netty)\./;
+
+const PLACEHOLDER = "\x00TKSQ_";
+
+interface Frame {
+  lines: string[];
+  library: boolean;
+}
+
+export class LogStage implements ICompressionStage {
+  readonly id = "log";
+  readonly name = "Log";
+
+  process(text: string, options: StageOptions): StageResult {
+    const changes: Change[] = [];
+    let lines = text.split("\n");
+
+    // light only folds exact repeats; templates and frame trimming lose detail
+    const lossy = options.level !== "light";
+
+    if (lossy) {
+      lines = this.trimLibraryFrames(lines, changes);
+    }
+    lines = this.foldRepeatedLines(lines, changes, lossy);
+    if (lossy) {
+      lines = this.shortenTimestamps(lines, changes);
+    }
+
+    return { text: lines.join("\n"), changes };
+  }
+
+  /**
+   * Replace volatile parts (timestamps, UUIDs, hex ids) so that lines
+   * differing only in them compare equal. Other numbers stay: status and
+   * exit codes carry meaning a fold would hide.
+   */
+  static template(line: string): string {
+    return line
+      .replace(TIMESTAMP, "<ts>")
+      .replace(UUID, "<uuid>")
+      .replace(HEX_ID, "<hex>");
+  }
+
+  private foldRepeatedLines(
+    lines: string[],
+    changes: Change[],
+    byTemplate: boolean
+  ): string[] {
+    const result: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (line.trim() === "" || line.includes(PLACEHOLDER)) {
+        result.push(line);
+        i++;
+        continue;
+      }
+
+      const key = byTemplate ? LogStage.template(line) : line;
+      let j = i + 1;
+      while (
+        j < lines.length &&
+        !lines[j].includes(PLACEHOLDER) &&
+        (byTemplate ? LogStage.template(lines[j]) : lines[j]) === key
+      ) {
+        j++;
+      }
+
+      const count = j - i;
+      if (count > 1) {
+        const folded = `${line} ×${count}`;
+        changes.push({
+          original: `(${count} similar lines)`,
+          replacement: folded,
+          position: i,
+          rule: "log:fold",
+        });
+        result.push(folded);
+      } else {
+        result.push(line);
+      }
+      i = j;
+    }
+
+    return result;
+  }
+
+  private trimLibraryFrames(lines: string[], changes: Change[]): string[] {
+    const result: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const frames: Frame[] = [];
+      while (i < lines.length) {
+        const frame = this.readFrame(lines, i);
+        if (!frame) break;
+        frames.push(frame);
+        i += frame.lines.length;
+      }
+
+      if (frames.length === 0) {
+        result.push(lines[i]);
+        i++;
+        continue;
+      }
+
+      result.push(...this.trimStack(frames, changes));
+    }
+
+    return result;
+  }
+
+  private readFrame(lines: string[], index: number): Frame | null {
+    const line = lines[index];
+    if (line.includes(PLACEHOLDER)) return null;
+
+    const python = line.match(PYTHON_FRAME);
+    if (python) {
+      const frameLines = [line];
+      // The source line printed under a Python frame belongs to it
+      const next = lines[index + 1];
+      if (
+        next !== undefined &&
+        next.trim() !== "" &&
+        !PYTHON_FRAME.test(next) &&
+        this.indentOf(next) > this.indentOf(line)
+      ) {
+        frameLines.push(next);
+      }
+      return {
+        lines: frameLines,
+        library: PYTHON_LIBRARY.some((p) => p.test(python[1])),
+      };
+    }
+
+    if (JS_OR_JAVA_FRAME.test(line)) {
+      return {
+        lines: [line],
+        library:
+          JS_LIBRARY.some((p) => p.test(line)) || JAVA_LIBRARY.test(line),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop library frames, keeping every application frame. A stack with no
+   * application frames keeps its first frame.
+   */
+  private trimStack(frames: Frame[], changes: Change[]): string[] {
+    const hasAppFrame = frames.some((f) => !f.library);
+    const result: string[] = [];
+    let dropped = 0;
+    let indent = "";
+
+    const flush = () => {
+      if (dropped === 0) return;
+      const summary = `${indent}... ${dropped} library frame${dropped === 1 ? "" : "s"}`;
+      changes.push({
+        original: `(${dropped} library frames)`,
+        replacement: summary.trim(),
+        position: 0,
+        rule: "log:library-frames",
+      });
+      result.push(summary);
+      dropped = 0;
+    };
+
+    frames.forEach((frame, index) => {
+      const keep = !frame.library || (!hasAppFrame && index === 0);
+      if (keep) {
+        flush();
+        result.push(...frame.lines);
+      } else {
+        if (dropped === 0) indent = frame.lines[0].match(/^\s*/)![0];
+        dropped++;
+      }
+    });
+    flush();
+
+    return result;
+  }
+
+  /**
+   * After the first full timestamp, repeat only the time while the date
+   * and zone stay the same.
+   */
+  private shortenTimestamps(lines: string[], changes: Change[]): string[] {
+    let previousDay: string | null = null;
+    let shortened = 0;
+
+    const result = lines.map((line) =>
+      line.replace(TIMESTAMP, (matched, date: string, time: string, zone?: string) => {
+        const day = `${date}|${zone ?? ""}`;
+        if (day === previousDay) {
+          shortened++;
+          return time;
+        }
+        previousDay = day;
+        return matched;
+      })
+    );
+
+    if (shortened > 0) {
+      changes.push({
+        original: `(${shortened} repeated dates)`,
+        replacement: "(time only)",
+        position: 0,
+        rule: "log:timestamp",
+      });
+    }
+
+    return result;
+  }
+
+  private indentOf(line: string): number {
+    return line.match(/^\s*/)![0].length;
+  }
+}
@@ -4,8 +4,8 @@ import type {
   StageResult,
   Change,
 } from "./IStage.js";
-import { isInPreservedRegion, matchCase } from "./StageUtils.js";
-import { buildWordBoundaryRegex } from "../../language/WordBoundary.js";
+import { matchCase } from "./StageUtils.js";
+import { PhraseMatcher } from "../matcher/PhraseMatcher.js";
 
 export class SemanticStage implements ICompressionStage {
   readonly id = "semantic";
@@ -29,37 +29,23 @@ export class SemanticStage implements ICompressionStage {
     options: StageOptions,
     changes: Change[]
   ): string {
-    let result = text;
-    const { substitutions } = options.dictionary;
-
-    const sorted = [...substitutions.entries()].sort(
-      (a, b) => b[0].length - a[0].length
-    );
-
-    const { script } = options.dictionary;
-
-    for (const [phrase, replacement] of sorted) {
-      const pattern = buildWordBoundaryRegex(phrase, script);
-
-      result = result.replace(pattern, (matched, offset: number) => {
-        if (isInPreservedRegion(offset, result)) {
-          return matched;
-        }
-
-        const caseAdjusted = matchCase(matched, replacement);
-
-        changes.push({
-          original: matched,
-          replacement: caseAdjusted,
-          position: offset,
-          rule: "semantic:substitution",
-        });
-
-        return caseAdjusted;
+    const { substitutions, script, customKeys } = options.dictionary;
+    const matcher = PhraseMatcher.for(substitutions, script);
+
+    return matcher.replace(text, ({ phrase, matched, start }) => {
+      const caseAdjusted = matchCase(matched, substitutions.get(phrase)!);
+
+      changes.push({
+        original: matched,
+        replacement: caseAdjusted,
+        position: start,
+        rule: customKeys.has(phrase)
+          ? "semantic:custom"
+          : "semantic:substitution",
       });
-    }
 
-    return result;
+      return caseAdjusted;
+    });
   }
 
   private applyAbbreviations(
@@ -67,43 +53,28 @@ export class SemanticStage implements ICompressionStage {
     options: StageOptions,
     changes: Change[]
   ): string {
-    let result = text;
-    const { abbreviations } = options.dictionary;
-
-    if (abbreviations.size === 0) return result;
-
-    const sorted = [...abbreviations.entries()].sort(
-      (a, b) => b[0].length - a[0].length
-    );
+    const { abbreviations, script } = options.dictionary;
 
-    const { script } = options.dictionary;
+    if (abbreviations.size === 0) return text;
 
-    for (const [word, abbr] of sorted) {
-      const pattern = buildWordBoundaryRegex(word, script);
+    const matcher = PhraseMatcher.for(abbreviations, script);
 
-      result = result.replace(pattern, (matched, offset: number) => {
-        if (isInPreservedRegion(offset, result)) {
-          return matched;
-        }
+    return matcher.replace(text, ({ phrase, matched, start }) => {
+      if (this.isPartOfIdentifier(text, start, matched.length)) {
+        return null;
+      }
 
-        if (this.isPartOfIdentifier(result, offset, matched.length)) {
-          return matched;
-        }
+      const caseAdjusted = matchCase(matched, abbreviations.get(phrase)!);
 
-        const caseAdjusted = matchCase(matched, abbr);
-
-        changes.push({
-          original: matched,
-          replacement: caseAdjusted,
-          position: offset,
-          rule: "semantic:abbreviation",
-        });
-
-        return caseAdjusted;
+      changes.push({
+        original: matched,
+        replacement: caseAdjusted,
+        position: start,
+        rule: "semantic:abbreviation",
       });
-    }
 
-    return result;
+      return caseAdjusted;
+    });
   }
 
   private isPartOfIdentifier(
@@ -2,20 +2,20 @@
  * Shared utilities for compression stages.
  */
 
-const PLACEHOLDER_PATTERN = /\x00TKSQ_\d+\x00/g;
+const PLACEHOLDER_PATTERN = /\x00TKSQ_\d+\x00/y;
+const PLACEHOLDER_PREFIX = "\x00TKSQ_";
 
 /**
  * Check if a position falls inside a preserved region placeholder.
+ * Only the nearest placeholder starting at or before the position can
+ * contain it, so the text is not rescanned.
  */
 export function isInPreservedRegion(position: number, text: string): boolean {
-  const regex = new RegExp(PLACEHOLDER_PATTERN.source, PLACEHOLDER_PATTERN.flags);
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(text)) !== null) {
-    if (position >= match.index && position < match.index + match[0].length) {
-      return true;
-    }
-  }
-  return false;
+  const start = text.lastIndexOf(PLACEHOLDER_PREFIX, position);
+  if (start === -1) return false;
+  PLACEHOLDER_PATTERN.lastIndex = start;
+  if (!PLACEHOLDER_PATTERN.test(text)) return false;
+  return position < PLACEHOLDER_PATTERN.lastIndex;
 }
 
 /**
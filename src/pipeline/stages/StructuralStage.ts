@@ -5,6 +5,7 @@ import type {
   Change,
 } from "./IStage.js";
 import { isInPreservedRegion } from "./StageUtils.js";
+import { Markdown } from "../../markdown/Markdown.js";
 
 export class StructuralStage implements ICompressionStage {
   readonly id = "structural";
@@ -14,19 +15,39 @@ export class StructuralStage implements ICompressionStage {
     const changes: Change[] = [];
     let result = text;
 
-    result = this.deduplicateSentences(result, changes);
+    result = this.deduplicateSentences(result, changes, this.seenLines(options));
     result = this.collapseRepeatedPhrases(result, changes);
 
-    if (options.level === "aggressive") {
+    // Commas outside prose are data, not list separators
+    const isProse = (options.contentType ?? "prose") === "prose";
+    if (options.level === "aggressive" && isProse) {
       result = this.condenseLists(result, changes);
     }
 
     return { text: result, changes };
   }
 
-  private deduplicateSentences(text: string, changes: Change[]): string {
+  /**
+   * Lines already seen; shared across chunks of a streamed compression so
+   * a repeat in a later chunk is still dropped.
+   */
+  private seenLines(options: StageOptions): Set<string> {
+    const { streamState } = options;
+    if (!streamState) return new Set();
+    let seen = streamState.get("structural:seen") as Set<string> | undefined;
+    if (!seen) {
+      seen = new Set();
+      streamState.set("structural:seen", seen);
+    }
+    return seen;
+  }
+
+  private deduplicateSentences(
+    text: string,
+    changes: Change[],
+    seen: Set<string>
+  ): string {
     const lines = text.split("\n");
-    const seen = new Set<string>();
     const result: string[] = [];
 
     for (const line of lines) {
@@ -43,6 +64,12 @@ export class StructuralStage implements ICompressionStage {
         continue;
       }
 
+      // Repeated headings and table rows belong to different sections/rows
+      if (Markdown.isStructural(line)) {
+        result.push(line);
+        continue;
+      }
+
       const normalized = trimmed.toLowerCase().replace(/\s+/g, " ");
 
       if (seen.has(normalized)) {
@@ -66,7 +93,7 @@ export class StructuralStage implements ICompressionStage {
     let result = text;
 
     // Collapse repeated consecutive words: "very very very" -> "very"
-    const repeatPattern = /\b(\w{3,})((?:\s+\1)+)\b/gi;
+    const repeatPattern = /\b(\w{3,})((?:[ \t]+\1)+)\b/gi;
     result = result.replace(repeatPattern, (matched, word: string, rest: string, offset: number) => {
       if (isInPreservedRegion(offset, result)) {
         return matched;
@@ -92,10 +119,14 @@ export class StructuralStage implements ICompressionStage {
     // Only trigger on lists with 5+ comma-separated items on same line
     const lines = result.split("\n");
     const condensed = lines.map((line) => {
-      const commaItems = line.split(/,\s*/);
+      // Commas in table cells are cell content
+      if (Markdown.isStructural(line)) return line;
+
+      const { prefix, content } = Markdown.splitListMarker(line);
+      const commaItems = content.split(/,\s*/);
       if (commaItems.length >= 5) {
         const trimmedItems = commaItems.map((i) => i.trim()).filter((i) => i.length > 0);
-        const joined = trimmedItems.join("; ");
+        const joined = prefix + trimmedItems.join("; ");
         changes.push({
           original: line.trim(),
           replacement: joined,
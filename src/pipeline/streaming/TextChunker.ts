@@ -0,0 +1,174 @@
+import { PatternPreserver } from "../preserver/PatternPreserver.js";
+
+// A paragraph break: a line end followed by one or more blank lines
+const PARAGRAPH_BREAK = /\n(?:[ \t]*\n)+/g;
+const FENCE = /```/g;
+
+/**
+ * Splits incoming text into chunks of roughly `chunkSize` characters at
+ * paragraph breaks. A break inside a preserved region (or an unclosed code
+ * fence) is never used, so each chunk can be compressed on its own. Chunks
+ * exclude the break itself; join them with a blank line.
+ */
+export class TextChunker {
+  private readonly preserver = new PatternPreserver();
+  private buffer = "";
+
+  // Scan state, as offsets into the buffer, so each push only scans the
+  // new text: paragraph breaks are collected up to `scanned`, code fences
+  // counted up to `fenceIndex` (`nextFence` is the next one, once found).
+  private scanned = 0;
+  private fenceIndex = 0;
+  private nextFence: number | null = null;
+  private fences = 0;
+  // Breaks outside code fences, not yet checked against preserved regions
+  // or vetoed by one
+  private breaks: Array<{ start: number; end: number }> = [];
+  // A break is new, or known safe, since regions were last checked
+  private unchecked = false;
+
+  constructor(
+    private readonly chunkSize: number,
+    private readonly preservePatterns: RegExp[] = []
+  ) {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+    }
+  }
+
+  static split(
+    text: string,
+    chunkSize: number,
+    preservePatterns: RegExp[] = []
+  ): string[] {
+    const chunker = new TextChunker(chunkSize, preservePatterns);
+    return [...chunker.push(text), ...chunker.flush()];
+  }
+
+  /**
+   * Add text; returns the chunks that are complete.
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+    return this.take(false);
+  }
+
+  /**
+   * End of input; returns the remaining chunks.
+   */
+  flush(): string[] {
+    const chunks = this.take(true);
+    if (this.buffer.trim() !== "") chunks.push(this.buffer);
+    this.buffer = "";
+    this.scanned = this.fenceIndex = this.fences = 0;
+    this.nextFence = null;
+    this.breaks = [];
+    this.unchecked = false;
+    return chunks;
+  }
+
+  private take(final: boolean): string[] {
+    const chunks: string[] = [];
+    this.scan(final);
+    // Preserved regions need a scan of the whole buffer; without a new
+    // break, the last scan's verdict stands
+    if (this.buffer.length <= this.chunkSize || !this.unchecked) return chunks;
+
+    const breaks = this.safeBreaks();
+    let offset = 0;
+    let next = 0;
+    let fits = true;
+
+    while (this.buffer.length - offset > this.chunkSize) {
+      const limit = offset + this.chunkSize;
+      // Last safe break within the limit, else the first one past it
+      let split: { start: number; end: number } | null = null;
+      while (next < breaks.length && breaks[next].start <= offset) next++;
+      while (next < breaks.length && breaks[next].start <= limit) {
+        split = breaks[next++];
+      }
+      split ??= breaks[next++] ?? null;
+      if (!split) {
+        fits = false;
+        break;
+      }
+
+      chunks.push(this.buffer.slice(offset, split.start));
+      offset = split.end;
+    }
+
+    this.buffer = this.buffer.slice(offset);
+    this.rebase(offset);
+    // Safe breaks left unused stay usable once more text arrives
+    this.unchecked = fits && this.breaks.length > 0;
+    return chunks;
+  }
+
+  // Collect paragraph breaks outside code fences in the unscanned text
+  private scan(final: boolean): void {
+    // A break in trailing whitespace may grow with more input
+    let limit = this.buffer.length;
+    if (!final) {
+      while (limit > this.scanned && /[ \t\n]/.test(this.buffer[limit - 1])) limit--;
+    }
+
+    PARAGRAPH_BREAK.lastIndex = this.scanned;
+    let match: RegExpExecArray | null;
+    while ((match = PARAGRAPH_BREAK.exec(this.buffer)) && match.index < limit) {
+      const start = match.index;
+      this.countFences(start);
+      // Odd: inside an unclosed code fence
+      if (start > 0 && this.fences % 2 === 0) {
+        this.breaks.push({ start, end: start + match[0].length });
+        this.unchecked = true;
+      }
+    }
+    this.scanned = Math.max(this.scanned, limit);
+  }
+
+  // Count the code fences that start before `until`
+  private countFences(until: number): void {
+    for (;;) {
+      if (this.nextFence === null) {
+        FENCE.lastIndex = this.fenceIndex;
+        const fence = FENCE.exec(this.buffer);
+        if (!fence) {
+          // A fence may still end in the last two characters
+          this.fenceIndex = Math.max(this.fenceIndex, this.buffer.length - 2);
+          return;
+        }
+        this.nextFence = fence.index;
+      }
+      if (this.nextFence >= until) return;
+      this.fences++;
+      this.fenceIndex = this.nextFence + 3;
+      this.nextFence = null;
+    }
+  }
+
+  // Shift the scan state after the first `offset` characters are taken
+  private rebase(offset: number): void {
+    this.scanned = Math.max(0, this.scanned - offset);
+    this.fenceIndex = Math.max(0, this.fenceIndex - offset);
+    if (this.nextFence !== null) this.nextFence -= offset;
+    this.breaks = this.breaks
+      .filter((b) => b.start >= offset)
+      .map((b) => ({ start: b.start - offset, end: b.end - offset }));
+  }
+
+  private safeBreaks(): Array<{ start: number; end: number }> {
+    this.unchecked = false;
+    const regions = this.preserver
+      .findRegions(this.buffer, this.preservePatterns)
+      .sort((a, b) => a.start - b.start);
+    let region = 0;
+
+    return this.breaks.filter(({ start, end }) => {
+      // Regions don't overlap, so their ends are sorted too
+      while (region < regions.length && regions[region].end <= start) {
+        region++;
+      }
+      return !(region < regions.length && regions[region].start < end);
+    });
+  }
+}
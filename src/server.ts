@@ -1,48 +1,277 @@
+import { resolve as resolvePath } from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { Pipeline } from "./pipeline/Pipeline.js";
+import { StagePluginLoader } from "./pipeline/StagePluginLoader.js";
 import { DictionaryLoader, type DomainName } from "./dictionaries/DictionaryLoader.js";
-import { ConfigManager } from "./config/ConfigManager.js";
+import { ConfigManager, type ResolvedConfig } from "./config/ConfigManager.js";
+import { Profiles, type CompressionProfile } from "./config/profiles.js";
 import { TextDiffer } from "./diff/TextDiffer.js";
 import { TokenCounterFactory } from "./tokenizer/TokenCounter.js";
 import { LanguageDetector } from "./language/LanguageDetector.js";
+import { LanguageRegistry } from "./dictionaries/languages/registry.js";
 import { PhraseStore } from "./learning/PhraseStore.js";
 import { PhraseTracker } from "./learning/PhraseTracker.js";
+import { LearnedPacks } from "./learning/packs.js";
+import {
+  HistoryLog,
+  type CompressionEvent,
+  type HistoryBucket,
+  type HistoryGrouping,
+} from "./history/HistoryLog.js";
+import { Legend } from "./legend/Legend.js";
+import { JsonCompressor } from "./structured/JsonCompressor.js";
+import { MessageCompressor, type ChatMessage } from "./messages/MessageCompressor.js";
 import type { LanguageCode } from "./dictionaries/languages/types.js";
-import type { LanguageSetting } from "./config/defaults.js";
+import type { AuditEntry } from "./learning/types.js";
+import type { LanguageSetting, TksqConfig } from "./config/defaults.js";
 import type {
   CompressionLevel,
   TokenizerType,
   PipelineConfig,
 } from "./pipeline/stages/IStage.js";
 
-function resolveLanguage(setting: LanguageSetting, text: string): LanguageCode {
+// Inputs longer than this are compressed in chunks with progress notifications
+const CHUNKED_THRESHOLD = 64_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `configured` is the config's language, used when detection isn't confident
+function resolveLanguage(
+  setting: LanguageSetting,
+  text: string,
+  configured: LanguageSetting
+): LanguageCode {
   if (setting === "auto") {
-    return LanguageDetector.detect(text);
+    return LanguageDetector.resolve(text, configured);
   }
   return setting;
 }
 
-export function createServer(): McpServer {
+// Under "auto", mixed-language text is compressed per language run
+function dictionaryFor(
+  setting: LanguageSetting,
+  domain: DomainName,
+  customSubs?: Record<string, string>
+): PipelineConfig["dictionaryFor"] {
+  if (setting !== "auto") return undefined;
+  return (language) => DictionaryLoader.load(domain, language, customSubs);
+}
+
+// Built per server, so language packs loaded before then are accepted
+function languageEnum() {
+  return z.enum(["auto", ...LanguageRegistry.availableLanguages()] as [string, ...string[]]);
+}
+
+// "en=English, ru=Russian, ..." for tool descriptions
+function languageList(): string {
+  return LanguageRegistry.availableLanguages()
+    .map((code) => {
+      const { name } = LanguageRegistry.get(code);
+      return name ? `${code}=${name}` : code;
+    })
+    .join(", ");
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = [];
+  for (const p of patterns) {
+    try {
+      compiled.push(new RegExp(p, "g"));
+    } catch {
+      // Skip invalid patterns
+    }
+  }
+  return compiled;
+}
+
+/**
+ * Effective settings, each with the config layers it came from.
+ */
+function settingLines({ config, sources }: ResolvedConfig): string[] {
+  const from = (key: keyof typeof sources): string => {
+    const layers = sources[key].map((layer) =>
+      layer === "env" ? `env ${ConfigManager.envVariable(key)}` : layer
+    );
+    return ` (${layers.join(" + ")})`;
+  };
+  const list = (items: string[]) => (items.length > 0 ? items.join(", ") : "(none)");
+
+  return [
+    `Level: ${config.level}${from("level")}`,
+    `Domain: ${config.domain}${from("domain")}`,
+    `Language: ${config.language}${from("language")}`,
+    `Tokenizer: ${config.tokenizer}${from("tokenizer")}`,
+    `Preserve patterns: ${list(config.preservePatterns)}${from("preservePatterns")}`,
+    `Custom substitutions: ${Object.keys(config.customSubstitutions).length}${from("customSubstitutions")}`,
+    `Stage plugins: ${list(config.stagePlugins)}${from("stagePlugins")}`,
+    `Active profile: ${config.activeProfile ?? "(none)"}${from("activeProfile")}`,
+  ];
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+  let line: string = entry.action;
+  if (entry.phrase !== undefined) line += ` "${entry.phrase}"`;
+  if (entry.replacement !== undefined) line += ` -> "${entry.replacement}"`;
+  if (entry.to) line += ` (to ${entry.to})`;
+  if (entry.reason) line += `: ${entry.reason}`;
+  return line;
+}
+
+const HISTORY_LABELS: Record<HistoryGrouping, string> = {
+  day: "Day",
+  week: "Week of",
+  tool: "Tool",
+  domain: "Domain",
+  project: "Project",
+};
+
+function historyTable(buckets: HistoryBucket[], by: HistoryGrouping): string[] {
+  const num = (n: number) => n.toLocaleString("en-US");
+  const total = buckets.reduce(
+    (sum, b) => ({
+      compressions: sum.compressions + b.compressions,
+      tokensIn: sum.tokensIn + b.tokensIn,
+      tokensOut: sum.tokensOut + b.tokensOut,
+    }),
+    { compressions: 0, tokensIn: 0, tokensOut: 0 }
+  );
+  const totalSaved = total.tokensIn - total.tokensOut;
+  const rows = [
+    [HISTORY_LABELS[by], "Runs", "Tokens in", "Tokens out", "Saved", "Reduction"],
+    ...buckets.map((b) => [
+      b.key,
+      num(b.compressions),
+      num(b.tokensIn),
+      num(b.tokensOut),
+      num(b.tokensSaved),
+      `${b.reductionPercent}%`,
+    ]),
+    [
+      "Total",
+      num(total.compressions),
+      num(total.tokensIn),
+      num(total.tokensOut),
+      num(totalSaved),
+      `${total.tokensIn > 0 ? Math.round((totalSaved / total.tokensIn) * 1000) / 10 : 0}%`,
+    ],
+  ];
+
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  return rows.map((row) =>
+    row
+      .map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])))
+      .join("  ")
+      .trimEnd()
+  );
+}
+
+/**
+ * State shared by every MCP session of one tksq process: config, learned
+ * patterns and the pipeline. Each session gets its own McpServer; passing
+ * the same state to all of them lets one HTTP instance serve a whole
+ * multi-agent run with shared stats and learning.
+ */
+export class ServerState {
+  readonly configManager = new ConfigManager();
+  readonly differ = new TextDiffer();
+  readonly phraseStore = new PhraseStore();
+  readonly history = new HistoryLog();
+  private tracker: PhraseTracker | null = null;
+  private pipelinePromise: Promise<Pipeline> | null = null;
+
+  // Built lazily so stage plugins named in config are registered first
+  getPipeline(): Promise<Pipeline> {
+    if (!this.pipelinePromise) {
+      const promise = (async () => {
+        const config = await this.configManager.load();
+        const instance = new Pipeline();
+        await StagePluginLoader.registerAll(
+          instance,
+          config.stagePlugins,
+          ConfigManager.getConfigDir()
+        );
+        return instance;
+      })();
+      this.pipelinePromise = promise;
+      // Retry on the next call instead of caching a failed load
+      promise.catch(() => {
+        if (this.pipelinePromise === promise) this.pipelinePromise = null;
+      });
+    }
+    return this.pipelinePromise;
+  }
+
+  async getTracker(): Promise<PhraseTracker> {
+    if (!this.tracker) {
+      const config = await this.configManager.load();
+      this.tracker = new PhraseTracker(
+        this.phraseStore,
+        config.learning,
+        await TokenCounterFactory.createReady(config.tokenizer)
+      );
+      await this.phraseStore.incrementSessionCount();
+    }
+    return this.tracker;
+  }
+
+  // Picks up new learning config on next use
+  resetTracker(): void {
+    this.tracker = null;
+  }
+
+  // Rebuilds the pipeline so plugin changes take effect
+  resetPipeline(): void {
+    this.pipelinePromise = null;
+  }
+
+  async flush(): Promise<void> {
+    await this.phraseStore.flush();
+  }
+}
+
+// States owned by open servers created without shared state. One pair of
+// signal handlers flushes them all, however many servers are created.
+const ownedStates = new Set<ServerState>();
+let signalHandlersRegistered = false;
+
+function flushOnExit(state: ServerState, server: McpServer): void {
+  ownedStates.add(state);
+  // A closed server's state is flushed now rather than kept until exit
+  server.server.onclose = () => {
+    // Transports may report a close more than once
+    if (!ownedStates.delete(state)) return;
+    state.flush().catch(() => {
+      // Ignore
+    });
+  };
+  if (signalHandlersRegistered) return;
+  signalHandlersRegistered = true;
+
+  // Flush learned data on process exit
+  const flushAndExit = async () => {
+    await Promise.all([...ownedStates].map((s) => s.flush()));
+    process.exit(0);
+  };
+  process.on("SIGINT", flushAndExit);
+  process.on("SIGTERM", flushAndExit);
+}
+
+/**
+ * Create an MCP server. Without shared state it owns its state and flushes
+ * learned data when it closes or on SIGINT/SIGTERM (stdio mode); with shared
+ * state the owner of that state handles shutdown.
+ */
+export function createServer(shared?: ServerState): McpServer {
   const server = new McpServer({
     name: "tksq",
     version: "1.3.1",
   });
 
-  const pipeline = new Pipeline();
-  const configManager = new ConfigManager();
-  const differ = new TextDiffer();
-  const phraseStore = new PhraseStore();
-  let tracker: PhraseTracker | null = null;
-
-  async function getTracker(): Promise<PhraseTracker> {
-    if (!tracker) {
-      const config = await configManager.load();
-      tracker = new PhraseTracker(phraseStore, config.learning);
-      await phraseStore.incrementSessionCount();
-    }
-    return tracker;
-  }
+  const state = shared ?? new ServerState();
+  const { configManager, differ, phraseStore, history } = state;
+  const getPipeline = () => state.getPipeline();
+  const getTracker = () => state.getTracker();
 
   async function getPromotedSubstitutions(
     userCustom: Record<string, string>
@@ -52,13 +281,18 @@ export function createServer(): McpServer {
     return merged;
   }
 
-  // Flush learned data on process exit
-  const flushAndExit = async () => {
-    await phraseStore.flush();
-    process.exit(0);
-  };
-  process.on("SIGINT", flushAndExit);
-  process.on("SIGTERM", flushAndExit);
+  // The log is for reporting; failing to write it shouldn't fail a compression
+  async function recordHistory(
+    event: Omit<CompressionEvent, "at" | "project">
+  ): Promise<void> {
+    try {
+      await history.record(event);
+    } catch {
+      // Ignore
+    }
+  }
+
+  if (!shared) flushOnExit(state, server);
 
   // -- tksq_compress --
 
@@ -67,6 +301,7 @@ export function createServer(): McpServer {
     "Compress text to reduce LLM token usage while preserving meaning. " +
       "Removes filler phrases, applies concise substitutions, and normalizes whitespace. " +
       "Automatically preserves code blocks, inline code, and URLs. " +
+      "Very large inputs are compressed in chunks, reporting progress when the client sends a progress token. " +
       "Returns compressed text with token reduction statistics.",
     {
       text: z.string().describe("The text to compress"),
@@ -82,11 +317,10 @@ export function createServer(): McpServer {
         .describe(
           "Dictionary domain. general=prose (default), programming=code, legal=contracts, academic=papers"
         ),
-      language: z
-        .enum(["auto", "en", "ru"])
+      language: languageEnum()
         .optional()
         .describe(
-          "Language for compression dictionaries. auto=detect from text (default), en=English, ru=Russian"
+          `Language for compression dictionaries. auto=detect from text (default), ${languageList()}`
         ),
       tokenizer: z
         .enum(["cl100k_base", "o200k_base", "approximate"])
@@ -100,46 +334,102 @@ export function createServer(): McpServer {
         .describe(
           "Additional regex patterns for text regions to preserve (code blocks, URLs already preserved by default)"
         ),
+      budget: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Target token count. Escalates from no compression up to aggressive until the result fits (overrides level)"
+        ),
+      content_type: z
+        .enum(["auto", "prose", "code", "structured", "log"])
+        .optional()
+        .describe(
+          "Content type routing. auto=detect (default), prose=all rules, code/structured=whitespace only, log=whitespace+dedup"
+        ),
+      legend: z
+        .boolean()
+        .optional()
+        .describe(
+          "Append a [legend: ...] line listing introduced abbreviations and learned acronyms, for use with tksq_expand"
+        ),
+      profile: z
+        .string()
+        .optional()
+        .describe(
+          "Named profile with level, domain, tokenizer, preserve patterns and stages (default: the active profile). Explicit arguments override it"
+        ),
     },
-    async (args) => {
+    async (args, extra) => {
       try {
-        const userConfig = await configManager.load();
+        const { config: userConfig, profile, stages } = Profiles.apply(
+          await configManager.load(),
+          args.profile
+        );
 
-        const level: CompressionLevel = args.level ?? userConfig.level;
+        let level: CompressionLevel = args.level ?? userConfig.level;
         const domain: DomainName = args.domain ?? userConfig.domain;
         const tokenizer: TokenizerType = args.tokenizer ?? userConfig.tokenizer;
         const langSetting: LanguageSetting = args.language ?? userConfig.language;
-        const language = resolveLanguage(langSetting, args.text);
+        const language = resolveLanguage(langSetting, args.text, userConfig.language);
 
         // Merge promoted patterns with user custom substitutions
         const customSubs = await getPromotedSubstitutions(
           userConfig.customSubstitutions
         );
 
-        const dictionary = DictionaryLoader.load(
-          domain,
-          language,
-          Object.keys(customSubs).length > 0 ? customSubs : undefined
-        );
-
-        const userPatterns: RegExp[] = [];
-        const configPatterns = args.preserve_patterns ?? userConfig.preservePatterns;
-        for (const p of configPatterns) {
-          try {
-            userPatterns.push(new RegExp(p, "g"));
-          } catch {
-            // Skip invalid patterns
-          }
-        }
+        const subs = Object.keys(customSubs).length > 0 ? customSubs : undefined;
+        const dictionary = DictionaryLoader.load(domain, language, subs);
 
         const pipelineConfig: PipelineConfig = {
           level,
-          preservePatterns: userPatterns,
+          // An explicit level replaces the profile's stage list
+          stages: args.level === undefined ? stages : undefined,
+          preservePatterns: compilePatterns(
+            args.preserve_patterns ?? userConfig.preservePatterns
+          ),
           tokenizer,
           dictionary,
+          dictionaryFor: dictionaryFor(langSetting, domain, subs),
+          budget: args.budget,
+          contentType: args.content_type,
+          legend: args.legend,
         };
 
-        const result = await pipeline.compress(args.text, pipelineConfig);
+        const pipeline = await getPipeline();
+        // Budget mode needs the whole text to pick an escalation step
+        const chunked =
+          args.text.length > CHUNKED_THRESHOLD && args.budget === undefined;
+        const progressToken = extra._meta?.progressToken;
+        const result = chunked
+          ? await pipeline.compressChunked(args.text, pipelineConfig, {
+              onProgress: async (done, total) => {
+                if (progressToken === undefined) return;
+                await extra.sendNotification({
+                  method: "notifications/progress",
+                  params: {
+                    progressToken,
+                    progress: done,
+                    total,
+                    message: `Compressed chunk ${done}/${total}`,
+                  },
+                });
+              },
+            })
+          : await pipeline.compress(args.text, pipelineConfig);
+        const budget = result.stats.budget;
+        if (budget) level = budget.level;
+
+        await recordHistory({
+          tool: "tksq_compress",
+          level,
+          domain,
+          language,
+          tokenizer,
+          tokensIn: result.stats.originalTokens,
+          tokensOut: result.stats.compressedTokens,
+        });
 
         // Track learning stats
         if (userConfig.learning.enabled) {
@@ -164,18 +454,46 @@ export function createServer(): McpServer {
           )
           .join("\n");
 
-        const output = [
-          result.compressed,
+        const output = [result.compressed];
+        if (result.legend && result.legend.length > 0) {
+          output.push(Legend.format(result.legend));
+        }
+        output.push(
           "",
           "---",
           `Tokens: ${result.stats.originalTokens} -> ${result.stats.compressedTokens} (-${result.stats.reductionPercent}%)`,
           `Chars: ${result.stats.originalChars} -> ${result.stats.compressedChars}`,
           `Tokenizer: ${result.stats.tokenizer}`,
-          `Level: ${level} | Domain: ${domain} | Language: ${language}`,
-          `Changes: ${result.allChanges.length}`,
-          "Stages:",
-          stageBreakdown,
-        ];
+          `Level: ${level} | Domain: ${domain} | Language: ${language}` +
+            (profile ? ` | Profile: ${profile}` : ""),
+          `Content: ${result.stats.contentType}`,
+          `Changes: ${result.allChanges.length}`
+        );
+
+        if (result.stats.chunks !== undefined) {
+          output.push(`Chunks: ${result.stats.chunks}`);
+        }
+
+        const languages = result.stats.languages ?? [];
+        if (languages.length > 1) {
+          output.push(
+            "Languages:",
+            ...languages.map(
+              (l) =>
+                `  ${l.language}: ${l.originalTokens} -> ${l.compressedTokens} tokens (-${l.reductionPercent}%, ${l.segments} segment${l.segments === 1 ? "" : "s"})`
+            )
+          );
+        }
+
+        if (budget) {
+          output.push(
+            budget.met
+              ? `Budget: ${budget.budget} tokens, met at step "${budget.step}" (${budget.stepIndex}/${budget.totalSteps})`
+              : `Budget: ${budget.budget} tokens, NOT met: ${budget.overBy} over after "${budget.step}" (${budget.stepIndex}/${budget.totalSteps})`
+          );
+        }
+
+        output.push("Stages:", stageBreakdown);
 
         // Add learning suggestions footer
         if (userConfig.learning.enabled) {
@@ -203,6 +521,231 @@ export function createServer(): McpServer {
     }
   );
 
+  // -- tksq_compress_json --
+
+  server.tool(
+    "tksq_compress_json",
+    "Compress a JSON payload such as tool output. " +
+      "Minifies whitespace, optionally drops null/empty fields, and optionally packs " +
+      "arrays of same-shaped objects into a header row plus value rows. " +
+      "The result is always valid JSON; packed tables come with a legend line.",
+    {
+      json: z.string().describe("The JSON document to compress"),
+      drop_empty: z
+        .boolean()
+        .optional()
+        .describe("Drop object fields whose value is null, \"\", [] or {} (default: false)"),
+      tabular: z
+        .boolean()
+        .optional()
+        .describe(
+          "Pack arrays of same-shaped objects as {\"$cols\": [...], \"$rows\": [[...]]} (default: false)"
+        ),
+      tokenizer: z
+        .enum(["cl100k_base", "o200k_base", "approximate"])
+        .optional()
+        .describe("Tokenizer for counting (default: from config)"),
+    },
+    async (args) => {
+      try {
+        const userConfig = await configManager.load();
+        const tokenizer: TokenizerType = args.tokenizer ?? userConfig.tokenizer;
+        const counter = await TokenCounterFactory.createReady(tokenizer);
+
+        const result = JsonCompressor.compress(args.json, {
+          dropEmpty: args.drop_empty ?? false,
+          tabular: args.tabular ?? false,
+        });
+
+        const originalTokens = counter.count(args.json);
+        const compressedTokens = counter.count(result.text);
+        const reduction =
+          originalTokens > 0
+            ? Math.round(((originalTokens - compressedTokens) / originalTokens) * 10000) / 100
+            : 0;
+
+        if (userConfig.learning.enabled) {
+          await phraseStore.updateStats(
+            originalTokens - compressedTokens,
+            args.json.length,
+            result.text.length
+          );
+          await phraseStore.save();
+        }
+        await recordHistory({
+          tool: "tksq_compress_json",
+          level: null,
+          domain: null,
+          language: null,
+          tokenizer,
+          tokensIn: originalTokens,
+          tokensOut: compressedTokens,
+        });
+
+        const output = [result.text];
+        if (result.legend) output.push(result.legend);
+        output.push(
+          "",
+          "---",
+          `Tokens: ${originalTokens} -> ${compressedTokens} (-${reduction}%)`,
+          `Chars: ${args.json.length} -> ${result.text.length}`,
+          `Tokenizer: ${counter.name}`,
+          `Dropped fields: ${result.droppedFields} | Tabular arrays: ${result.tabularArrays}`
+        );
+
+        return {
+          content: [{ type: "text", text: output.join("\n") }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `JSON compression error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -- tksq_compress_messages --
+
+  const messageLevel = z.enum(["light", "medium", "aggressive", "none"]);
+
+  server.tool(
+    "tksq_compress_messages",
+    "Compress a chat transcript given as an OpenAI/Anthropic-style array of {role, content} messages. " +
+      "Levels are role-aware: system prompts light, earlier user turns medium, old assistant turns aggressive, " +
+      "the latest user turn untouched. Paragraphs and code blocks repeated from earlier turns are removed. " +
+      "Only text content is compressed; images and tool blocks pass through. " +
+      "Returns the new message array as JSON with per-message and total token stats.",
+    {
+      messages: z
+        .array(
+          z
+            .object({
+              role: z.string(),
+              content: z.union([
+                z.string(),
+                z.array(z.object({ type: z.string() }).passthrough()),
+                z.null(),
+              ]),
+            })
+            .passthrough()
+        )
+        .describe("Messages in conversation order"),
+      policy: z
+        .object({
+          system: messageLevel.optional(),
+          user: messageLevel.optional(),
+          latest: messageLevel.optional(),
+          assistant: messageLevel.optional(),
+          tool: messageLevel.optional(),
+        })
+        .optional()
+        .describe(
+          "Override levels per slot. latest=last user message (default: none), user=earlier user turns (medium), " +
+            "system (light), assistant (aggressive), tool=tool/function results (medium). none=leave as is"
+        ),
+      dedupe: z
+        .boolean()
+        .optional()
+        .describe("Remove paragraphs and code blocks repeated from earlier messages (default: true)"),
+      domain: z
+        .enum(["general", "programming", "legal", "academic"])
+        .optional()
+        .describe("Dictionary domain (default: from config)"),
+      language: languageEnum()
+        .optional()
+        .describe("Language. auto=detect from the transcript (default)"),
+      tokenizer: z
+        .enum(["cl100k_base", "o200k_base", "approximate"])
+        .optional()
+        .describe("Tokenizer for counting (default: from config)"),
+    },
+    async (args) => {
+      try {
+        const userConfig = await configManager.load();
+        const messages = args.messages as ChatMessage[];
+
+        const domain: DomainName = args.domain ?? userConfig.domain;
+        const tokenizer: TokenizerType = args.tokenizer ?? userConfig.tokenizer;
+        const langSetting: LanguageSetting = args.language ?? userConfig.language;
+        const transcript = messages
+          .flatMap((m) =>
+            m.content === null
+              ? []
+              : typeof m.content === "string"
+                ? [m.content]
+                : m.content.flatMap((p) => (typeof p.text === "string" ? [p.text] : []))
+          )
+          .join("\n\n");
+        const language = resolveLanguage(langSetting, transcript, userConfig.language);
+
+        const customSubs = await getPromotedSubstitutions(
+          userConfig.customSubstitutions
+        );
+        const subs = Object.keys(customSubs).length > 0 ? customSubs : undefined;
+        const dictionary = DictionaryLoader.load(domain, language, subs);
+
+        const compressor = new MessageCompressor(await getPipeline());
+        const result = await compressor.compress(messages, {
+          preservePatterns: compilePatterns(userConfig.preservePatterns),
+          tokenizer,
+          dictionary,
+          dictionaryFor: dictionaryFor(langSetting, domain, subs),
+          policy: args.policy,
+          dedupe: args.dedupe,
+        });
+        const { total } = result;
+
+        if (userConfig.learning.enabled) {
+          const compressedText = JSON.stringify(result.messages);
+          await phraseStore.updateStats(
+            total.originalTokens - total.compressedTokens,
+            JSON.stringify(messages).length,
+            compressedText.length
+          );
+          await phraseStore.save();
+        }
+        await recordHistory({
+          tool: "tksq_compress_messages",
+          level: null,
+          domain,
+          language,
+          tokenizer,
+          tokensIn: total.originalTokens,
+          tokensOut: total.compressedTokens,
+        });
+
+        const output = [
+          JSON.stringify(result.messages),
+          "",
+          "---",
+          `Tokens: ${total.originalTokens} -> ${total.compressedTokens} (-${total.reductionPercent}%)`,
+          `Tokenizer: ${tokenizer} | Domain: ${domain} | Language: ${language}`,
+          `Duplicates removed: ${total.duplicatesRemoved}`,
+          "Messages:",
+          ...result.perMessage.map(
+            (m) =>
+              `  #${m.index} ${m.role} (${m.level}): ${m.originalTokens} -> ${m.compressedTokens} tokens` +
+              (m.duplicatesRemoved > 0 ? `, ${m.duplicatesRemoved} duplicate(s) removed` : "")
+          ),
+        ];
+
+        return {
+          content: [{ type: "text", text: output.join("\n") }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Message compression error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // -- tksq_count --
 
   server.tool(
@@ -257,6 +800,63 @@ export function createServer(): McpServer {
     }
   );
 
+  // -- tksq_detect_language --
+
+  server.tool(
+    "tksq_detect_language",
+    "Detect the language of a text offline, with a confidence score and the top candidates. " +
+      "Scores every language pack by script, stopwords and character trigrams. " +
+      "Shows which pack language \"auto\" would pick for this text.",
+    {
+      text: z.string().describe("The text to analyze"),
+      top: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Number of candidates to list (default: 3)"),
+    },
+    async (args) => {
+      try {
+        const userConfig = await configManager.load();
+        const detection = LanguageDetector.analyze(args.text);
+        const resolved = resolveLanguage("auto", args.text, userConfig.language);
+
+        const label = (code: LanguageCode) => {
+          const { name } = LanguageRegistry.get(code);
+          return name ? `${code} (${name})` : code;
+        };
+        const width = Math.max(...detection.candidates.map((c) => label(c.language).length));
+        const candidates = detection.candidates
+          .slice(0, args.top ?? 3)
+          .map((c) => `  ${label(c.language).padEnd(width)}  ${c.score.toFixed(2)}`);
+
+        const output = [
+          `Language: ${label(detection.language)}`,
+          `Confidence: ${detection.confidence.toFixed(2)}`,
+          "",
+          "Candidates:",
+          ...candidates,
+          "",
+          detection.confidence >= LanguageDetector.MIN_CONFIDENCE
+            ? `Auto: ${resolved}`
+            : `Auto: ${resolved} (confidence below ${LanguageDetector.MIN_CONFIDENCE}, using the ${userConfig.language === "auto" ? "fallback" : "configured"} language)`,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text", text: output }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Detect language error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // -- tksq_diff --
 
   server.tool(
@@ -280,12 +880,17 @@ export function createServer(): McpServer {
         .enum(["general", "programming", "legal", "academic"])
         .optional()
         .describe("Dictionary domain (only used if compressed is omitted)"),
-      language: z
-        .enum(["auto", "en", "ru"])
+      language: languageEnum()
         .optional()
         .describe(
           "Language for compression dictionaries (only used if compressed is omitted)"
         ),
+      profile: z
+        .string()
+        .optional()
+        .describe(
+          "Named profile with level, domain, tokenizer, preserve patterns and stages (only used if compressed is omitted; default: the active profile)"
+        ),
     },
     async (args) => {
       try {
@@ -295,27 +900,31 @@ export function createServer(): McpServer {
         if (args.compressed !== undefined) {
           compressedText = args.compressed;
         } else {
-          const userConfig = await configManager.load();
+          const { config: userConfig, stages } = Profiles.apply(
+            await configManager.load(),
+            args.profile
+          );
           const level: CompressionLevel = args.level ?? userConfig.level;
           const domain: DomainName = args.domain ?? userConfig.domain;
           const langSetting: LanguageSetting = args.language ?? userConfig.language;
-          const language = resolveLanguage(langSetting, args.original);
+          const language = resolveLanguage(langSetting, args.original, userConfig.language);
 
-          const dictionary = DictionaryLoader.load(
-            domain,
-            language,
+          const subs =
             Object.keys(userConfig.customSubstitutions).length > 0
               ? userConfig.customSubstitutions
-              : undefined
-          );
+              : undefined;
+          const dictionary = DictionaryLoader.load(domain, language, subs);
 
           const pipelineConfig: PipelineConfig = {
             level,
-            preservePatterns: [],
+            stages: args.level === undefined ? stages : undefined,
+            preservePatterns: compilePatterns(userConfig.preservePatterns),
             tokenizer: userConfig.tokenizer,
             dictionary,
+            dictionaryFor: dictionaryFor(langSetting, domain, subs),
           };
 
+          const pipeline = await getPipeline();
           const result = await pipeline.compress(args.original, pipelineConfig);
           compressedText = result.compressed;
           stats = `\nTokens: ${result.stats.originalTokens} -> ${result.stats.compressedTokens} (-${result.stats.reductionPercent}%)`;
@@ -362,26 +971,36 @@ export function createServer(): McpServer {
         .enum(["general", "programming", "legal", "academic"])
         .optional()
         .describe("Dictionary domain (default: general)"),
-      language: z
-        .enum(["auto", "en", "ru"])
+      language: languageEnum()
         .optional()
         .describe(
-          "Language for compression dictionaries. auto=detect from text (default), en=English, ru=Russian"
+          `Language for compression dictionaries. auto=detect from text (default), ${languageList()}`
         ),
       tokenizer: z
         .enum(["cl100k_base", "o200k_base", "approximate"])
         .optional()
         .describe("Tokenizer for counting (default: cl100k_base)"),
+      profile: z
+        .string()
+        .optional()
+        .describe(
+          "Named profile with level, domain, tokenizer, preserve patterns and stages to benchmark as an extra row; its domain, tokenizer and preserve patterns apply to every row (default: the active profile)"
+        ),
     },
     async (args) => {
       try {
-        const userConfig = await configManager.load();
+        const { config: userConfig, profile, stages } = Profiles.apply(
+          await configManager.load(),
+          args.profile
+        );
+        const preservePatterns = compilePatterns(userConfig.preservePatterns);
         const domain: DomainName = args.domain ?? userConfig.domain;
         const tokenizer: TokenizerType = args.tokenizer ?? userConfig.tokenizer;
         const langSetting: LanguageSetting = args.language ?? userConfig.language;
-        const language = resolveLanguage(langSetting, args.text);
+        const language = resolveLanguage(langSetting, args.text, userConfig.language);
 
         const dictionary = DictionaryLoader.load(domain, language);
+        const pipeline = await getPipeline();
         const levels: CompressionLevel[] = ["light", "medium", "aggressive"];
         const rows: string[] = [];
 
@@ -397,9 +1016,10 @@ export function createServer(): McpServer {
         for (const level of levels) {
           const config: PipelineConfig = {
             level,
-            preservePatterns: [],
+            preservePatterns,
             tokenizer,
             dictionary,
+            dictionaryFor: dictionaryFor(langSetting, domain),
           };
 
           const result = await pipeline.compress(args.text, config);
@@ -412,12 +1032,25 @@ export function createServer(): McpServer {
           );
         }
 
+        if (profile) {
+          const result = await pipeline.compress(args.text, {
+            level: userConfig.level,
+            stages,
+            preservePatterns,
+            tokenizer,
+            dictionary,
+          });
+          rows.push(
+            `${profile.padEnd(13)}| ${String(result.stats.compressedTokens).padEnd(7)}| -${String(result.stats.reductionPercent + "%").padEnd(10)}| ${result.stats.stageBreakdown.map((s) => s.stage).join(" -> ")}`
+          );
+        }
+
         rows.push("");
         rows.push("Per-stage breakdown (aggressive):");
 
         const aggressiveConfig: PipelineConfig = {
           level: "aggressive",
-          preservePatterns: [],
+          preservePatterns,
           tokenizer,
           dictionary,
         };
@@ -426,29 +1059,202 @@ export function createServer(): McpServer {
           rows.push(
             `  ${s.stage}: ${s.tokensIn} -> ${s.tokensOut} (-${s.reductionPercent}%, ${s.timeMs}ms)`
           );
-        }
-
-        return {
-          content: [{ type: "text", text: rows.join("\n") }],
-        };
-      } catch (error) {
-        const message =
-          error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Benchmark error: ${message}` }],
-          isError: true,
-        };
+        }
+
+        return {
+          content: [{ type: "text", text: rows.join("\n") }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Benchmark error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -- tksq_configure --
+
+  type ProfileArgs = {
+    profile_action: "list" | "create" | "delete" | "activate" | "deactivate";
+    profile_name?: string;
+    level?: CompressionLevel;
+    domain?: DomainName;
+    tokenizer?: TokenizerType;
+    preserve_patterns?: string[];
+    stages?: string[];
+  };
+
+  async function manageProfile(args: ProfileArgs): Promise<string> {
+    const config = await configManager.load();
+    const { config: global } = await configManager.loadGlobal();
+    const name = args.profile_name;
+    const requireName = (): string => {
+      if (!name) throw new Error(`profile_name is required for ${args.profile_action}`);
+      return name;
+    };
+
+    switch (args.profile_action) {
+      case "list": {
+        const lines = ["Profiles (* = active):"];
+        for (const [profileName, profile] of Object.entries(Profiles.all(config))) {
+          const marker = profileName === config.activeProfile ? "*" : " ";
+          const origin = Profiles.isBuiltIn(profileName) ? " [built-in]" : "";
+          lines.push(`${marker} ${profileName}${origin}: ${Profiles.describe(profile)}`);
+        }
+        return lines.join("\n");
+      }
+
+      case "create": {
+        const profileName = requireName();
+        Profiles.validateName(profileName);
+
+        const profile: CompressionProfile = {};
+        if (args.level !== undefined) profile.level = args.level;
+        if (args.domain !== undefined) profile.domain = args.domain;
+        if (args.tokenizer !== undefined) profile.tokenizer = args.tokenizer;
+        if (args.preserve_patterns !== undefined) {
+          ConfigManager.checkPatterns(args.preserve_patterns);
+          profile.preservePatterns = args.preserve_patterns;
+        }
+        if (args.stages !== undefined) {
+          const available = (await getPipeline()).availableStages();
+          const unknown = args.stages.filter((id) => !available.includes(id));
+          if (unknown.length > 0) {
+            throw new Error(
+              `Unknown stage(s): ${unknown.join(", ")}. Available stages: ${available.join(", ")}`
+            );
+          }
+          profile.stages = args.stages;
+        }
+
+        const existed = Object.hasOwn(global.profiles, profileName);
+        await configManager.update({
+          profiles: { ...global.profiles, [profileName]: profile },
+        });
+        return `${existed ? "Updated" : "Created"} profile "${profileName}": ${Profiles.describe(profile)}`;
+      }
+
+      case "delete": {
+        const profileName = requireName();
+        if (Profiles.isBuiltIn(profileName)) {
+          throw new Error(`Profile "${profileName}" is built in and can't be deleted`);
+        }
+        if (!Object.hasOwn(global.profiles, profileName)) {
+          throw new Error(`No profile "${profileName}" in ${ConfigManager.getConfigPath()}`);
+        }
+        const { [profileName]: _removed, ...profiles } = global.profiles;
+        await configManager.update({
+          profiles,
+          activeProfile: global.activeProfile === profileName ? null : global.activeProfile,
+        });
+        return `Deleted profile "${profileName}"`;
+      }
+
+      case "activate": {
+        const profileName = requireName();
+        const profile = Profiles.get(config, profileName);
+        await configManager.update({ activeProfile: profileName });
+        return `Active profile: ${profileName} (${Profiles.describe(profile)})`;
+      }
+
+      case "deactivate":
+        await configManager.update({ activeProfile: null });
+        return "No active profile";
+    }
+  }
+
+  type EditArgs = {
+    substitution_action?: "add" | "remove" | "rename" | "replace";
+    pattern_action?: "add" | "remove" | "rename" | "replace";
+    custom_substitutions?: Record<string, string>;
+    preserve_patterns?: string[];
+    remove?: string[];
+    from?: string;
+    to?: string;
+  };
+
+  // Edits of the custom substitution map or the preserve pattern list
+  async function editCollection(args: EditArgs): Promise<string> {
+    const action = args.substitution_action ?? args.pattern_action;
+    const target = args.substitution_action ? "custom substitutions" : "preserve patterns";
+    const require = <T>(value: T | undefined, name: string): T => {
+      if (value === undefined) throw new Error(`${name} is required to ${action} ${target}`);
+      return value;
+    };
+
+    let updated: TksqConfig;
+    if (args.substitution_action) {
+      switch (args.substitution_action) {
+        case "add":
+          updated = await configManager.update({
+            customSubstitutions: require(args.custom_substitutions, "custom_substitutions"),
+          });
+          break;
+        case "remove":
+          updated = await configManager.removeSubstitutions(require(args.remove, "remove"));
+          break;
+        case "rename":
+          updated = await configManager.renameSubstitution(
+            require(args.from, "from"),
+            require(args.to, "to")
+          );
+          break;
+        case "replace":
+          updated = await configManager.replaceSubstitutions(
+            require(args.custom_substitutions, "custom_substitutions")
+          );
+          break;
+      }
+    } else {
+      switch (args.pattern_action) {
+        case "add":
+          updated = await configManager.addPreservePatterns(
+            require(args.preserve_patterns, "preserve_patterns")
+          );
+          break;
+        case "remove":
+          updated = await configManager.removePreservePatterns(require(args.remove, "remove"));
+          break;
+        case "rename":
+          updated = await configManager.renamePreservePattern(
+            require(args.from, "from"),
+            require(args.to, "to")
+          );
+          break;
+        default:
+          updated = await configManager.replacePreservePatterns(
+            require(args.preserve_patterns, "preserve_patterns")
+          );
+          break;
       }
     }
-  );
 
-  // -- tksq_configure --
+    const lines = [`Updated ${target} (${action}):`];
+    if (args.substitution_action) {
+      const entries = Object.entries(updated.customSubstitutions);
+      if (entries.length === 0) lines.push("  (none)");
+      for (const [phrase, replacement] of entries) {
+        lines.push(`  "${phrase}" -> "${replacement}"`);
+      }
+    } else {
+      if (updated.preservePatterns.length === 0) lines.push("  (none)");
+      for (const pattern of updated.preservePatterns) {
+        lines.push(`  ${pattern}`);
+      }
+    }
+    lines.push("", `Saved to: ${ConfigManager.getConfigPath()}`);
+    return lines.join("\n");
+  }
 
   server.tool(
     "tksq_configure",
     "Read or update tksq configuration. " +
-      "Without arguments, returns current settings. " +
-      "With arguments, updates the specified settings and persists them.",
+      "Without arguments, returns the effective settings and the layer each came from " +
+      "(defaults, global config.json, project .tksqrc, TKSQ_* environment variables). " +
+      "With arguments, updates the specified settings and persists them to the global config.",
     {
       level: z
         .enum(["light", "medium", "aggressive"])
@@ -458,11 +1264,10 @@ export function createServer(): McpServer {
         .enum(["general", "programming", "legal", "academic"])
         .optional()
         .describe("Default dictionary domain"),
-      language: z
-        .enum(["auto", "en", "ru"])
+      language: languageEnum()
         .optional()
         .describe(
-          "Default language. auto=detect from text (default), en=English, ru=Russian"
+          `Default language. auto=detect from text (default), ${languageList()}`
         ),
       tokenizer: z
         .enum(["cl100k_base", "o200k_base", "approximate"])
@@ -476,9 +1281,64 @@ export function createServer(): McpServer {
         .record(z.string())
         .optional()
         .describe("Custom word substitutions to add (merged with existing)"),
+      profile_action: z
+        .enum(["list", "create", "delete", "activate", "deactivate"])
+        .optional()
+        .describe(
+          "Manage named profiles. create takes profile_name plus level, domain, tokenizer, preserve_patterns and stages; " +
+            "activate makes a profile the default for tksq_compress, tksq_diff and tksq_benchmark"
+        ),
+      profile_name: z.string().optional().describe("Profile to create, delete or activate"),
+      stages: z
+        .array(z.string())
+        .optional()
+        .describe("Stage ids for a profile, in order (only with profile_action=create)"),
+      substitution_action: z
+        .enum(["add", "remove", "rename", "replace"])
+        .optional()
+        .describe(
+          "Edit custom substitutions. add/replace take custom_substitutions (replace swaps the whole map), " +
+            "remove takes remove (phrases), rename takes from and to (phrases; the replacement is kept)"
+        ),
+      pattern_action: z
+        .enum(["add", "remove", "rename", "replace"])
+        .optional()
+        .describe(
+          "Edit preserve patterns. add/replace take preserve_patterns, remove takes remove, rename takes from and to. " +
+            "Invalid regexes and patterns matching the empty string are rejected"
+        ),
+      remove: z
+        .array(z.string())
+        .optional()
+        .describe("Phrases or patterns to remove (with substitution_action/pattern_action=remove)"),
+      from: z.string().optional().describe("Phrase or pattern to rename"),
+      to: z.string().optional().describe("New phrase or pattern"),
     },
     async (args) => {
       try {
+        const actions = [args.profile_action, args.substitution_action, args.pattern_action];
+        if (actions.filter((a) => a !== undefined).length > 1) {
+          throw new Error("Use one of profile_action, substitution_action and pattern_action at a time");
+        }
+        if (args.substitution_action !== undefined || args.pattern_action !== undefined) {
+          const text = await editCollection(args);
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+        if (args.remove !== undefined || args.from !== undefined || args.to !== undefined) {
+          throw new Error("remove, from and to need substitution_action or pattern_action");
+        }
+        if (args.profile_action !== undefined) {
+          const text = await manageProfile({ ...args, profile_action: args.profile_action });
+          return {
+            content: [{ type: "text", text }],
+          };
+        }
+        if (args.profile_name !== undefined || args.stages !== undefined) {
+          throw new Error("profile_name and stages need profile_action");
+        }
+
         const hasUpdates =
           args.level !== undefined ||
           args.domain !== undefined ||
@@ -488,24 +1348,31 @@ export function createServer(): McpServer {
           args.custom_substitutions !== undefined;
 
         if (!hasUpdates) {
-          const config = await configManager.load();
+          const resolved = await configManager.resolve();
+          const { config } = resolved;
           const promoted = await phraseStore.getPromoted();
+          const stagesLine = await getPipeline().then(
+            (p) => `Stages: ${p.availableStages().join(", ")}`,
+            (e: unknown) =>
+              `Stages: unavailable (${e instanceof Error ? e.message : String(e)})`
+          );
           const output = [
             "Current tksq configuration:",
             "",
-            `Level: ${config.level}`,
-            `Domain: ${config.domain}`,
-            `Language: ${config.language}`,
-            `Tokenizer: ${config.tokenizer}`,
-            `Preserve patterns: ${config.preservePatterns.length > 0 ? config.preservePatterns.join(", ") : "(none)"}`,
-            `Custom substitutions: ${Object.keys(config.customSubstitutions).length}`,
+            ...settingLines(resolved),
+            stagesLine,
             `Promoted patterns: ${Object.keys(promoted).length}`,
             `Learning: ${config.learning.enabled ? "enabled" : "disabled"} (min freq: ${config.learning.minFrequency}, auto-promote: ${config.learning.autoPromote})`,
             "",
             `Config file: ${ConfigManager.getConfigPath()}`,
+            `Project config: ${resolved.projectPath ?? "(none)"}`,
             `Learned data: ${PhraseStore.getStorePath()}`,
           ];
 
+          for (const warning of resolved.warnings) {
+            output.push(`Warning: ${warning}`);
+          }
+
           if (Object.keys(config.customSubstitutions).length > 0) {
             output.push("Substitutions:");
             for (const [key, value] of Object.entries(
@@ -537,24 +1404,31 @@ export function createServer(): McpServer {
         if (args.custom_substitutions !== undefined)
           partial.customSubstitutions = args.custom_substitutions;
 
-        const updated = await configManager.update(partial);
+        await configManager.update(partial);
+        const resolved = await configManager.resolve();
 
-        // Reset tracker so it picks up new learning config
-        tracker = null;
+        state.resetTracker();
+        state.resetPipeline();
 
         const output = [
           "Configuration updated:",
           "",
-          `Level: ${updated.level}`,
-          `Domain: ${updated.domain}`,
-          `Language: ${updated.language}`,
-          `Tokenizer: ${updated.tokenizer}`,
-          `Preserve patterns: ${updated.preservePatterns.length > 0 ? updated.preservePatterns.join(", ") : "(none)"}`,
-          `Custom substitutions: ${Object.keys(updated.customSubstitutions).length}`,
+          ...settingLines(resolved),
           "",
           `Saved to: ${ConfigManager.getConfigPath()}`,
+          ...resolved.warnings.map((warning) => `Warning: ${warning}`),
         ];
 
+        // Saved scalars can still be shadowed by a project file or env variable
+        for (const key of ["level", "domain", "language", "tokenizer"] as const) {
+          const layer = resolved.sources[key][0];
+          if (partial[key] !== undefined && (layer === "project" || layer === "env")) {
+            const by =
+              layer === "env" ? ConfigManager.envVariable(key) : resolved.projectPath;
+            output.push(`Note: ${key} is overridden by ${by}`);
+          }
+        }
+
         return {
           content: [{ type: "text", text: output.join("\n") }],
         };
@@ -574,30 +1448,89 @@ export function createServer(): McpServer {
   server.tool(
     "tksq_learn",
     "Manage the learning buffer. List candidate patterns discovered from usage, " +
-      "promote them to active substitutions, reject false positives, or add manual patterns. " +
-      "Use 'stats' action to see compression statistics.",
+      "promote them to active substitutions, reject false positives, demote promoted patterns, " +
+      "or add manual patterns. Rejected phrases are blocklisted and never suggested again. " +
+      "Use 'stats' action to see compression statistics and 'audit' for the decision history. " +
+      "Share patterns with a team through 'export' and 'import' of pack files.",
     {
       action: z
-        .enum(["list", "promote", "reject", "add", "reset", "stats"])
+        .enum([
+          "list",
+          "promote",
+          "reject",
+          "demote",
+          "unblock",
+          "add",
+          "reset",
+          "stats",
+          "audit",
+          "export",
+          "import",
+        ])
         .describe(
-          "Action: list=show candidates, promote=activate a candidate, reject=remove candidate, " +
-            "add=manually add a pattern, reset=clear all learned data, stats=show statistics"
+          "Action: list=show candidates, promote=activate a candidate, reject=blocklist a candidate, " +
+            "demote=deactivate a promoted pattern, unblock=remove from the blocklist, " +
+            "add=manually add a pattern, reset=clear all learned data, stats=show statistics, " +
+            "audit=show when and why patterns were promoted, rejected or demoted, " +
+            "export=write promoted patterns, custom substitutions and the blocklist to a pack file, " +
+            "import=merge a pack file"
         ),
       phrase: z
         .string()
         .optional()
-        .describe("Phrase to promote/reject/add"),
+        .describe("Phrase to promote/reject/demote/unblock/add"),
       replacement: z
         .string()
         .optional()
         .describe("Replacement for promote/add action"),
+      to: z
+        .enum(["candidates", "blocklist"])
+        .optional()
+        .describe("Where demote moves the phrase (default: candidates)"),
+      reason: z
+        .string()
+        .optional()
+        .describe("Why the decision was made, recorded in the audit trail"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Number of audit entries to show (default: 20)"),
+      path: z
+        .string()
+        .optional()
+        .describe(
+          "Pack file to import, or a new file to export to (export returns the pack as JSON if omitted)"
+        ),
+      name: z
+        .string()
+        .optional()
+        .describe("Name stored in an exported pack"),
+      strategy: z
+        .enum(["ours", "theirs", "ask"])
+        .optional()
+        .describe(
+          "How import settles phrases the pack maps differently: ours=keep local, theirs=take the pack's, " +
+            "ask=import nothing and list the conflicts (default)"
+        ),
+      resolutions: z
+        .record(z.enum(["ours", "theirs"]))
+        .optional()
+        .describe("Per-phrase import decisions, e.g. {\"pull request\": \"theirs\"}; override strategy"),
     },
     async (args) => {
       try {
         switch (args.action) {
           case "list": {
             const candidates = await phraseStore.getCandidates();
-            if (candidates.length === 0) {
+            const promoted = await phraseStore.getPromoted();
+            const rejected = await phraseStore.getRejected();
+            if (
+              candidates.length === 0 &&
+              Object.keys(promoted).length === 0 &&
+              rejected.length === 0
+            ) {
               return {
                 content: [
                   {
@@ -610,7 +1543,7 @@ export function createServer(): McpServer {
 
             const userConfig = await configManager.load();
             const lines = [
-              `Candidate patterns (${candidates.length}, min frequency for promotion: ${userConfig.learning.minFrequency}):`,
+              `Candidate patterns (${candidates.length}, best first, min frequency for promotion: ${userConfig.learning.minFrequency}):`,
               "",
             ];
             for (const c of candidates) {
@@ -619,12 +1552,15 @@ export function createServer(): McpServer {
               const suggestion = c.suggestedReplacement
                 ? ` -> "${c.suggestedReplacement}"`
                 : "";
+              const savings =
+                c.suggestedReplacement && c.tokensSaved !== undefined
+                  ? `, ~${c.tokensSaved} tok/use, ~${c.tokensSaved * c.count} tok total`
+                  : "";
               lines.push(
-                `  "${c.phrase}" (x${c.count})${suggestion}${status}`
+                `  "${c.phrase}" (x${c.count}${savings})${suggestion}${status}`
               );
             }
 
-            const promoted = await phraseStore.getPromoted();
             if (Object.keys(promoted).length > 0) {
               lines.push("");
               lines.push(`Promoted patterns (${Object.keys(promoted).length}):`);
@@ -633,6 +1569,15 @@ export function createServer(): McpServer {
               }
             }
 
+            if (rejected.length > 0) {
+              lines.push("");
+              lines.push(`Blocklist (${rejected.length}):`);
+              for (const r of rejected) {
+                const reason = r.reason ? ` (${r.reason})` : "";
+                lines.push(`  "${r.phrase}"${reason}`);
+              }
+            }
+
             return {
               content: [{ type: "text", text: lines.join("\n") }],
             };
@@ -671,7 +1616,9 @@ export function createServer(): McpServer {
               };
             }
 
-            await phraseStore.promote(args.phrase, replacement);
+            await phraseStore.promote(args.phrase, replacement, {
+              reason: args.reason,
+            });
             return {
               content: [
                 {
@@ -692,14 +1639,79 @@ export function createServer(): McpServer {
               };
             }
 
-            const removed = await phraseStore.reject(args.phrase);
+            const removed = await phraseStore.reject(args.phrase, args.reason);
+            if (!removed) {
+              const promoted = await phraseStore.getPromoted();
+              const hint = Object.hasOwn(promoted, args.phrase.toLowerCase())
+                ? " It is promoted; use the demote action instead."
+                : "";
+              return {
+                content: [
+                  { type: "text", text: `"${args.phrase}" not found in candidates.${hint}` },
+                ],
+              };
+            }
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Rejected: "${args.phrase}" removed from candidates and blocklisted.\nIt won't be suggested again.`,
+                },
+              ],
+            };
+          }
+
+          case "demote": {
+            if (!args.phrase) {
+              return {
+                content: [
+                  { type: "text", text: "Error: 'phrase' is required for demote action." },
+                ],
+                isError: true,
+              };
+            }
+
+            const to = args.to ?? "candidates";
+            const replacement = await phraseStore.demote(args.phrase, to, args.reason);
+            if (replacement === null) {
+              return {
+                content: [
+                  { type: "text", text: `"${args.phrase}" is not a promoted pattern.` },
+                ],
+              };
+            }
+            const where =
+              to === "blocklist"
+                ? "blocklisted. It won't be suggested again."
+                : `moved back to candidates (suggestion "${replacement}").`;
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Demoted: "${args.phrase}" -> "${replacement}" is no longer applied and was ${where}`,
+                },
+              ],
+            };
+          }
+
+          case "unblock": {
+            if (!args.phrase) {
+              return {
+                content: [
+                  { type: "text", text: "Error: 'phrase' is required for unblock action." },
+                ],
+                isError: true,
+              };
+            }
+
+            const unblocked = await phraseStore.unblock(args.phrase, args.reason);
             return {
               content: [
                 {
                   type: "text",
-                  text: removed
-                    ? `Rejected: "${args.phrase}" removed from candidates.`
-                    : `"${args.phrase}" not found in candidates.`,
+                  text: unblocked
+                    ? `Unblocked: "${args.phrase}" can be suggested again.`
+                    : `"${args.phrase}" is not on the blocklist.`,
                 },
               ],
             };
@@ -718,7 +1730,10 @@ export function createServer(): McpServer {
               };
             }
 
-            await phraseStore.promote(args.phrase, args.replacement);
+            await phraseStore.promote(args.phrase, args.replacement, {
+              action: "add",
+              reason: args.reason,
+            });
             return {
               content: [
                 {
@@ -730,13 +1745,13 @@ export function createServer(): McpServer {
           }
 
           case "reset": {
-            await phraseStore.reset();
-            tracker = null;
+            await phraseStore.reset(args.reason);
+            state.resetTracker();
             return {
               content: [
                 {
                   type: "text",
-                  text: "Learning data reset. All candidates, promoted patterns, and stats cleared.",
+                  text: "Learning data reset. All candidates, promoted patterns, blocklist, audit trail and stats cleared.",
                 },
               ],
             };
@@ -746,6 +1761,7 @@ export function createServer(): McpServer {
             const stats = await phraseStore.getStats();
             const candidates = await phraseStore.getCandidates();
             const promoted = await phraseStore.getPromoted();
+            const rejected = await phraseStore.getRejected();
 
             const avgReduction =
               stats.totalCharsOriginal > 0
@@ -767,6 +1783,7 @@ export function createServer(): McpServer {
               "",
               `Candidates: ${candidates.length}`,
               `Promoted: ${Object.keys(promoted).length}`,
+              `Blocklisted: ${rejected.length}`,
               "",
               `Data file: ${PhraseStore.getStorePath()}`,
             ];
@@ -775,6 +1792,111 @@ export function createServer(): McpServer {
               content: [{ type: "text", text: lines.join("\n") }],
             };
           }
+
+          case "export": {
+            const { config: globalConfig } = await configManager.loadGlobal();
+            const pack = await phraseStore.exportPack({
+              name: args.name,
+              customSubstitutions: globalConfig.customSubstitutions,
+            });
+            const counts =
+              `${Object.keys(pack.promoted).length} promoted, ` +
+              `${Object.keys(pack.customSubstitutions).length} custom substitutions, ` +
+              `${Object.keys(pack.rejected).length} blocklisted`;
+
+            if (!args.path) {
+              return {
+                content: [
+                  { type: "text", text: `${JSON.stringify(pack, null, 2)}\n\n---\nPack: ${counts}` },
+                ],
+              };
+            }
+            await LearnedPacks.write(args.path, pack);
+            return {
+              content: [{ type: "text", text: `Exported ${args.path}: ${counts}` }],
+            };
+          }
+
+          case "import": {
+            if (!args.path) {
+              return {
+                content: [
+                  { type: "text", text: "Error: 'path' is required for import action." },
+                ],
+                isError: true,
+              };
+            }
+
+            const pack = await LearnedPacks.read(args.path);
+            const { config: globalConfig } = await configManager.loadGlobal();
+            const result = await phraseStore.importPack(pack, {
+              strategy: args.strategy,
+              resolutions: args.resolutions,
+              customSubstitutions: globalConfig.customSubstitutions,
+              reason: args.reason ?? `imported from ${args.path}`,
+              writeCustomSubstitutions: async (customSubstitutions) => {
+                await configManager.update({ customSubstitutions });
+              },
+            });
+
+            const describe = (value: string | null) =>
+              value === null ? "blocklisted" : `"${value}"`;
+            const conflictLines = result.conflicts.map(
+              (c) =>
+                `  ${c.kind} "${c.phrase}": ours ${describe(c.ours)}, theirs ${describe(c.theirs)}` +
+                (c.resolution ? ` -> ${c.resolution}` : "")
+            );
+
+            if (!result.applied) {
+              const open = result.conflicts.filter((c) => c.resolution === null).length;
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: [
+                      `Nothing imported: ${open} conflict(s) need a decision.`,
+                      "",
+                      ...conflictLines,
+                      "",
+                      'Re-run with strategy "ours" or "theirs", or decide per phrase with resolutions.',
+                    ].join("\n"),
+                  },
+                ],
+              };
+            }
+
+            const customCount = Object.keys(result.customSubstitutions).length;
+            const lines = [
+              `Imported ${args.path}${pack.name ? ` ("${pack.name}")` : ""}: ` +
+                `${result.added} added, ${result.replaced} replaced, ${result.kept} kept, ${result.unchanged} unchanged.`,
+            ];
+            if (customCount > 0) {
+              lines.push(`Custom substitutions written to ${ConfigManager.getConfigPath()}: ${customCount}`);
+            }
+            if (conflictLines.length > 0) {
+              lines.push("", `Conflicts (${conflictLines.length}):`, ...conflictLines);
+            }
+            return {
+              content: [{ type: "text", text: lines.join("\n") }],
+            };
+          }
+
+          case "audit": {
+            const entries = await phraseStore.getAudit(args.limit ?? 20);
+            if (entries.length === 0) {
+              return {
+                content: [{ type: "text", text: "No learning decisions recorded yet." }],
+              };
+            }
+
+            const lines = [`Learning audit trail (newest first, ${entries.length}):`, ""];
+            for (const e of entries) {
+              lines.push(`  ${e.at}  ${formatAuditEntry(e)}`);
+            }
+            return {
+              content: [{ type: "text", text: lines.join("\n") }],
+            };
+          }
         }
       } catch (error) {
         const message =
@@ -801,6 +1923,7 @@ export function createServer(): McpServer {
         const stats = await phraseStore.getStats();
         const candidates = await phraseStore.getCandidates();
         const promoted = await phraseStore.getPromoted();
+        const rejected = await phraseStore.getRejected();
 
         const avgReduction =
           stats.totalCharsOriginal > 0
@@ -837,6 +1960,7 @@ export function createServer(): McpServer {
           "-- Learning Buffer --",
           `Candidates: ${candidates.length} (${readyCandidates.length} ready to promote)`,
           `Promoted: ${Object.keys(promoted).length}`,
+          `Blocklisted: ${rejected.length}`,
         ];
 
         if (readyCandidates.length > 0) {
@@ -864,11 +1988,23 @@ export function createServer(): McpServer {
           }
         }
 
+        const since = new Date(Date.now() - 28 * DAY_MS);
+        const weeks = HistoryLog.aggregate(await history.read(since), "week");
+        if (weeks.length > 0) {
+          lines.push("");
+          lines.push("-- Last 4 Weeks --");
+          for (const week of weeks) {
+            lines.push(
+              `  Week of ${week.key}: ${week.tokensSaved.toLocaleString("en-US")} tokens saved ` +
+                `(${week.compressions} compressions, -${week.reductionPercent}%)`
+            );
+          }
+        }
+
         // Dictionary info
-        const languages = ["en", "ru"] as const;
         lines.push("");
         lines.push("-- Dictionary Info --");
-        for (const lang of languages) {
+        for (const lang of LanguageRegistry.availableLanguages()) {
           const dict = DictionaryLoader.load(userConfig.domain, lang);
           lines.push(
             `  ${lang}: ${dict.abbreviations.size} abbreviations, ` +
@@ -881,6 +2017,7 @@ export function createServer(): McpServer {
         lines.push("");
         lines.push(`Config: ${ConfigManager.getConfigPath()}`);
         lines.push(`Learned: ${PhraseStore.getStorePath()}`);
+        lines.push(`History: ${HistoryLog.getLogPath()}`);
 
         return {
           content: [{ type: "text", text: lines.join("\n") }],
@@ -896,6 +2033,78 @@ export function createServer(): McpServer {
     }
   );
 
+  // -- tksq_history --
+
+  server.tool(
+    "tksq_history",
+    "Show tokens saved over time from the local compression log. Groups compressions " +
+      "by day, week, tool, domain or project. Compressions from the tools and the CLI are logged.",
+    {
+      group_by: z
+        .enum(["day", "week", "tool", "domain", "project"])
+        .optional()
+        .describe("How to group compressions (default: day)"),
+      days: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("How many days back to include (default: 30)"),
+      project: z
+        .string()
+        .optional()
+        .describe(
+          "Only include compressions from this project root directory; \".\" for the current project"
+        ),
+    },
+    async (args) => {
+      try {
+        const by: HistoryGrouping = args.group_by ?? "day";
+        const days = args.days ?? 30;
+        let events = await history.read(new Date(Date.now() - days * DAY_MS));
+
+        let project: string | null = null;
+        if (args.project !== undefined) {
+          project =
+            args.project === "."
+              ? await HistoryLog.projectRoot(process.cwd())
+              : resolvePath(args.project);
+          events = events.filter((e) => e.project === project);
+        }
+
+        const scope = project ? ` in ${project}` : "";
+        if (events.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No compressions logged in the last ${days} days${scope}.\nLog: ${HistoryLog.getLogPath()}`,
+              },
+            ],
+          };
+        }
+
+        const lines = [
+          `Compression history, last ${days} days${scope}, by ${by}:`,
+          "",
+          ...historyTable(HistoryLog.aggregate(events, by), by),
+          "",
+          `Log: ${HistoryLog.getLogPath()}`,
+        ];
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `History error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // -- tksq_agent_prompt --
 
   const AGENT_PROMPTS: Record<string, Record<string, string>> = {
@@ -929,6 +2138,7 @@ export function createServer(): McpServer {
         "When processing results from child agents:",
         "- Child agents return compressed output via tksq_pack",
         "- Read compressed text directly (no decompression needed)",
+        "- If a result ends with a [legend: ...] line, call tksq_expand on it to decode abbreviations",
         "- For your own verbose analysis, call tksq_pack before including in context",
         "- Use tksq_dashboard to monitor compression savings across the session",
       ].join("\n"),
@@ -981,48 +2191,57 @@ export function createServer(): McpServer {
         .describe(
           "Compression level. medium=balanced (default), aggressive=maximum reduction"
         ),
-      language: z
-        .enum(["auto", "en", "ru"])
+      language: languageEnum()
+        .optional()
+        .describe(
+          `Language. auto=detect (default), ${languageList()}`
+        ),
+      legend: z
+        .boolean()
+        .optional()
+        .describe(
+          "Include a [legend: ...] line so the parent can decode abbreviations via tksq_expand"
+        ),
+      profile: z
+        .string()
         .optional()
         .describe(
-          "Language. auto=detect (default), en=English, ru=Russian"
+          "Profile to pack with (default: agent-handoff, or agent-handoff-aggressive for level=aggressive). level overrides the profile's level"
         ),
     },
     async (args) => {
       try {
-        const userConfig = await configManager.load();
+        // The built-in handoff profiles keep code, paths and line numbers
+        const { config: userConfig, stages } = Profiles.apply(
+          await configManager.load(),
+          args.profile ??
+            (args.level === "aggressive" ? "agent-handoff-aggressive" : "agent-handoff")
+        );
 
-        const level: CompressionLevel = args.level ?? "medium";
+        const level: CompressionLevel = args.level ?? userConfig.level;
         const domain: DomainName = userConfig.domain;
         const tokenizer: TokenizerType = userConfig.tokenizer;
         const langSetting: LanguageSetting = args.language ?? userConfig.language;
-        const language = resolveLanguage(langSetting, args.text);
+        const language = resolveLanguage(langSetting, args.text, userConfig.language);
 
         const customSubs = await getPromotedSubstitutions(
           userConfig.customSubstitutions
         );
 
-        const dictionary = DictionaryLoader.load(
-          domain,
-          language,
-          Object.keys(customSubs).length > 0 ? customSubs : undefined
-        );
-
-        // Preserve code blocks, inline code, file paths, line numbers
-        const preservePatterns: RegExp[] = [
-          /`[^`]+`/g, // inline code
-          /```[\s\S]*?```/g, // code blocks
-          /[\w/.\\-]+\.[a-zA-Z]{1,5}(?::\d+)?/g, // file paths with optional line numbers
-          /\bline\s+\d+/gi, // "line 42" references
-        ];
+        const subs = Object.keys(customSubs).length > 0 ? customSubs : undefined;
+        const dictionary = DictionaryLoader.load(domain, language, subs);
 
         const pipelineConfig: PipelineConfig = {
           level,
-          preservePatterns,
+          stages: args.level === undefined ? stages : undefined,
+          preservePatterns: compilePatterns(userConfig.preservePatterns),
           tokenizer,
           dictionary,
+          dictionaryFor: dictionaryFor(langSetting, domain, subs),
+          legend: args.legend,
         };
 
+        const pipeline = await getPipeline();
         const result = await pipeline.compress(args.text, pipelineConfig);
 
         // Track stats
@@ -1036,12 +2255,80 @@ export function createServer(): McpServer {
           );
           await phraseStore.save();
         }
+        await recordHistory({
+          tool: "tksq_pack",
+          level,
+          domain,
+          language,
+          tokenizer,
+          tokensIn: result.stats.originalTokens,
+          tokensOut: result.stats.compressedTokens,
+        });
 
         // Return compressed text with minimal metadata footer
+        const footer = [
+          `[packed: ${result.stats.originalTokens}->${result.stats.compressedTokens} tokens, -${result.stats.reductionPercent}%]`,
+        ];
+        if (result.legend && result.legend.length > 0) {
+          footer.unshift(Legend.format(result.legend));
+        }
+        const output = [result.compressed, "", ...footer].join("\n");
+
+        return {
+          content: [{ type: "text", text: output }],
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Pack error: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -- tksq_expand --
+
+  server.tool(
+    "tksq_expand",
+    "Expand abbreviations and learned acronyms in compressed text back to readable form. " +
+      "Takes text produced by tksq_compress or tksq_pack with legend enabled. " +
+      "The legend is read from the 'legend' argument or from a [legend: ...] line in the text.",
+    {
+      text: z.string().describe("Compressed text, optionally including its [legend: ...] line"),
+      legend: z
+        .string()
+        .optional()
+        .describe(
+          "Legend as emitted by tksq_compress/tksq_pack, e.g. '[legend: fn=function; CP=critical path]'"
+        ),
+    },
+    async (args) => {
+      try {
+        const extracted = Legend.extract(args.text);
+        const entries =
+          args.legend !== undefined ? Legend.parse(args.legend) : extracted.entries;
+
+        if (entries.length === 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: no legend found. Pass 'legend' or include the [legend: ...] line in 'text'.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = Legend.expand(extracted.text, entries);
+
         const output = [
-          result.compressed,
+          result.text,
           "",
-          `[packed: ${result.stats.originalTokens}->${result.stats.compressedTokens} tokens, -${result.stats.reductionPercent}%]`,
+          "---",
+          `Expanded: ${result.expansions} occurrence(s) of ${entries.length} legend entr${entries.length === 1 ? "y" : "ies"}`,
         ].join("\n");
 
         return {
@@ -1051,7 +2338,7 @@ export function createServer(): McpServer {
         const message =
           error instanceof Error ? error.message : String(error);
         return {
-          content: [{ type: "text", text: `Pack error: ${message}` }],
+          content: [{ type: "text", text: `Expand error: ${message}` }],
           isError: true,
         };
       }
@@ -0,0 +1,42 @@
+import { randomBytes } from "node:crypto";
+import { rename, unlink, writeFile } from "node:fs/promises";
+
+// Windows refuses to replace a file another process has open; retry briefly
+const RENAME_RETRIES = 5;
+const RENAME_RETRY_MS = 20;
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+export class AtomicFile {
+  /**
+   * Write via a temp file in the same directory, then rename over the
+   * target. Readers see the old or the new content, never a partial file,
+   * even if the process dies mid-write.
+   */
+  static async write(path: string, content: string): Promise<void> {
+    const temp = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+    try {
+      await writeFile(temp, content, "utf-8");
+      await AtomicFile.replace(temp, path);
+    } catch (error) {
+      await unlink(temp).catch(() => {});
+      throw error;
+    }
+  }
+
+  private static async replace(from: string, to: string): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await rename(from, to);
+        return;
+      } catch (error) {
+        const code = errorCode(error);
+        const retryable = code === "EPERM" || code === "EACCES" || code === "EBUSY";
+        if (!retryable || attempt >= RENAME_RETRIES) throw error;
+        await new Promise((resolve) => setTimeout(resolve, RENAME_RETRY_MS * attempt));
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+
+export interface FileLockOptions {
+  // Give up waiting after this long (default: 5s)
+  timeoutMs?: number;
+  // A lock held longer than this is assumed abandoned (default: 30s)
+  staleMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  // Unique per acquisition, so a holder can tell its lock from a successor's
+  token: string;
+}
+
+export class FileLockTimeoutError extends Error {}
+
+const MIN_RETRY_MS = 10;
+const MAX_RETRY_MS = 200;
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | null)?.code;
+}
+
+/**
+ * Cross-process lock on a file, held as "<path>.lock". The lock file is
+ * created exclusively and records its owner, so a lock left by a crashed
+ * process is taken over once the owner is gone or the lock goes stale.
+ * A holder only releases the lock while it still owns it: one that ran
+ * past `staleMs` and lost it leaves its successor's lock in place.
+ * Not reentrant.
+ */
+export class FileLock {
+  static lockPath(path: string): string {
+    return `${path}.lock`;
+  }
+
+  static async withLock<T>(
+    path: string,
+    fn: () => Promise<T>,
+    options: FileLockOptions = {}
+  ): Promise<T> {
+    const lockPath = FileLock.lockPath(path);
+    const token = await FileLock.acquire(lockPath, options);
+    try {
+      return await fn();
+    } finally {
+      await FileLock.release(lockPath, token);
+    }
+  }
+
+  private static async acquire(
+    lockPath: string,
+    { timeoutMs = 5_000, staleMs = 30_000 }: FileLockOptions
+  ): Promise<string> {
+    const owner: LockOwner = { pid: process.pid, host: hostname(), token: randomUUID() };
+    const deadline = Date.now() + timeoutMs;
+    let delay = MIN_RETRY_MS;
+
+    for (;;) {
+      try {
+        await writeFile(lockPath, JSON.stringify(owner), { encoding: "utf-8", flag: "wx" });
+        return owner.token;
+      } catch (error) {
+        if (errorCode(error) !== "EEXIST") throw error;
+      }
+
+      const stale = await FileLock.readStale(lockPath, staleMs);
+      if (stale !== null) {
+        // Remove the lock judged stale, not one another waiter took over since
+        if ((await FileLock.read(lockPath)) === stale) {
+          await unlink(lockPath).catch(() => {});
+        }
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new FileLockTimeoutError(
+          `Timed out after ${timeoutMs}ms waiting for ${lockPath}. ` +
+            "If no other tksq process is running, delete the lock file."
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay + Math.random() * delay));
+      delay = Math.min(delay * 2, MAX_RETRY_MS);
+    }
+  }
+
+  private static async release(lockPath: string, token: string): Promise<void> {
+    const contents = await FileLock.read(lockPath);
+    if (contents === null || FileLock.parseOwner(contents)?.token !== token) {
+      // Taken over as stale; the new holder releases it
+      return;
+    }
+    await unlink(lockPath).catch(() => {});
+  }
+
+  // Contents of the lock file if it is stale, else null
+  private static async readStale(lockPath: string, staleMs: number): Promise<string | null> {
+    let modified: number;
+    try {
+      modified = (await stat(lockPath)).mtimeMs;
+    } catch {
+      // Released meanwhile
+      return null;
+    }
+    const contents = await FileLock.read(lockPath);
+    if (contents === null) return null;
+    if (Date.now() - modified > staleMs) return contents;
+
+    // Unparsable: the owner hasn't written its details yet
+    const owner = FileLock.parseOwner(contents);
+    const dead =
+      owner?.host === hostname() &&
+      typeof owner.pid === "number" &&
+      !FileLock.isAlive(owner.pid);
+    return dead ? contents : null;
+  }
+
+  private static async read(lockPath: string): Promise<string | null> {
+    return readFile(lockPath, "utf-8").catch(() => null);
+  }
+
+  private static parseOwner(contents: string): Partial<LockOwner> | null {
+    try {
+      return JSON.parse(contents) as Partial<LockOwner>;
+    } catch {
+      return null;
+    }
+  }
+
+  private static isAlive(pid: number): boolean {
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return errorCode(error) === "EPERM";
+    }
+  }
+}
@@ -0,0 +1,193 @@
+export interface JsonCompressOptions {
+  // Drop object fields whose value is null, "", [] or {}
+  dropEmpty: boolean;
+  // Pack arrays of same-shaped objects as { "$cols": [...], "$rows": [[...]] }
+  tabular: boolean;
+}
+
+export interface JsonCompressResult {
+  text: string;
+  droppedFields: number;
+  tabularArrays: number;
+  // Explains the $cols/$rows packing when it was applied
+  legend: string | null;
+}
+
+type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export const TABULAR_LEGEND =
+  '[json: {"$cols":[k1,k2,...],"$rows":[[v1,v2,...],...]} is an array of objects; row i = {k1: v1, k2: v2, ...}]';
+
+// Integers past 2^53 lose precision through JSON.parse
+const UNSAFE_NUMBER = /(?<![\w.])-?\d{16,}/;
+
+export class JsonCompressor {
+  static isJson(text: string): boolean {
+    const trimmed = text.trim();
+    if (trimmed[0] !== "{" && trimmed[0] !== "[") return false;
+    try {
+      JSON.parse(trimmed);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compress a JSON document. Throws if the input is not valid JSON.
+   * The output always parses; with tabular packing it needs the legend to
+   * be read back as the original shape.
+   */
+  static compress(
+    text: string,
+    options: JsonCompressOptions
+  ): JsonCompressResult {
+    const trimmed = text.trim();
+    const value = JSON.parse(trimmed) as JsonValue;
+
+    // Re-serializing would round unsafe integers; only strip whitespace
+    if (UNSAFE_NUMBER.test(JsonCompressor.stripStrings(trimmed))) {
+      return {
+        text: JsonCompressor.minify(trimmed),
+        droppedFields: 0,
+        tabularArrays: 0,
+        legend: null,
+      };
+    }
+
+    const counters = { droppedFields: 0, tabularArrays: 0 };
+    let result = value;
+    if (options.dropEmpty) {
+      result = JsonCompressor.dropEmpty(result, counters);
+    }
+    if (options.tabular) {
+      result = JsonCompressor.tabulate(result, counters);
+    }
+
+    return {
+      text: JSON.stringify(result),
+      ...counters,
+      legend: counters.tabularArrays > 0 ? TABULAR_LEGEND : null,
+    };
+  }
+
+  /**
+   * Remove whitespace outside string literals without parsing.
+   */
+  static minify(text: string): string {
+    let out = "";
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        out += ch;
+        if (ch === "\\") {
+          out += text[++i] ?? "";
+        } else if (ch === '"') {
+          inString = false;
+        }
+      } else if (ch === '"') {
+        inString = true;
+        out += ch;
+      } else if (!/\s/.test(ch)) {
+        out += ch;
+      }
+    }
+    return out;
+  }
+
+  private static stripStrings(text: string): string {
+    return text.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+  }
+
+  private static isEmpty(value: JsonValue): boolean {
+    if (value === null || value === "") return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === "object") return Object.keys(value).length === 0;
+    return false;
+  }
+
+  private static dropEmpty(
+    value: JsonValue,
+    counters: { droppedFields: number }
+  ): JsonValue {
+    if (Array.isArray(value)) {
+      // Array positions are meaningful; only recurse
+      return value.map((v) => JsonCompressor.dropEmpty(v, counters));
+    }
+    if (value !== null && typeof value === "object") {
+      // Null prototype so a "__proto__" key stays a plain field
+      const out: { [key: string]: JsonValue } = Object.create(null);
+      for (const [key, child] of Object.entries(value)) {
+        const cleaned = JsonCompressor.dropEmpty(child, counters);
+        if (JsonCompressor.isEmpty(cleaned)) {
+          counters.droppedFields++;
+          continue;
+        }
+        out[key] = cleaned;
+      }
+      return out;
+    }
+    return value;
+  }
+
+  private static tabulate(
+    value: JsonValue,
+    counters: { tabularArrays: number }
+  ): JsonValue {
+    if (Array.isArray(value)) {
+      const items = value.map((v) => JsonCompressor.tabulate(v, counters));
+      const columns = JsonCompressor.sharedShape(items);
+      if (!columns) return items;
+
+      counters.tabularArrays++;
+      return {
+        $cols: columns,
+        $rows: items.map((item) =>
+          columns.map((c) => (item as { [key: string]: JsonValue })[c])
+        ),
+      };
+    }
+    if (value !== null && typeof value === "object") {
+      // Null prototype so a "__proto__" key stays a plain field
+      const out: { [key: string]: JsonValue } = Object.create(null);
+      for (const [key, child] of Object.entries(value)) {
+        out[key] = JsonCompressor.tabulate(child, counters);
+      }
+      return out;
+    }
+    return value;
+  }
+
+  /**
+   * Column list if every item is a non-empty object with the same key set.
+   */
+  private static sharedShape(items: JsonValue[]): string[] | null {
+    if (items.length < 2) return null;
+    let columns: string[] | null = null;
+    for (const item of items) {
+      if (item === null || typeof item !== "object" || Array.isArray(item)) {
+        return null;
+      }
+      const keys = Object.keys(item);
+      if (keys.length === 0) return null;
+      if (!columns) {
+        columns = keys;
+        continue;
+      }
+      if (
+        keys.length !== columns.length ||
+        !columns.every((c) => Object.prototype.hasOwnProperty.call(item, c))
+      ) {
+        return null;
+      }
+    }
+    return columns;
+  }
+}
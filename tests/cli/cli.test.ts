@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Cli } from "../../src/cli/Cli.js";
+
+const PROSE =
+  "In order to deploy the service, it is important to note that the configuration must be valid.";
+
+function makeCli(stdin = "") {
+  const out: string[] = [];
+  const err: string[] = [];
+  const cli = new Cli({
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    readStdin: async () => stdin,
+  });
+  return { cli, stdout: () => out.join(""), stderr: () => err.join("") };
+}
+
+describe("Cli", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-cli-"));
+    // Keep the user's config and learned patterns out of the tests
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("compresses stdin to plain text", async () => {
+    const { cli, stdout } = makeCli(PROSE);
+    const code = await cli.run(["compress", "-", "--tokenizer", "approximate"]);
+
+    expect(code).toBe(0);
+    expect(stdout()).not.toMatch(/in order to/i);
+    expect(stdout()).toMatch(/deploy the service/);
+  });
+
+  it("compresses a file to JSON with the tool's flags", async () => {
+    const file = join(dir, "input.txt");
+    await writeFile(file, PROSE, "utf-8");
+    const { cli, stdout } = makeCli();
+
+    const code = await cli.run([
+      "compress",
+      file,
+      "--json",
+      "--level",
+      "aggressive",
+      "--domain",
+      "programming",
+      "--tokenizer",
+      "approximate",
+      "--content-type",
+      "prose",
+    ]);
+
+    expect(code).toBe(0);
+    const report = JSON.parse(stdout());
+    expect(report.level).toBe("aggressive");
+    expect(report.domain).toBe("programming");
+    expect(report.compressed).toContain("config");
+    expect(report.stats.compressedTokens).toBeLessThan(report.stats.originalTokens);
+  });
+
+  it("writes to --output and prints stats", async () => {
+    const output = join(dir, "out.txt");
+    const { cli, stdout } = makeCli(PROSE);
+
+    await cli.run(["compress", "-o", output, "-t", "approximate"]);
+
+    expect(stdout()).toMatch(/^Tokens: \d+ -> \d+/);
+    expect(await readFile(output, "utf-8")).not.toMatch(/in order to/i);
+  });
+
+  it("compresses a directory tree and reports totals", async () => {
+    const input = join(dir, "docs");
+    const output = join(dir, "compressed");
+    await mkdir(join(input, "guide"), { recursive: true });
+    await writeFile(join(input, "readme.md"), PROSE, "utf-8");
+    await writeFile(join(input, "guide", "setup.txt"), PROSE, "utf-8");
+    await writeFile(join(input, "script.js"), "const a = 1;", "utf-8");
+    const { cli, stdout } = makeCli();
+
+    const code = await cli.run(["compress", input, "-o", output, "--json", "-t", "approximate"]);
+
+    expect(code).toBe(0);
+    const report = JSON.parse(stdout());
+    expect(report.files.map((f: { path: string }) => f.path)).toEqual([
+      "guide/setup.txt",
+      "readme.md",
+    ]);
+    expect(report.total.files).toBe(2);
+    expect(report.total.compressedTokens).toBeLessThan(report.total.originalTokens);
+    expect(await readFile(join(output, "guide", "setup.txt"), "utf-8")).not.toMatch(/in order to/i);
+  });
+
+  it("requires --output in directory mode", async () => {
+    const { cli, stderr } = makeCli();
+    expect(await cli.run(["compress", dir])).toBe(2);
+    expect(stderr()).toContain("Directory mode needs --output");
+  });
+
+  it("counts tokens", async () => {
+    const { cli, stdout } = makeCli("one two three");
+    await cli.run(["count", "--json", "-t", "approximate"]);
+
+    const report = JSON.parse(stdout());
+    expect(report.words).toBe(3);
+    expect(report.tokenizer).toBe("approximate");
+  });
+
+  it("diffs the input against its compression", async () => {
+    const { cli, stdout } = makeCli(PROSE);
+    await cli.run(["diff", "-t", "approximate"]);
+
+    expect(stdout()).toContain("[-");
+    expect(stdout()).toMatch(/Words removed: \d+/);
+  });
+
+  it("benchmarks every level", async () => {
+    const { cli, stdout } = makeCli(PROSE);
+    await cli.run(["benchmark", "--json", "-t", "approximate"]);
+
+    const report = JSON.parse(stdout());
+    expect(report.levels.map((l: { level: string }) => l.level)).toEqual([
+      "light",
+      "medium",
+      "aggressive",
+    ]);
+  });
+
+  it("compresses with a named profile", async () => {
+    const text = "See `cfg.load()` in src/config.ts:42. " + PROSE;
+    const { cli, stdout } = makeCli(text);
+
+    expect(await cli.run(["compress", "--profile", "agent-handoff-aggressive", "--json", "-t", "approximate"])).toBe(0);
+    const report = JSON.parse(stdout());
+    expect(report.level).toBe("aggressive");
+    expect(report.compressed).toContain("`cfg.load()` in src/config.ts:42");
+
+    const unknown = makeCli(PROSE);
+    expect(await unknown.cli.run(["compress", "--profile", "nope"])).toBe(2);
+    expect(unknown.stderr()).toContain('Unknown profile "nope"');
+  });
+
+  it("rejects invalid flags with usage", async () => {
+    const { cli, stderr } = makeCli(PROSE);
+
+    expect(await cli.run(["compress", "--level", "extreme"])).toBe(2);
+    expect(stderr()).toContain('Invalid --level "extreme"');
+    expect(stderr()).toContain("Usage: tksq");
+
+    expect(await cli.run(["compress", "--nope"])).toBe(2);
+    expect(await cli.run(["explode"])).toBe(2);
+  });
+
+  it("reports runtime errors with exit code 1", async () => {
+    const { cli, stderr } = makeCli();
+    expect(await cli.run(["count", join(dir, "missing.txt")])).toBe(1);
+    expect(stderr()).toContain("tksq:");
+  });
+});
+
+describe("package entry", () => {
+  it("does not run the CLI when imported", async () => {
+    const run = vi.spyOn(Cli.prototype, "run");
+    const api = await import("../../src/index.js");
+    expect(api.Pipeline).toBeDefined();
+    expect(run).not.toHaveBeenCalled();
+    run.mockRestore();
+  });
+});
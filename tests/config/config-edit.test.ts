@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { ConfigSchema } from "../../src/config/schema.js";
+import { PatternPreserver } from "../../src/pipeline/preserver/PatternPreserver.js";
+import { createServer } from "../../src/server.js";
+
+describe("ConfigSchema.patternError", () => {
+  it("accepts ordinary patterns", () => {
+    expect(ConfigSchema.patternError("TICKET-\\d+")).toBeNull();
+  });
+
+  it("rejects invalid and empty-matching patterns", () => {
+    expect(ConfigSchema.patternError("(unclosed")).toBe("Invalid regular expression");
+    expect(ConfigSchema.patternError("a*")).toBe("Pattern matches the empty string");
+    expect(ConfigSchema.patternError("\\b")).toBe("Pattern matches the empty string");
+    expect(ConfigSchema.patternError("x|")).toBe("Pattern matches the empty string");
+  });
+
+  it("does not stall the preserver on empty matches", () => {
+    const regions = new PatternPreserver().findRegions("keep KEEP-1 here", [/K*/g]);
+    expect(regions.map((r) => r.text)).toEqual(["K"]);
+  });
+});
+
+describe("editing substitutions and patterns", () => {
+  let dir: string;
+  let manager: ConfigManager;
+
+  async function saved(): Promise<Record<string, any>> {
+    return JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-edit-"));
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    await writeFile(
+      ConfigManager.getConfigPath(),
+      JSON.stringify({
+        customSubstitutions: { "pull request": "PR", databse: "db", "for example": "e.g." },
+        preservePatterns: ["TICKET-\\d+", "SVC-\\w+"],
+      }),
+      "utf-8"
+    );
+    manager = new ConfigManager({ cwd: dir, env: {} });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("removes, renames and replaces substitutions", async () => {
+    await manager.removeSubstitutions(["for example"]);
+    await manager.renameSubstitution("databse", "database");
+    expect((await saved()).customSubstitutions).toEqual({ "pull request": "PR", database: "db" });
+
+    await manager.replaceSubstitutions({ repository: "repo" });
+    expect((await saved()).customSubstitutions).toEqual({ repository: "repo" });
+
+    await expect(manager.removeSubstitutions(["missing"])).rejects.toThrow(
+      'No custom substitution "missing"'
+    );
+    await expect(manager.renameSubstitution("repository", "repository")).rejects.toThrow(
+      "already exists"
+    );
+  });
+
+  it("edits preserve patterns in place and validates them", async () => {
+    await manager.renamePreservePattern("TICKET-\\d+", "JIRA-\\d+");
+    await manager.addPreservePatterns(["v\\d+\\.\\d+"]);
+    await manager.removePreservePatterns(["SVC-\\w+"]);
+    expect((await saved()).preservePatterns).toEqual(["JIRA-\\d+", "v\\d+\\.\\d+"]);
+
+    await expect(manager.addPreservePatterns(["a*"])).rejects.toThrow(
+      'Invalid preserve pattern "a*": Pattern matches the empty string'
+    );
+    await expect(manager.replacePreservePatterns(["(bad"])).rejects.toThrow(
+      "Invalid regular expression"
+    );
+    await expect(manager.update({ preservePatterns: [""] })).rejects.toThrow(
+      "Pattern matches the empty string"
+    );
+    expect((await saved()).preservePatterns).toEqual(["JIRA-\\d+", "v\\d+\\.\\d+"]);
+  });
+
+  it("exposes the edits as tksq_configure actions", async () => {
+    const handler = (createServer() as any)._registeredTools["tksq_configure"].handler;
+
+    const removed = await handler({ substitution_action: "remove", remove: ["databse"] }, {});
+    expect(removed.content[0].text).toContain("Updated custom substitutions (remove)");
+    expect(removed.content[0].text).not.toContain("databse");
+
+    const renamed = await handler(
+      { pattern_action: "rename", from: "SVC-\\w+", to: "SVC-[A-Z]+" },
+      {}
+    );
+    expect(renamed.content[0].text).toContain("SVC-[A-Z]+");
+
+    const rejected = await handler({ pattern_action: "add", preserve_patterns: ["\\s*"] }, {});
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0].text).toContain("matches the empty string");
+
+    const missing = await handler({ substitution_action: "rename", from: "pull request" }, {});
+    expect(missing.content[0].text).toContain("to is required to rename custom substitutions");
+  });
+
+  it("does not let tksq_configure set stage plugins", () => {
+    const tool = (createServer() as any)._registeredTools["tksq_configure"];
+    expect(Object.keys(tool.inputSchema.shape)).not.toContain("stage_plugins");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { createServer } from "../../src/server.js";
+
+describe("ConfigManager cascade", () => {
+  let dir: string;
+  let repo: string;
+  let nested: string;
+
+  async function writeJson(path: string, value: unknown): Promise<void> {
+    await writeFile(path, JSON.stringify(value), "utf-8");
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-config-"));
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+    repo = join(dir, "repo");
+    nested = join(repo, "packages", "api");
+    await mkdir(nested, { recursive: true });
+    await mkdir(join(dir, "config", "tksq"), { recursive: true });
+    await writeJson(ConfigManager.getConfigPath(), {
+      level: "light",
+      domain: "legal",
+      preservePatterns: ["TICKET-\\d+"],
+      customSubstitutions: { "pull request": "PR", database: "db" },
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("uses the global config when no project file is found", async () => {
+    const resolved = await new ConfigManager({ cwd: nested, env: {} }).resolve();
+
+    expect(resolved.projectPath).toBeNull();
+    expect(resolved.config.level).toBe("light");
+    expect(resolved.sources.level).toEqual(["global"]);
+    expect(resolved.sources.tokenizer).toEqual(["default"]);
+  });
+
+  it("merges the nearest .tksqrc over the global config", async () => {
+    await writeJson(join(repo, ".tksqrc"), {
+      domain: "programming",
+      preservePatterns: ["SVC-[A-Z]+"],
+      customSubstitutions: { database: "DB", repository: "repo" },
+    });
+    const resolved = await new ConfigManager({ cwd: nested, env: {} }).resolve();
+    const { config, sources } = resolved;
+
+    expect(resolved.projectPath).toBe(join(repo, ".tksqrc"));
+    expect(config.level).toBe("light");
+    expect(config.domain).toBe("programming");
+    expect(sources.domain).toEqual(["project"]);
+    expect(config.preservePatterns).toEqual(["TICKET-\\d+", "SVC-[A-Z]+"]);
+    expect(sources.preservePatterns).toEqual(["global", "project"]);
+    expect(config.customSubstitutions).toEqual({
+      "pull request": "PR",
+      database: "DB",
+      repository: "repo",
+    });
+  });
+
+  it("puts TKSQ_* variables on top and reports invalid ones", async () => {
+    await writeJson(join(repo, ".tksqrc"), { level: "medium" });
+    const resolved = await new ConfigManager({
+      cwd: repo,
+      env: { TKSQ_LEVEL: "aggressive", TKSQ_TOKENIZER: "gpt2" },
+    }).resolve();
+
+    expect(resolved.config.level).toBe("aggressive");
+    expect(resolved.sources.level).toEqual(["env"]);
+    expect(resolved.config.tokenizer).toBe("cl100k_base");
+    expect(resolved.warnings).toEqual([
+      expect.stringContaining('Ignored TKSQ_TOKENIZER="gpt2"'),
+    ]);
+  });
+
+  it("ignores invalid project settings and global-only keys", async () => {
+    await writeJson(join(repo, ".tksqrc"), { level: "extreme", domain: "programming" });
+    const invalid = await new ConfigManager({ cwd: repo, env: {} }).resolve();
+    expect(invalid.config.level).toBe("light");
+    expect(invalid.config.domain).toBe("programming");
+    expect(invalid.warnings[0]).toContain(`${join(repo, ".tksqrc")}: level: Invalid enum value`);
+
+    await writeJson(join(repo, ".tksqrc"), { stagePlugins: ["./evil.js"] });
+    const globalOnly = await new ConfigManager({ cwd: repo, env: {} }).resolve();
+    expect(globalOnly.config.stagePlugins).toEqual([]);
+    expect(globalOnly.warnings[0]).toContain("stagePlugins: Can only be set in the global config");
+  });
+
+  it("writes updates to the global layer only", async () => {
+    await writeJson(join(repo, ".tksqrc"), { domain: "programming" });
+    const manager = new ConfigManager({ cwd: repo, env: { TKSQ_LEVEL: "aggressive" } });
+
+    const effective = await manager.update({ tokenizer: "approximate" });
+
+    expect(effective.tokenizer).toBe("approximate");
+    expect(effective.domain).toBe("programming");
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved.domain).toBe("legal");
+    expect(saved.level).toBe("light");
+  });
+
+  it("serializes concurrent updates from separate managers", async () => {
+    const managers = [0, 1, 2].map(() => new ConfigManager({ cwd: repo, env: {} }));
+
+    await Promise.all([
+      managers[0].update({ tokenizer: "approximate" }),
+      managers[1].update({ customSubstitutions: { repository: "repo" } }),
+      managers[2].update({ customSubstitutions: { environment: "env" } }),
+    ]);
+
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved.tokenizer).toBe("approximate");
+    expect(saved.customSubstitutions).toMatchObject({ repository: "repo", environment: "env" });
+    expect(existsSync(`${ConfigManager.getConfigPath()}.lock`)).toBe(false);
+  });
+
+  it("shows the source of each setting in tksq_configure", async () => {
+    await writeJson(join(repo, ".tksqrc"), { domain: "programming" });
+    vi.spyOn(process, "cwd").mockReturnValue(nested);
+    vi.stubEnv("TKSQ_LEVEL", "aggressive");
+    const handler = (createServer() as any)._registeredTools["tksq_configure"].handler;
+
+    const shown = (await handler({}, {})).content[0].text;
+    expect(shown).toContain("Level: aggressive (env TKSQ_LEVEL)");
+    expect(shown).toContain("Domain: programming (project)");
+    expect(shown).toContain("Tokenizer: cl100k_base (default)");
+    expect(shown).toContain(`Project config: ${join(repo, ".tksqrc")}`);
+
+    const updated = (await handler({ level: "medium" }, {})).content[0].text;
+    expect(updated).toContain("Note: level is overridden by TKSQ_LEVEL");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, readFile, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { ConfigSchema, CONFIG_VERSION } from "../../src/config/schema.js";
+import { createServer } from "../../src/server.js";
+
+describe("ConfigSchema", () => {
+  it("reports field paths and keeps valid fields", () => {
+    const { value, issues } = ConfigSchema.validate({
+      level: "agressive",
+      domain: "legal",
+      learning: { minFrequency: "5" },
+      preservePatterns: ["ok", "(unclosed"],
+      levle: "light",
+    });
+
+    expect(value).toEqual({ domain: "legal" });
+    expect(issues).toEqual([
+      expect.stringMatching(/^level: Invalid enum value.*received 'agressive'/),
+      "learning.minFrequency: Expected number, received string",
+      "preservePatterns.1: Invalid regular expression",
+      "levle: Unrecognized setting (ignored)",
+    ]);
+  });
+
+  it("migrates unversioned files to the current version", () => {
+    const { config, from, issues } = ConfigSchema.migrate({ level: "light" });
+    expect(from).toBe(1);
+    expect(config).toEqual({ level: "light", version: CONFIG_VERSION });
+    expect(issues).toEqual([]);
+  });
+
+  it("flags files from a newer version", () => {
+    const { issues } = ConfigSchema.migrate({ version: CONFIG_VERSION + 1 });
+    expect(issues[0]).toContain("written by a newer tksq");
+  });
+
+  it("falls back to defaults for unusable versions", () => {
+    for (const version of [0, -1, 1.5, "2", null]) {
+      const { config, issues } = ConfigSchema.migrate({ version, level: "light" });
+      expect(config).toEqual({});
+      expect(issues).toEqual([
+        `version: Expected an integer of at least 1, received ${JSON.stringify(version)}; using defaults until the file is fixed`,
+      ]);
+    }
+  });
+});
+
+describe("ConfigManager validation", () => {
+  let dir: string;
+
+  async function writeConfig(text: string): Promise<void> {
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    await writeFile(ConfigManager.getConfigPath(), text, "utf-8");
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-schema-"));
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps valid settings when one is invalid", async () => {
+    await writeConfig(JSON.stringify({ level: "agressive", domain: "legal" }));
+    const resolved = await new ConfigManager({ cwd: dir, env: {} }).resolve();
+
+    expect(resolved.config.level).toBe("medium");
+    expect(resolved.config.domain).toBe("legal");
+    expect(resolved.warnings).toEqual([
+      expect.stringContaining(`${ConfigManager.getConfigPath()}: level: Invalid enum value`),
+    ]);
+  });
+
+  it("reports broken JSON instead of silently using defaults", async () => {
+    await writeConfig('{ "level": "light", }');
+    const resolved = await new ConfigManager({ cwd: dir, env: {} }).resolve();
+
+    expect(resolved.config.level).toBe("medium");
+    expect(resolved.warnings[0]).toContain("Invalid JSON");
+  });
+
+  it("backs up the previous file and writes the current version", async () => {
+    const original = JSON.stringify({ level: "light" });
+    await writeConfig(original);
+
+    await new ConfigManager({ cwd: dir, env: {} }).update({ domain: "legal" });
+
+    expect(await readFile(ConfigManager.getBackupPath(), "utf-8")).toBe(original);
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved).toMatchObject({ version: CONFIG_VERSION, level: "light", domain: "legal" });
+  });
+
+  it("rejects invalid updates and never overwrites newer files", async () => {
+    const manager = new ConfigManager({ cwd: dir, env: {} });
+    await expect(
+      manager.update({ level: "extreme" } as never)
+    ).rejects.toThrow("Invalid config: level: Invalid enum value");
+
+    await writeConfig(JSON.stringify({ version: CONFIG_VERSION + 1, level: "light" }));
+    await expect(manager.update({ domain: "legal" })).rejects.toThrow("written by a newer tksq");
+  });
+
+  it("loads defaults for an unusable version and never overwrites the file", async () => {
+    const original = JSON.stringify({ version: 1.5, level: "light" });
+    await writeConfig(original);
+    const manager = new ConfigManager({ cwd: dir, env: {} });
+
+    const resolved = await manager.resolve();
+    expect(resolved.config.level).toBe("medium");
+    expect(resolved.warnings[0]).toContain("version: Expected an integer of at least 1");
+
+    await expect(manager.update({ domain: "legal" })).rejects.toThrow("not overwriting it");
+    expect(await readFile(ConfigManager.getConfigPath(), "utf-8")).toBe(original);
+  });
+
+  it("keeps invalid and unknown settings when saving other changes", async () => {
+    await writeConfig(JSON.stringify({ level: "agressive", levle: "light", domain: "legal" }));
+    const manager = new ConfigManager({ cwd: dir, env: {} });
+
+    await manager.update({ tokenizer: "approximate" });
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved).toMatchObject({ level: "agressive", levle: "light", tokenizer: "approximate" });
+    expect((await manager.resolve()).warnings).toEqual([
+      expect.stringContaining("level: Invalid enum value"),
+      expect.stringContaining("levle: Unrecognized setting"),
+    ]);
+
+    // Setting it replaces the invalid value
+    await manager.update({ level: "light" });
+    const fixed = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(fixed.level).toBe("light");
+  });
+
+  it("refuses to edit a setting that is invalid in the file", async () => {
+    await writeConfig(JSON.stringify({ preservePatterns: ["JIRA-\\d+", "(unclosed"] }));
+    const manager = new ConfigManager({ cwd: dir, env: {} });
+
+    await expect(manager.addPreservePatterns(["v\\d+"])).rejects.toThrow(
+      "preservePatterns in"
+    );
+    await manager.replacePreservePatterns(["v\\d+"]);
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved.preservePatterns).toEqual(["v\\d+"]);
+  });
+
+  it("shows load problems in tksq_configure", async () => {
+    await writeConfig(JSON.stringify({ level: "agressive" }));
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const handler = (createServer() as any)._registeredTools["tksq_configure"].handler;
+
+    const text = (await handler({}, {})).content[0].text;
+    expect(text).toContain("Warning: ");
+    expect(text).toContain("level: Invalid enum value");
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Profiles, BUILT_IN_PROFILES } from "../../src/config/profiles.js";
+import { DEFAULT_CONFIG } from "../../src/config/defaults.js";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { createServer } from "../../src/server.js";
+
+const PROSE =
+  "In order to deploy the service, it is important to note that the configuration must be valid.";
+
+describe("Profiles", () => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    preservePatterns: ["KEEP-\\d+"],
+    profiles: { legal: { level: "light" as const, domain: "legal" as const } },
+  };
+
+  it("applies a profile over the config", () => {
+    const applied = Profiles.apply(config, "legal");
+    expect(applied.profile).toBe("legal");
+    expect(applied.config.level).toBe("light");
+    expect(applied.config.domain).toBe("legal");
+    expect(applied.config.preservePatterns).toEqual(["KEEP-\\d+"]);
+  });
+
+  it("falls back to the active profile, then to the config", () => {
+    expect(Profiles.apply({ ...config, activeProfile: "legal" }).profile).toBe("legal");
+    expect(Profiles.apply(config)).toEqual({ config, profile: null });
+  });
+
+  it("mirrors tksq_pack in the built-in handoff profiles", () => {
+    const applied = Profiles.apply(config, "agent-handoff");
+    expect(applied.config.level).toBe("medium");
+    expect(applied.config.preservePatterns).toBe(BUILT_IN_PROFILES["agent-handoff"].preservePatterns);
+    expect(Profiles.get(config, "agent-handoff-aggressive").level).toBe("aggressive");
+  });
+
+  it("preserves line references in any case", () => {
+    const patterns = BUILT_IN_PROFILES["agent-handoff"].preservePatterns!.map(
+      (p) => new RegExp(p)
+    );
+    for (const ref of ["line 42", "Line 42", "LINE 42"]) {
+      expect(patterns.some((p) => p.test(`see ${ref} for details`))).toBe(true);
+    }
+  });
+
+  it("rejects unknown profiles and built-in names", () => {
+    expect(() => Profiles.apply(config, "nope")).toThrow('Unknown profile "nope"');
+    expect(() => Profiles.validateName("agent-handoff")).toThrow("built in");
+    expect(() => Profiles.validateName("two words")).toThrow("Invalid profile name");
+  });
+});
+
+describe("profile tools", () => {
+  let dir: string;
+
+  function tool(name: string) {
+    return (createServer() as any)._registeredTools[name].handler;
+  }
+
+  async function run(name: string, args: Record<string, unknown>): Promise<any> {
+    return tool(name)(args, {});
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-profiles-"));
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates, lists, activates and deletes profiles", async () => {
+    const created = await run("tksq_configure", {
+      profile_action: "create",
+      profile_name: "code-review",
+      level: "aggressive",
+      domain: "programming",
+      stages: ["cleanup", "semantic"],
+    });
+    expect(created.content[0].text).toContain('Created profile "code-review"');
+
+    await run("tksq_configure", { profile_action: "activate", profile_name: "code-review" });
+    const list = (await run("tksq_configure", { profile_action: "list" })).content[0].text;
+    expect(list).toContain("* code-review: level=aggressive domain=programming stages=cleanup,semantic");
+    expect(list).toContain("agent-handoff [built-in]");
+
+    const saved = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(saved.activeProfile).toBe("code-review");
+
+    await run("tksq_configure", { profile_action: "delete", profile_name: "code-review" });
+    const after = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(after.profiles).toEqual({});
+    expect(after.activeProfile).toBeNull();
+  });
+
+  it("validates profile input", async () => {
+    const badStage = await run("tksq_configure", {
+      profile_action: "create",
+      profile_name: "broken",
+      stages: ["nope"],
+    });
+    expect(badStage.isError).toBe(true);
+    expect(badStage.content[0].text).toContain("Unknown stage(s): nope");
+
+    const builtIn = await run("tksq_configure", {
+      profile_action: "delete",
+      profile_name: "agent-handoff",
+    });
+    expect(builtIn.content[0].text).toContain("built in");
+  });
+
+  it("compresses with a named profile's stages", async () => {
+    await run("tksq_configure", {
+      profile_action: "create",
+      profile_name: "cleanup-only",
+      stages: ["cleanup"],
+      tokenizer: "approximate",
+    });
+
+    const result = await run("tksq_compress", { text: PROSE, profile: "cleanup-only" });
+    const text: string = result.content[0].text;
+    expect(text).toContain("Profile: cleanup-only");
+    expect(text).toMatch(/Stages:\n {2}Cleanup: [^\n]+$/);
+
+    const unknown = await run("tksq_diff", { original: PROSE, profile: "missing" });
+    expect(unknown.isError).toBe(true);
+  });
+
+  it("adds the profile as a benchmark row", async () => {
+    await run("tksq_configure", {
+      profile_action: "create",
+      profile_name: "legal-review",
+      level: "light",
+      domain: "legal",
+    });
+    const text = (await run("tksq_benchmark", {
+      text: PROSE,
+      tokenizer: "approximate",
+      profile: "legal-review",
+    })).content[0].text;
+
+    expect(text).toContain("Domain: legal");
+    expect(text).toMatch(/^legal-review\s+\|/m);
+  });
+});
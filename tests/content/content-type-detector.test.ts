@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { ContentTypeDetector } from "../../src/content/ContentTypeDetector.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import type { PipelineConfig } from "../../src/pipeline/stages/IStage.js";
+
+const YAML = [
+  "server:",
+  "  host: localhost",
+  "  port: 8080",
+  "  basically: true",
+  "logging:",
+  "  level:   debug",
+  "  targets:",
+  "    - stdout",
+  "    - file",
+].join("\n");
+
+const STACK_TRACE = [
+  "2024-05-01T10:00:00Z ERROR Request failed",
+  "TypeError: Cannot read properties of undefined (reading 'id')",
+  "    at getUser (/app/src/users.js:42:13)",
+  "    at processTicksAndRejections (node:internal/process/task_queues:95:5)",
+  "    at async handler (/app/src/routes.js:10:5)",
+].join("\n");
+
+const CODE = [
+  "import { readFile } from \"node:fs/promises\";",
+  "",
+  "export async function load(path) {",
+  "  const raw = await readFile(path,   \"utf-8\");",
+  "  return JSON.parse(raw);",
+  "}",
+].join("\n");
+
+describe("ContentTypeDetector", () => {
+  it("detects prose", () => {
+    expect(
+      ContentTypeDetector.detect(
+        "In order to understand this, it is important to note that the " +
+          "implementation handles the configuration for every user."
+      )
+    ).toBe("prose");
+  });
+
+  it("detects JSON as structured", () => {
+    expect(ContentTypeDetector.detect('{"a": 1, "b": [1, 2, 3]}')).toBe("structured");
+  });
+
+  it("detects YAML as structured", () => {
+    expect(ContentTypeDetector.detect(YAML)).toBe("structured");
+  });
+
+  it("detects CSV as structured", () => {
+    expect(
+      ContentTypeDetector.detect("id,name,role\n1,ann,admin\n2,bob,user\n3,cy,user")
+    ).toBe("structured");
+  });
+
+  it("detects logs and stack traces", () => {
+    expect(ContentTypeDetector.detect(STACK_TRACE)).toBe("log");
+    expect(
+      ContentTypeDetector.detect(
+        "Traceback (most recent call last):\n" +
+          '  File "/app/main.py", line 3, in <module>\n' +
+          "    main()\n" +
+          '  File "/app/main.py", line 1, in main\n'
+      )
+    ).toBe("log");
+  });
+
+  it("detects source code", () => {
+    expect(ContentTypeDetector.detect(CODE)).toBe("code");
+  });
+
+  it("treats prose around fenced code as prose", () => {
+    expect(
+      ContentTypeDetector.detect(
+        "Here is how the loader works in practice today:\n```js\n" + CODE + "\n```"
+      )
+    ).toBe("prose");
+  });
+
+  it("defaults to prose for empty text", () => {
+    expect(ContentTypeDetector.detect("")).toBe("prose");
+  });
+});
+
+describe("Pipeline content routing", () => {
+  const pipeline = new Pipeline();
+
+  function makeConfig(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+    return {
+      level: "aggressive",
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("programming"),
+      ...overrides,
+    };
+  }
+
+  it("leaves YAML intact on aggressive", async () => {
+    const result = await pipeline.compress(YAML, makeConfig());
+    expect(result.stats.contentType).toBe("structured");
+    expect(result.compressed).toBe(YAML);
+    expect(result.stats.stageBreakdown.map((s) => s.stage)).toEqual(["Cleanup", "Json"]);
+  });
+
+  it("routes logs through the log stage only", async () => {
+    const result = await pipeline.compress(STACK_TRACE, makeConfig());
+    expect(result.stats.contentType).toBe("log");
+    expect(result.stats.stageBreakdown.map((s) => s.stage)).toEqual(["Cleanup", "Log"]);
+    expect(result.compressed).toContain("at getUser (/app/src/users.js:42:13)");
+    expect(result.compressed).toContain("Cannot read properties of undefined");
+  });
+
+  it("keeps code spacing and identifiers", async () => {
+    const result = await pipeline.compress(CODE, makeConfig());
+    expect(result.stats.contentType).toBe("code");
+    expect(result.compressed).toBe(CODE);
+  });
+
+  it("honors an explicit content type override", async () => {
+    const text = "It is important to note that the function works.";
+    const asCode = await pipeline.compress(text, makeConfig({ contentType: "code" }));
+    expect(asCode.stats.contentType).toBe("code");
+    expect(asCode.compressed).toBe(text);
+
+    const asProse = await pipeline.compress(text, makeConfig({ contentType: "prose" }));
+    expect(asProse.compressed.length).toBeLessThan(text.length);
+  });
+});
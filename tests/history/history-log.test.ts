@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HistoryLog, type CompressionEvent } from "../../src/history/HistoryLog.js";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { CONFIG_VERSION } from "../../src/config/schema.js";
+import { createServer } from "../../src/server.js";
+import { Cli } from "../../src/cli/Cli.js";
+
+const PROSE =
+  "In order to deploy the service, it is important to note that the configuration must be valid.";
+
+function event(at: string, overrides: Partial<CompressionEvent> = {}): CompressionEvent {
+  return {
+    at,
+    tool: "tksq_compress",
+    level: "medium",
+    domain: "general",
+    language: "en",
+    tokenizer: "approximate",
+    tokensIn: 100,
+    tokensOut: 60,
+    project: "/work/api",
+    ...overrides,
+  };
+}
+
+describe("HistoryLog.aggregate", () => {
+  const events = [
+    event("2026-10-04T23:00:00Z"), // a Sunday, so in the week of 2026-09-28
+    event("2026-10-06T09:00:00Z", { tool: "tksq_pack", tokensIn: 200, tokensOut: 150 }),
+    event("2026-10-07T09:00:00Z", { domain: null, tool: "tksq_compress_json" }),
+    event("2026-10-13T09:00:00Z", { project: "/work/web" }),
+  ];
+
+  it("groups by day and week in time order", () => {
+    expect(HistoryLog.aggregate(events, "day").map((b) => b.key)).toEqual([
+      "2026-10-04",
+      "2026-10-06",
+      "2026-10-07",
+      "2026-10-13",
+    ]);
+
+    const weeks = HistoryLog.aggregate(events, "week");
+    expect(weeks.map((b) => [b.key, b.compressions, b.tokensSaved])).toEqual([
+      ["2026-09-28", 1, 40],
+      ["2026-10-05", 2, 90],
+      ["2026-10-12", 1, 40],
+    ]);
+    expect(weeks[1].reductionPercent).toBe(30);
+  });
+
+  it("groups by tool, domain and project, biggest savings first", () => {
+    expect(HistoryLog.aggregate(events, "tool").map((b) => b.key)).toEqual([
+      "tksq_compress",
+      "tksq_pack",
+      "tksq_compress_json",
+    ]);
+    expect(HistoryLog.aggregate(events, "domain").map((b) => b.key)).toEqual([
+      "general",
+      "(none)",
+    ]);
+    expect(HistoryLog.aggregate(events, "project")[0]).toMatchObject({
+      key: "/work/api",
+      compressions: 3,
+    });
+  });
+});
+
+describe("history log", () => {
+  let dir: string;
+  let project: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-history-"));
+    project = join(dir, "repo");
+    await mkdir(join(project, ".git", "objects"), { recursive: true });
+    await mkdir(join(project, "src"), { recursive: true });
+    vi.stubEnv("XDG_CONFIG_HOME", join(dir, "config"));
+    vi.spyOn(process, "cwd").mockReturnValue(join(project, "src"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records events with the project root and rotates old files", async () => {
+    const log = new HistoryLog({ maxBytes: 400, keep: 2 });
+    const base = {
+      tool: "tksq_pack",
+      level: "medium" as const,
+      domain: "general" as const,
+      language: "en" as const,
+      tokenizer: "approximate" as const,
+      tokensIn: 10,
+      tokensOut: 5,
+    };
+    for (let i = 0; i < 12; i++) {
+      await log.record(base);
+    }
+
+    const files = (await readdir(ConfigManager.getConfigDir())).sort();
+    expect(files).toEqual(["history.1.jsonl", "history.2.jsonl", "history.jsonl"]);
+
+    const events = await log.read();
+    expect(events.length).toBeGreaterThan(2);
+    expect(events.length).toBeLessThan(12);
+    expect(events[0].project).toBe(project);
+    expect(events.every((e, i) => i === 0 || e.at >= events[i - 1].at)).toBe(true);
+  });
+
+  it("reports savings with tksq_history and the dashboard", async () => {
+    const tools = (createServer() as any)._registeredTools;
+    await tools["tksq_compress"].handler({ text: PROSE, tokenizer: "approximate" }, {});
+    await tools["tksq_pack"].handler({ text: PROSE }, {});
+
+    const byTool = (await tools["tksq_history"].handler({ group_by: "tool" }, {})).content[0].text;
+    expect(byTool).toContain("Compression history, last 30 days, by tool:");
+    expect(byTool).toMatch(/^Tool\s+Runs\s+Tokens in\s+Tokens out\s+Saved\s+Reduction$/m);
+    expect(byTool).toMatch(/^tksq_compress\s+1\s/m);
+    expect(byTool).toMatch(/^tksq_pack\s+1\s/m);
+    expect(byTool).toMatch(/^Total\s+2\s/m);
+
+    const current = (await tools["tksq_history"].handler({ project: "." }, {})).content[0].text;
+    expect(current).toContain(`in ${project}, by day`);
+    const other = (await tools["tksq_history"].handler({ project: dir }, {})).content[0].text;
+    expect(other).toContain("No compressions logged");
+
+    const dashboard = (await tools["tksq_dashboard"].handler({}, {})).content[0].text;
+    expect(dashboard).toContain("-- Last 4 Weeks --");
+    expect(dashboard).toMatch(/Week of \d{4}-\d{2}-\d{2}: [\d,]+ tokens saved \(2 compressions/);
+  });
+
+  it("logs compressions from the tools and the CLI with learning disabled", async () => {
+    await mkdir(ConfigManager.getConfigDir(), { recursive: true });
+    await writeFile(
+      ConfigManager.getConfigPath(),
+      JSON.stringify({ version: CONFIG_VERSION, learning: { enabled: false } }),
+      "utf-8"
+    );
+    const log = new HistoryLog();
+
+    const tools = (createServer() as any)._registeredTools;
+    await tools["tksq_compress"].handler({ text: PROSE, tokenizer: "approximate" }, {});
+    expect((await log.read()).map((e) => e.tool)).toEqual(["tksq_compress"]);
+
+    const cli = new Cli({ stdout: () => {}, stderr: () => {}, readStdin: async () => PROSE });
+    expect(await cli.run(["compress", "-", "--tokenizer", "approximate"])).toBe(0);
+    const events = await log.read();
+    expect(events.map((e) => e.tool)).toEqual(["tksq_compress", "cli_compress"]);
+    expect(events[1]).toMatchObject({ level: "medium", language: "en", tokenizer: "approximate", project });
+    expect(events[1].tokensOut).toBeLessThan(events[1].tokensIn);
+  });
+});
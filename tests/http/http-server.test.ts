@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { HttpServer } from "../../src/http/HttpServer.js";
+
+// Mock fs for PhraseStore
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+function text(result: unknown): string {
+  return (result as { content: Array<{ text: string }> }).content[0].text;
+}
+
+describe("HttpServer", () => {
+  let http: HttpServer;
+  let url: URL;
+  const clients: Client[] = [];
+
+  async function connect(): Promise<Client> {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(url));
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    http = new HttpServer({ port: 0 });
+    url = new URL((await http.start()).url);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.close()));
+    await http.close();
+  });
+
+  it("serves tools over streamable HTTP", async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain("tksq_compress");
+
+    const result = await client.callTool({
+      name: "tksq_count",
+      arguments: { text: "one two three", tokenizer: "approximate" },
+    });
+    expect(text(result)).toContain("Words: 3");
+  });
+
+  it("handles concurrent sessions that share learning state", async () => {
+    const [first, second] = await Promise.all([connect(), connect()]);
+    expect(http.sessionCount()).toBe(2);
+
+    await first.callTool({
+      name: "tksq_learn",
+      arguments: { action: "add", phrase: "shared context window", replacement: "SCW" },
+    });
+    const compressed = await second.callTool({
+      name: "tksq_compress",
+      arguments: { text: "Check the shared context window size.", tokenizer: "approximate" },
+    });
+    expect(text(compressed)).toContain("SCW");
+  });
+
+  it("rejects requests without a session", async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain("No valid session ID");
+  });
+
+  it("rejects foreign Host headers on loopback", async () => {
+    const { request } = await import("node:http");
+    const status = await new Promise<number>((resolve, reject) => {
+      const req = request(
+        { host: url.hostname, port: url.port, path: url.pathname, method: "GET", headers: { Host: "evil.example" } },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }
+      );
+      req.on("error", reject);
+      req.end();
+    });
+    expect(status).toBe(403);
+  });
+
+  it("closes idle sessions and caps the session count", async () => {
+    await http.close();
+    http = new HttpServer({ port: 0, sessionIdleMs: 100, maxSessions: 1 });
+    url = new URL((await http.start()).url);
+
+    await connect();
+    expect(http.sessionCount()).toBe(1);
+    await expect(connect()).rejects.toThrow(/Too many sessions/);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(http.sessionCount()).toBe(0);
+    await connect();
+    expect(http.sessionCount()).toBe(1);
+  });
+
+  it("closes sessions and flushes learned data on shutdown", async () => {
+    const { writeFile } = await import("node:fs/promises");
+    const client = await connect();
+    await client.callTool({
+      name: "tksq_learn",
+      arguments: { action: "add", phrase: "flush me please", replacement: "FMP" },
+    });
+    vi.mocked(writeFile).mockClear();
+
+    await http.close();
+
+    expect(http.sessionCount()).toBe(0);
+    // add saves immediately; close only writes when something is dirty
+    expect(vi.mocked(writeFile).mock.calls.length).toBeLessThanOrEqual(1);
+  });
+});
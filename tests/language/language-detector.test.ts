@@ -1,5 +1,19 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { LanguageDetector } from "../../src/language/LanguageDetector.js";
+import { createServer } from "../../src/server.js";
+
+// Mock fs so tools see the default config
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+const UKRAINIAN = "Це просте речення українською мовою, і воно має кілька слів, що пояснюють ідею.";
 
 describe("LanguageDetector", () => {
   it("detects English text", () => {
@@ -35,4 +49,95 @@ describe("LanguageDetector", () => {
     const englishSuffix = "This is text. ".repeat(500);
     expect(LanguageDetector.detect(russianPrefix + englishSuffix)).toBe("ru");
   });
+
+  it("tells Latin-script languages apart", () => {
+    expect(LanguageDetector.detect("Der Server ist neu und die Konfiguration wird nicht geändert.")).toBe("de");
+    expect(LanguageDetector.detect("Le serveur est nouveau et nous ne changeons pas la configuration.")).toBe("fr");
+    expect(LanguageDetector.detect("El servidor es nuevo y no vamos a cambiar la configuración.")).toBe("es");
+  });
+
+  it("falls back to the script default for short or ambiguous text", () => {
+    expect(LanguageDetector.analyze("Hello").language).toBe("de");
+    expect(LanguageDetector.detect("Hello")).toBe("en");
+    expect(LanguageDetector.detect("Kubernetes cluster upgrade. Kubernetes cluster upgrade.")).toBe("en");
+    expect(LanguageDetector.detect("Привет")).toBe("ru");
+  });
+});
+
+describe("LanguageDetector.analyze", () => {
+  it("returns a confidence and ranked candidates", () => {
+    const detection = LanguageDetector.analyze("The server is new and runs with the config.");
+    expect(detection.language).toBe("en");
+    expect(detection.confidence).toBeGreaterThan(0.5);
+    expect(detection.candidates[0]).toEqual({ language: "en", score: expect.any(Number) });
+    expect(detection.candidates.map((c) => c.language).sort()).toEqual(["de", "en", "es", "fr", "ru"]);
+    const scores = detection.candidates.map((c) => c.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it("has low confidence for languages without a pack", () => {
+    expect(LanguageDetector.analyze(UKRAINIAN).confidence).toBeLessThan(LanguageDetector.MIN_CONFIDENCE);
+    expect(
+      LanguageDetector.analyze("Il server è nuovo e non cambiamo la configurazione del sistema.").confidence
+    ).toBeLessThan(LanguageDetector.MIN_CONFIDENCE);
+    expect(LanguageDetector.analyze("这是一个简单的中文句子。").confidence).toBe(0);
+  });
+
+  it("has low confidence for very short text", () => {
+    expect(LanguageDetector.analyze("Привет").confidence).toBeLessThan(LanguageDetector.MIN_CONFIDENCE);
+    expect(LanguageDetector.analyze("").confidence).toBe(0);
+  });
+});
+
+describe("LanguageDetector.resolve", () => {
+  it("uses the detected language when confident", () => {
+    expect(LanguageDetector.resolve("Это простое предложение на русском языке.", "en")).toBe("ru");
+  });
+
+  it("falls back to the configured language, or the script's default", () => {
+    expect(LanguageDetector.resolve(UKRAINIAN, "en")).toBe("en");
+    expect(LanguageDetector.resolve(UKRAINIAN, "auto")).toBe("ru");
+    expect(
+      LanguageDetector.resolve("Il server è nuovo e non cambiamo la configurazione del sistema.", "auto")
+    ).toBe("en");
+  });
+
+  it("keeps short Russian sentences without stopwords Russian", () => {
+    for (const text of [
+      "Необходимо осуществить проверку конфигурации сервера.",
+      "Требуется обновление зависимостей.",
+      "Сервер перезапущен успешно.",
+    ]) {
+      expect(LanguageDetector.resolve(text, "auto")).toBe("ru");
+    }
+  });
+});
+
+describe("tksq_detect_language", () => {
+  const handler = (createServer() as any)._registeredTools["tksq_detect_language"].handler;
+
+  it("reports language, confidence and candidates", async () => {
+    const result = await handler(
+      { text: "Der Server ist neu und die Konfiguration wird nicht geändert.", top: 2 },
+      {}
+    );
+    const text: string = result.content[0].text;
+    expect(text).toContain("Language: de (German)");
+    expect(text).toMatch(/Confidence: 0\.\d\d/);
+    expect(text.split("Candidates:\n")[1].split("\n\n")[0].split("\n")).toHaveLength(2);
+    expect(text).toContain("Auto: de");
+  });
+
+  it("explains the fallback when confidence is low", async () => {
+    const result = await handler({ text: UKRAINIAN }, {});
+    expect(result.content[0].text).toContain(
+      "Auto: ru (confidence below 0.3, using the fallback language)"
+    );
+  });
+
+  it("resolves auto the same way in tksq_compress", async () => {
+    const tools = (createServer() as any)._registeredTools;
+    const result = await tools["tksq_compress"].handler({ text: UKRAINIAN, tokenizer: "approximate" }, {});
+    expect(result.content[0].text).toContain("Language: ru");
+  });
 });
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LanguagePackLoader } from "../../src/dictionaries/LanguagePackLoader.js";
+import { LanguageRegistry } from "../../src/dictionaries/languages/registry.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { LanguageDetector } from "../../src/language/LanguageDetector.js";
+import { ConfigSchema } from "../../src/config/schema.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { Cli } from "../../src/cli/Cli.js";
+import { createServer } from "../../src/server.js";
+
+const DUTCH = {
+  code: "nl",
+  name: "Dutch",
+  fillers: ["eigenlijk"],
+  substitutions: { bijvoorbeeld: "bv." },
+  redundancies: [{ pattern: "\\bhelemaal nieuw\\b", replacement: "nieuw" }],
+  shorthand: {
+    articles: "/\\b(de|het|een)\\s+/i",
+    copulas: [["\\ber zijn veel\\b", "veel"]],
+  },
+  stopwords: ["de", "het", "een", "en", "is", "niet", "met", "van"],
+};
+
+const DUTCH_TEXT = "De server is eigenlijk helemaal nieuw en draait met de configuratie, bijvoorbeeld vandaag.";
+
+describe("LanguagePackLoader.parse", () => {
+  it("fills in defaults and compiles regexes", () => {
+    const pack = LanguagePackLoader.parse({ code: "nl" }, "nl.json");
+    expect(pack.script).toBe("latin");
+    expect(pack.fillers).toEqual([]);
+    expect(pack.substitutions).toEqual([]);
+    expect(pack.shorthand.articles).toBeNull();
+    expect(pack.shorthand.contractions).toEqual([]);
+    expect("Een test. über alles. Nog".match(pack.capitalizeAfterPeriod)).toEqual([". ü"]);
+  });
+
+  it("reads regexes as bare sources or /source/flags, always global", () => {
+    const pack = LanguagePackLoader.parse(DUTCH, "nl.json");
+    expect(pack.substitutions).toEqual([["bijvoorbeeld", "bv."]]);
+    expect(pack.redundancies[0].pattern.flags).toBe("gi");
+    expect(pack.shorthand.articles?.flags).toBe("gi");
+    expect(pack.shorthand.copulas[0][0].source).toBe("\\ber zijn veel\\b");
+  });
+
+  it("accepts RegExp values from JS packs", () => {
+    const pack = LanguagePackLoader.parse({ code: "nl", shorthand: { articles: /\bhet\s+/ } }, "nl.js");
+    expect(pack.shorthand.articles?.flags).toBe("g");
+  });
+
+  it("reports every problem with its path", () => {
+    expect(() =>
+      LanguagePackLoader.parse(
+        { code: "NL", fillers: [""], redundancies: [{ pattern: "(", replacement: "" }], extra: 1 },
+        "bad.json"
+      )
+    ).toThrow(
+      /Invalid language pack bad\.json: .*code: Expected a lowercase language code.*fillers\.0: Empty entry.*redundancies\.0\.pattern: Invalid regular expression.*Unrecognized key/
+    );
+    expect(() => LanguagePackLoader.parse({ code: "auto" }, "auto.json")).toThrow('"auto" is reserved');
+  });
+});
+
+describe("user language packs", () => {
+  let dir: string;
+  let languages: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-lang-"));
+    vi.stubEnv("XDG_CONFIG_HOME", dir);
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    languages = LanguagePackLoader.getDir();
+    await mkdir(languages, { recursive: true });
+  });
+
+  afterEach(async () => {
+    LanguageRegistry.reset();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads JSON and JS packs from the config dir, skipping broken ones", async () => {
+    await writeFile(join(languages, "nl.json"), JSON.stringify(DUTCH));
+    await writeFile(
+      join(languages, "it.mjs"),
+      'export default { code: "it", name: "Italian", fillers: ["allora"], shorthand: { articles: /\\b(il|lo)\\s+/gi } };\n'
+    );
+    await writeFile(join(languages, "broken.json"), "{ not json");
+    await writeFile(join(languages, "en.json"), JSON.stringify({ code: "en" }));
+    await writeFile(join(languages, "zz-dutch.json"), JSON.stringify({ code: "nl" }));
+    await writeFile(join(languages, "notes.txt"), "ignored");
+
+    const result = await LanguagePackLoader.loadAll();
+    expect(result.loaded).toEqual(["it", "nl"]);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors.join("\n")).toMatch(/zz-dutch\.json: "nl" is already defined by nl\.json/);
+    expect(result.errors.join("\n")).toMatch(/en\.json: Language "en" is built in/);
+    expect(result.errors.join("\n")).toMatch(/Invalid language pack .*broken\.json/);
+
+    expect(LanguageRegistry.availableLanguages()).toEqual([
+      "en", "ru", "de", "fr", "es", "it", "nl",
+    ]);
+    expect(LanguageRegistry.get("it").shorthand.articles?.source).toBe("\\b(il|lo)\\s+");
+    expect(await LanguagePackLoader.loadAll(join(dir, "missing"))).toEqual({ loaded: [], errors: [] });
+  });
+
+  it("compresses with a loaded pack and detects it by stopwords", async () => {
+    await writeFile(join(languages, "nl.json"), JSON.stringify(DUTCH));
+    await LanguagePackLoader.loadAll();
+
+    expect(LanguageDetector.detect(DUTCH_TEXT)).toBe("nl");
+    expect(LanguageDetector.detect("The server is new and runs with the config.")).toBe("en");
+    expect(LanguageDetector.detect("Сервер новый и работает.")).toBe("ru");
+
+    const result = await new Pipeline().compress(DUTCH_TEXT, {
+      level: "aggressive",
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general", "nl"),
+    });
+    expect(result.compressed).toBe("De server is nieuw en draait met configuratie, bv. vandaag.");
+  });
+
+  it("accepts loaded codes in config, tools and the CLI", async () => {
+    expect(ConfigSchema.validate({ language: "nl" }).issues).toEqual([
+      'language: Unknown language "nl". Available: auto, en, ru, de, fr, es',
+    ]);
+
+    await writeFile(join(languages, "nl.json"), JSON.stringify(DUTCH));
+    await LanguagePackLoader.loadAll();
+    expect(ConfigSchema.validate({ language: "nl" }).value).toEqual({ language: "nl" });
+
+    const tools = (createServer() as any)._registeredTools;
+    const schema = tools["tksq_compress"].inputSchema;
+    expect(schema.safeParse({ text: "x", language: "nl" }).success).toBe(true);
+    expect(schema.safeParse({ text: "x", language: "pt" }).success).toBe(false);
+
+    const out = (
+      await tools["tksq_compress"].handler({ text: DUTCH_TEXT, tokenizer: "approximate" }, {})
+    ).content[0].text;
+    expect(out).toContain("Language: nl");
+
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const cli = new Cli({
+      stdout: (t) => stdout.push(t),
+      stderr: (t) => stderr.push(t),
+      readStdin: async () => DUTCH_TEXT,
+    });
+    expect(await cli.run(["compress", "--language", "nl", "--json"])).toBe(0);
+    expect(JSON.parse(stdout.join("")).language).toBe("nl");
+    expect(await cli.run(["compress", "--language", "pt"])).toBe(2);
+    expect(stderr.join("")).toContain("Expected one of: auto, en, ru, de, fr, es, nl");
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from "vitest";
+import { LanguageSegmenter } from "../../src/language/LanguageSegmenter.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { createServer } from "../../src/server.js";
+import type { PipelineConfig } from "../../src/pipeline/stages/IStage.js";
+
+// Mock fs so tools see the default config
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+const CODE = /```[\s\S]*?```/g;
+
+const ENGLISH = "In order to deploy the service, you need to run the migration script first.";
+const RUSSIAN =
+  "Для того чтобы развернуть сервис, необходимо в первую очередь запустить скрипт миграции. В настоящее время это делается вручную.";
+const GERMAN = "Vor dem Start der Migration müssen wir eine Entscheidung treffen.";
+
+const MIXED = `${ENGLISH}\n\n${RUSSIAN}\n\n${GERMAN}`;
+
+function join(text: string): string {
+  return LanguageSegmenter.split(text, [CODE], "en")
+    .map((s) => s.separator + s.text)
+    .join("");
+}
+
+describe("LanguageSegmenter", () => {
+  it("splits paragraphs in different languages", () => {
+    const segments = LanguageSegmenter.split(MIXED, [CODE], "en");
+    expect(segments.map((s) => s.language)).toEqual(["en", "ru", "de"]);
+    expect(segments[1].text).toBe(RUSSIAN);
+    expect(segments[1].separator).toBe("\n\n");
+  });
+
+  it("splits sentences within a paragraph", () => {
+    const segments = LanguageSegmenter.split(`${ENGLISH} ${RUSSIAN}`, [CODE], "en");
+    expect(segments.map((s) => s.language)).toEqual(["en", "ru"]);
+    expect(segments[1].separator).toBe(" ");
+  });
+
+  it("gives the input back when segments are joined", () => {
+    const text = `# Deploy\n\n${ENGLISH}  \n${RUSSIAN}\n\n\n\`\`\`bash\nnpm run migrate\n\`\`\`\n${GERMAN} Done.`;
+    expect(join(text)).toBe(text);
+  });
+
+  it("keeps code blocks and unsure lines with the language before them", () => {
+    const text = `${RUSSIAN}\n\n\`\`\`js\n// The value is set. Then the job runs.\nrun();\n\`\`\`\n\nOK.\n\n${ENGLISH}`;
+    const segments = LanguageSegmenter.split(text, [CODE], "en");
+    expect(segments.map((s) => s.language)).toEqual(["ru", "en"]);
+    expect(segments[0].text).toContain("run();\n```\n\nOK.");
+  });
+
+  it("gives unsure text in another script that script's default", () => {
+    const segments = LanguageSegmenter.split(
+      `${ENGLISH}\n\nНеобходимо осуществить проверку конфигурации сервера.`,
+      [CODE],
+      "en"
+    );
+    expect(segments.map((s) => s.language)).toEqual(["en", "ru"]);
+  });
+
+  it("gives leading unsure text the first detected language", () => {
+    const segments = LanguageSegmenter.split(`Итог\n\n${RUSSIAN}`, [CODE], "en");
+    expect(segments).toHaveLength(1);
+    expect(segments[0].language).toBe("ru");
+  });
+
+  it("never splits inside fenced code blocks", () => {
+    const fenced = `~~~\n${RUSSIAN}\n~~~`;
+    expect(LanguageSegmenter.split(`${ENGLISH}\n${fenced}`, [CODE], "en")).toHaveLength(1);
+
+    const unclosed = `${ENGLISH}\n\n\`\`\`\n${RUSSIAN}\n${GERMAN}`;
+    expect(LanguageSegmenter.split(unclosed, [CODE], "en")).toEqual([
+      { separator: "", text: unclosed, language: "en" },
+    ]);
+  });
+
+  it("uses the default language when nothing is detected", () => {
+    const segments = LanguageSegmenter.split("OK.\n\n42", [CODE], "fr");
+    expect(segments).toEqual([{ separator: "", text: "OK.\n\n42", language: "fr" }]);
+  });
+});
+
+describe("Pipeline with dictionaryFor", () => {
+  const pipeline = new Pipeline();
+
+  function config(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+    return {
+      level: "aggressive",
+      preservePatterns: [CODE],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general", "en"),
+      dictionaryFor: (language) => DictionaryLoader.load("general", language),
+      ...overrides,
+    };
+  }
+
+  it("compresses each language with its own pack", async () => {
+    const result = await pipeline.compress(MIXED, config());
+    const [english, russian, german] = result.compressed.split("\n\n");
+    expect(english).not.toContain("In order to");
+    expect(russian).toContain("Чтобы развернуть сервис");
+    expect(russian).toContain("Сейчас");
+    expect(german).toContain("müssen wir entscheiden");
+  });
+
+  it("breaks stats down per language", async () => {
+    const result = await pipeline.compress(MIXED, config());
+    const languages = result.stats.languages!;
+    expect(languages.map((l) => l.language)).toEqual(["en", "ru", "de"]);
+    for (const language of languages) {
+      expect(language.segments).toBe(1);
+      expect(language.compressedTokens).toBeLessThan(language.originalTokens);
+    }
+    const russian = languages[1];
+    expect(russian.reductionPercent).toBe(
+      Math.round(((russian.originalTokens - russian.compressedTokens) / russian.originalTokens) * 10000) / 100
+    );
+    expect(result.stats.originalChars).toBe(MIXED.length);
+    expect(result.stats.stageBreakdown.map((s) => s.stage)).toHaveLength(4);
+  });
+
+  it("counts alternating runs as segments of one language", async () => {
+    const text = `${ENGLISH}\n\n${RUSSIAN}\n\n${ENGLISH.replace("service", "database")}`;
+    const result = await pipeline.compress(text, config());
+    const english = result.stats.languages!.find((l) => l.language === "en")!;
+    expect(english.segments).toBe(2);
+  });
+
+  it("keeps structured content whole", async () => {
+    const json = JSON.stringify(
+      {
+        service: "billing",
+        message: "Необходимо в первую очередь запустить скрипт миграции.",
+        replicas: 3,
+      },
+      null,
+      2
+    );
+    const result = await pipeline.compress(json, config());
+    expect(result.stats.contentType).toBe("structured");
+    expect(result.stats.languages).toBeUndefined();
+    expect(result.compressed.split("\n")[0]).toBe(
+      '{"service":"billing","message":"Необходимо в первую очередь запустить скрипт миграции.","replicas":3}'
+    );
+  });
+
+  it("only uses the main dictionary without dictionaryFor", async () => {
+    const result = await pipeline.compress(MIXED, config({ dictionaryFor: undefined }));
+    expect(result.stats.languages).toBeUndefined();
+    expect(result.compressed).toContain("Для того чтобы");
+  });
+
+  it("merges language stats over chunks", async () => {
+    const result = await pipeline.compressChunked(MIXED, config(), { chunkSize: 100 });
+    expect(result.stats.chunks).toBe(3);
+    expect(result.stats.languages!.map((l) => l.language)).toEqual(["en", "ru", "de"]);
+  });
+});
+
+describe("tksq_compress on mixed-language text", () => {
+  it("reports savings per language under auto", async () => {
+    const tools = (createServer() as any)._registeredTools;
+    const result = await tools["tksq_compress"].handler(
+      { text: MIXED, level: "aggressive", tokenizer: "approximate" },
+      {}
+    );
+    const text: string = result.content[0].text;
+    expect(text).toContain("Чтобы развернуть сервис");
+    expect(text).toMatch(/Languages:\n {2}en: \d+ -> \d+ tokens \(-[\d.]+%, 1 segment\)\n {2}ru: /);
+  });
+
+  it("uses one pack when the language is given", async () => {
+    const tools = (createServer() as any)._registeredTools;
+    const result = await tools["tksq_compress"].handler(
+      { text: MIXED, level: "aggressive", language: "en", tokenizer: "approximate" },
+      {}
+    );
+    const text: string = result.content[0].text;
+    expect(text).toContain("Для того чтобы");
+    expect(text).not.toContain("Languages:");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { LanguageRegistry } from "../../src/dictionaries/languages/registry.js";
+import { LanguageDetector } from "../../src/language/LanguageDetector.js";
+import type { CompressionLevel } from "../../src/pipeline/stages/IStage.js";
+
+describe("German support", () => {
+  const pipeline = new Pipeline();
+
+  async function compress(input: string, level: CompressionLevel): Promise<string> {
+    const result = await pipeline.compress(input, {
+      level,
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general", "de"),
+    });
+    return result.compressed;
+  }
+
+  describe("pack", () => {
+    it("is a built-in latin pack", () => {
+      const pack = LanguageRegistry.get("de");
+      expect(pack.name).toBe("German");
+      expect(pack.script).toBe("latin");
+      expect(LanguageRegistry.isBuiltin("de")).toBe(true);
+      expect(pack.fillers.length).toBeGreaterThan(40);
+      expect(pack.substitutions.length).toBeGreaterThan(80);
+    });
+
+    it("is detected from German text", () => {
+      expect(
+        LanguageDetector.detect("Der Server ist neu und die Konfiguration wird nicht mehr geändert.")
+      ).toBe("de");
+    });
+
+    it("applies domain overlays", () => {
+      const dict = DictionaryLoader.load("programming", "de");
+      expect(dict.language).toBe("de");
+      expect(dict.abbreviations.get("function")).toBe("fn");
+    });
+  });
+
+  describe("compression", () => {
+    it("removes filler phrases on light", async () => {
+      const result = await compress("Im Grunde ist das eigentlich ein wichtiger Punkt.", "light");
+      expect(result).toBe("ist das ein wichtiger Punkt.");
+    });
+
+    it("applies abbreviations and bureaucratic phrases on medium", async () => {
+      const result = await compress(
+        "Aufgrund der Tatsache, dass der Server neu ist, warten wir zum gegenwärtigen Zeitpunkt, zum Beispiel heute.",
+        "medium"
+      );
+      expect(result).toBe("Weil der Server neu ist, warten wir jetzt, z.B. heute.");
+    });
+
+    it("removes redundancies", async () => {
+      const result = await compress("Die Konfiguration ist völlig neu.", "light");
+      expect(result).toBe("Die Konfiguration ist neu.");
+    });
+
+    it("turns light-verb constructions into verbs on aggressive", async () => {
+      expect(await compress("Wir müssen eine Entscheidung treffen.", "aggressive")).toBe(
+        "Wir müssen entscheiden."
+      );
+      expect(await compress("Wir haben eine Analyse durchgeführt.", "aggressive")).toBe(
+        "Wir haben analysiert."
+      );
+    });
+
+    it("keeps light-verb constructions with another determiner", async () => {
+      const result = await compress(
+        "Wir müssen diese Entscheidung treffen, aber keine Hilfe leisten.",
+        "aggressive"
+      );
+      expect(result).toContain("diese Entscheidung treffen");
+      expect(result).toContain("keine Hilfe leisten");
+    });
+
+    it("drops articles before nouns but keeps pronouns and genitives", async () => {
+      const result = await compress(
+        "Der Server speichert die Daten. Wir prüfen die Qualität der Daten, die wir senden.",
+        "aggressive"
+      );
+      expect(result).toBe("Der Server speichert Daten. Wir prüfen Qualität der Daten, die wir senden.");
+    });
+
+    it("contracts prepositions before nouns only", async () => {
+      const result = await compress(
+        "Der Server läuft in dem Rechenzentrum, in dem wir arbeiten.",
+        "aggressive"
+      );
+      expect(result).toBe("Der Server läuft im Rechenzentrum, in dem wir arbeiten.");
+      expect(await compress("Das ist das Haus, in dem Menschen wohnen.", "aggressive")).toBe(
+        "Das ist Haus, in dem Menschen wohnen."
+      );
+      expect(
+        await compress("Das ist die Frage, zu der Stellung genommen wurde.", "aggressive")
+      ).toBe("Das ist Frage, zu der Stellung genommen wurde.");
+    });
+
+    it("simplifies existential copulas on aggressive only", async () => {
+      expect(await compress("Es gibt viele Gründe.", "aggressive")).toBe("viele Gründe.");
+      expect(await compress("Es gibt viele Gründe.", "medium")).toContain("Es gibt viele");
+    });
+
+    it("does not match inside longer words", async () => {
+      const result = await compress("Die Quasiteilchen sind eigentlicher Gegenstand.", "aggressive");
+      expect(result).toContain("Quasiteilchen");
+      expect(result).toContain("eigentlicher");
+    });
+
+    it("achieves significant reduction on bureaucratic text", async () => {
+      const input =
+        "Im Hinblick auf die Tatsache, dass wir im Rahmen des Projekts eine Überprüfung " +
+        "durchgeführt haben, möchten wir Sie darauf hinweisen, dass die Ergebnisse " +
+        "zum gegenwärtigen Zeitpunkt zur Verfügung gestellt werden.";
+      const result = await pipeline.compress(input, {
+        level: "aggressive",
+        preservePatterns: [],
+        tokenizer: "approximate",
+        dictionary: DictionaryLoader.load("general", "de"),
+      });
+      expect(result.stats.reductionPercent).toBeGreaterThan(20);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { LanguageRegistry } from "../../src/dictionaries/languages/registry.js";
+import { LanguageDetector } from "../../src/language/LanguageDetector.js";
+import type { CompressionLevel } from "../../src/pipeline/stages/IStage.js";
+
+describe("Spanish support", () => {
+  const pipeline = new Pipeline();
+
+  async function compress(input: string, level: CompressionLevel): Promise<string> {
+    const result = await pipeline.compress(input, {
+      level,
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general", "es"),
+    });
+    return result.compressed;
+  }
+
+  describe("pack", () => {
+    it("is a built-in latin pack", () => {
+      const pack = LanguageRegistry.get("es");
+      expect(pack.name).toBe("Spanish");
+      expect(pack.script).toBe("latin");
+      expect(LanguageRegistry.isBuiltin("es")).toBe(true);
+      expect(pack.fillers.length).toBeGreaterThan(40);
+      expect(pack.substitutions.length).toBeGreaterThan(70);
+    });
+
+    it("is detected from Spanish text", () => {
+      expect(
+        LanguageDetector.detect("El servidor es nuevo y no vamos a cambiar la configuración.")
+      ).toBe("es");
+    });
+  });
+
+  describe("compression", () => {
+    it("removes filler phrases on light", async () => {
+      const result = await compress("En realidad, es un punto importante.", "light");
+      expect(result).toBe("es un punto importante.");
+    });
+
+    it("applies abbreviations and bureaucratic phrases on medium", async () => {
+      const result = await compress(
+        "Debido al hecho de que el servidor es nuevo, esperamos en este momento, por ejemplo aquí.",
+        "medium"
+      );
+      expect(result).toBe("Porque el servidor es nuevo, esperamos ahora, p. ej. aquí.");
+    });
+
+    it("removes redundancies and verbal locutions", async () => {
+      const result = await compress(
+        "El equipo llevó a cabo el plan. El resultado final es bueno, pero sin embargo falta algo.",
+        "medium"
+      );
+      expect(result).toBe("El equipo realizó el plan. El resultado es bueno, pero falta algo.");
+    });
+
+    it("turns light-verb constructions into verbs on aggressive", async () => {
+      expect(await compress("Tenemos que tomar una decisión.", "aggressive")).toBe(
+        "Tenemos que decidir."
+      );
+      expect(
+        await compress("El equipo realizó una revisión del código e hizo una búsqueda de errores.", "aggressive")
+      ).toBe("El equipo revisó el código e buscó errores.");
+    });
+
+    it("elides subject pronouns before first person verbs on aggressive", async () => {
+      const result = await compress("Yo creo que funciona. Nosotros queremos más pruebas.", "aggressive");
+      expect(result).toBe("Creo que funciona. Queremos más pruebas.");
+      expect(await compress("Yo creo que funciona.", "medium")).toBe("Yo creo que funciona.");
+    });
+
+    it("drops el and indefinite articles but keeps pronouns", async () => {
+      const result = await compress(
+        "El que llega primero instala el paquete en un servidor. La vemos mañana.",
+        "aggressive"
+      );
+      expect(result).toBe("El que llega primero instala paquete en servidor. La vemos mañana.");
+    });
+
+    it("simplifies copulas that open a clause before an infinitive", async () => {
+      expect(await compress("Es necesario reiniciar el servidor.", "aggressive")).toBe(
+        "hay que reiniciar servidor."
+      );
+      expect(await compress("Creo que es posible hacerlo.", "aggressive")).toBe(
+        "Creo que se puede hacerlo."
+      );
+      expect(await compress("Es necesario que vengas.", "aggressive")).toBe("Es necesario que vengas.");
+      expect(await compress("No es necesario reiniciar.", "aggressive")).toBe("No es necesario reiniciar.");
+      expect(await compress("El cambio es necesario.", "aggressive")).toBe("El cambio es necesario.");
+    });
+
+    it("handles accented words as whole words", async () => {
+      const result = await compress("Los obviamentes y señoriales.", "medium");
+      expect(result).toContain("obviamentes");
+      expect(result).toContain("señoriales");
+    });
+
+    it("achieves significant reduction on bureaucratic text", async () => {
+      const input =
+        "Cabe señalar que, en el marco del proyecto, es necesario tomar una decisión " +
+        "con respecto al presupuesto, debido al hecho de que en la actualidad no " +
+        "estamos en condiciones de cumplir los plazos.";
+      const result = await pipeline.compress(input, {
+        level: "aggressive",
+        preservePatterns: [],
+        tokenizer: "approximate",
+        dictionary: DictionaryLoader.load("general", "es"),
+      });
+      expect(result.stats.reductionPercent).toBeGreaterThan(20);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { LanguageRegistry } from "../../src/dictionaries/languages/registry.js";
+import { LanguageDetector } from "../../src/language/LanguageDetector.js";
+import type { CompressionLevel } from "../../src/pipeline/stages/IStage.js";
+
+describe("French support", () => {
+  const pipeline = new Pipeline();
+
+  async function compress(input: string, level: CompressionLevel): Promise<string> {
+    const result = await pipeline.compress(input, {
+      level,
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general", "fr"),
+    });
+    return result.compressed;
+  }
+
+  describe("pack", () => {
+    it("is a built-in latin pack", () => {
+      const pack = LanguageRegistry.get("fr");
+      expect(pack.name).toBe("French");
+      expect(pack.script).toBe("latin");
+      expect(LanguageRegistry.isBuiltin("fr")).toBe(true);
+      expect(pack.fillers.length).toBeGreaterThan(40);
+      expect(pack.substitutions.length).toBeGreaterThan(80);
+    });
+
+    it("is detected from French text", () => {
+      expect(
+        LanguageDetector.detect("Le serveur est nouveau et nous ne changeons pas la configuration.")
+      ).toBe("fr");
+    });
+  });
+
+  describe("compression", () => {
+    it("removes filler phrases on light", async () => {
+      const result = await compress("En fait, c'est un point important.", "light");
+      expect(result).toBe("c'est un point important.");
+    });
+
+    it("applies abbreviations and bureaucratic phrases on medium", async () => {
+      const result = await compress(
+        "Étant donné que le serveur est nouveau, nous attendons à l'heure actuelle, par exemple ici.",
+        "medium"
+      );
+      expect(result).toBe("Car le serveur est nouveau, nous attendons actuellement, p. ex. ici.");
+    });
+
+    it("removes redundancies", async () => {
+      const result = await compress("Le résultat final est bon, voire même excellent.", "light");
+      expect(result).toBe("Le résultat est bon, voire excellent.");
+    });
+
+    it("rewrites periphrastic modals", async () => {
+      const result = await compress(
+        "Nous sommes en mesure de mettre en œuvre la solution afin de réduire les coûts.",
+        "medium"
+      );
+      expect(result).toBe("Nous pouvons appliquer la solution pour réduire les coûts.");
+    });
+
+    it("turns light-verb constructions into verbs on aggressive", async () => {
+      expect(await compress("Nous devons prendre une décision.", "aggressive")).toBe(
+        "Nous devons décider."
+      );
+      expect(await compress("L'équipe a effectué une vérification du code.", "aggressive")).toBe(
+        "L'équipe a vérifié le code."
+      );
+      expect(await compress("Il faut effectuer une analyse des données.", "aggressive")).toBe(
+        "Il faut analyser les données."
+      );
+    });
+
+    it("keeps light-verb constructions on medium", async () => {
+      const result = await compress("Nous devons prendre une décision.", "medium");
+      expect(result).toBe("Nous devons prendre une décision.");
+    });
+
+    it("drops only the indefinite articles un and une", async () => {
+      const result = await compress(
+        "Un des serveurs a un problème et le fichier contient une erreur.",
+        "aggressive"
+      );
+      expect(result).toBe("Un des serveurs a problème et le fichier contient erreur.");
+    });
+
+    it("simplifies impersonal copulas on aggressive", async () => {
+      const result = await compress("Il est nécessaire de redémarrer le serveur.", "aggressive");
+      expect(result).toBe("il faut redémarrer le serveur.");
+    });
+
+    it("handles accented words as whole words", async () => {
+      const result = await compress("Les évidemmentistes et les franchementeurs.", "aggressive");
+      expect(result).toContain("évidemmentistes");
+      expect(result).toContain("franchementeurs");
+    });
+
+    it("achieves significant reduction on bureaucratic text", async () => {
+      const input =
+        "Nous vous informons que, dans le cadre de ce projet, il est nécessaire de " +
+        "prendre une décision en ce qui concerne le budget, étant donné que, " +
+        "à l'heure actuelle, nous ne sommes pas en mesure de respecter les délais.";
+      const result = await pipeline.compress(input, {
+        level: "aggressive",
+        preservePatterns: [],
+        tokenizer: "approximate",
+        dictionary: DictionaryLoader.load("general", "fr"),
+      });
+      expect(result.stats.reductionPercent).toBeGreaterThan(20);
+    });
+  });
+});
@@ -29,7 +29,7 @@ describe("Multilingual support", () => {
     });
 
     it("throws on unknown language", () => {
-      expect(() => LanguageRegistry.get("fr" as any)).toThrow("Unknown language");
+      expect(() => LanguageRegistry.get("xx" as any)).toThrow("Unknown language");
     });
   });
 
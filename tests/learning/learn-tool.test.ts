@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { createServer } from "../../src/server.js";
+
+// Mock fs for PhraseStore
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+const TEXT =
+  "The release candidate build failed. The release candidate build needs a fix.";
+
+describe("tksq_learn decisions", () => {
+  function tools() {
+    const registered = (createServer() as any)._registeredTools;
+    return async (name: string, args: Record<string, unknown>): Promise<string> =>
+      (await registered[name].handler(args, {})).content[0].text;
+  }
+
+  it("keeps rejected phrases out of the candidates", async () => {
+    const run = tools();
+    await run("tksq_compress", { text: TEXT });
+    const before = await run("tksq_learn", { action: "list" });
+    expect(before).toMatch(/"release candidate build" \(x1, ~\d+ tok\/use, ~\d+ tok total\) -> "RCB"/);
+
+    const rejected = await run("tksq_learn", {
+      action: "reject",
+      phrase: "release candidate build",
+      reason: "project jargon",
+    });
+    expect(rejected).toContain("blocklisted");
+
+    await run("tksq_compress", { text: TEXT });
+    const list = await run("tksq_learn", { action: "list" });
+    expect(list).toContain('Blocklist (1):\n  "release candidate build" (project jargon)');
+    expect(list).not.toContain('"release candidate build" (x');
+  });
+
+  it("demotes a promoted pattern and shows the audit trail", async () => {
+    const run = tools();
+    await run("tksq_learn", { action: "add", phrase: "critical path", replacement: "CP" });
+
+    const hint = await run("tksq_learn", { action: "reject", phrase: "critical path" });
+    expect(hint).toContain("use the demote action");
+
+    const demoted = await run("tksq_learn", {
+      action: "demote",
+      phrase: "critical path",
+      to: "blocklist",
+      reason: "CP means something else here",
+    });
+    expect(demoted).toContain('Demoted: "critical path" -> "CP"');
+
+    const packed = await run("tksq_compress", { text: "The critical path is blocked." });
+    expect(packed).toContain("critical path");
+
+    const audit = await run("tksq_learn", { action: "audit" });
+    expect(audit).toMatch(
+      /demote "critical path" -> "CP" \(to blocklist\): CP means something else here\n.*add "critical path" -> "CP"/
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PhraseStore } from "../../src/learning/PhraseStore.js";
+import { LearnedPacks, type LearnedPack } from "../../src/learning/packs.js";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+import { createServer } from "../../src/server.js";
+
+function pack(overrides: Partial<LearnedPack> = {}): LearnedPack {
+  return {
+    format: "tksq-pack",
+    version: 1,
+    exportedAt: "2026-10-01T00:00:00.000Z",
+    promoted: {},
+    customSubstitutions: {},
+    rejected: {},
+    ...overrides,
+  };
+}
+
+describe("LearnedPacks.parse", () => {
+  it("validates packs and fills in missing sections", () => {
+    const parsed = LearnedPacks.parse(
+      JSON.stringify({ format: "tksq-pack", version: 1, exportedAt: "x", promoted: { "pull request": "PR" } }),
+      "team.json"
+    );
+    expect(parsed.promoted).toEqual({ "pull request": "PR" });
+    expect(parsed.rejected).toEqual({});
+  });
+
+  it("rejects invalid and newer packs", () => {
+    expect(() => LearnedPacks.parse("{", "team.json")).toThrow("Invalid pack team.json");
+    expect(() => LearnedPacks.parse(JSON.stringify({ format: "other" }), "team.json")).toThrow(
+      "format: Invalid literal value"
+    );
+    expect(() =>
+      LearnedPacks.parse(JSON.stringify(pack({ version: 99 })), "team.json")
+    ).toThrow("written by a newer tksq");
+  });
+});
+
+describe("PhraseStore packs", () => {
+  let dir: string;
+  let store: PhraseStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-packs-"));
+    vi.stubEnv("XDG_CONFIG_HOME", dir);
+    store = new PhraseStore();
+    await store.promote("pull request", "PR");
+    await store.promote("merge request", "MR");
+    await store.addCandidate("the the", null, 100);
+    await store.reject("the the", "stutter");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("exports promoted patterns, custom substitutions and the blocklist", async () => {
+    const exported = await store.exportPack({
+      name: "platform team",
+      customSubstitutions: { kubernetes: "k8s" },
+    });
+
+    expect(exported).toMatchObject({
+      format: "tksq-pack",
+      version: 1,
+      name: "platform team",
+      promoted: { "pull request": "PR", "merge request": "MR" },
+      customSubstitutions: { kubernetes: "k8s" },
+      rejected: { "the the": { phrase: "the the", reason: "stutter" } },
+    });
+  });
+
+  it("imports new entries and reports conflicts without applying them", async () => {
+    const incoming = pack({
+      promoted: { "pull request": "PR", "merge request": "MRQ", "code review": "CR", "the the": "TT" },
+      customSubstitutions: { kubernetes: "kube", terraform: "tf" },
+    });
+
+    const asked = await store.importPack(incoming, { customSubstitutions: { kubernetes: "k8s" } });
+    expect(asked.applied).toBe(false);
+    expect(asked.conflicts.map((c) => [c.kind, c.phrase, c.ours, c.theirs])).toEqual([
+      ["promoted", "merge request", "MR", "MRQ"],
+      ["promoted", "the the", null, "TT"],
+      ["customSubstitutions", "kubernetes", "k8s", "kube"],
+    ]);
+    expect(await store.getPromoted()).not.toHaveProperty("code review");
+
+    const result = await store.importPack(incoming, {
+      strategy: "ours",
+      resolutions: { "merge request": "theirs" },
+      customSubstitutions: { kubernetes: "k8s" },
+    });
+    expect(result).toMatchObject({ applied: true, added: 2, replaced: 1, kept: 2, unchanged: 1 });
+    expect(result.customSubstitutions).toEqual({ terraform: "tf" });
+    expect(await store.getPromoted()).toEqual({
+      "pull request": "PR",
+      "merge request": "MRQ",
+      "code review": "CR",
+    });
+    expect(await store.isRejected("the the")).toBe(true);
+    expect((await store.getAudit(1))[0].action).toBe("import");
+  });
+
+  it("blocklists a promoted phrase only when taking theirs", async () => {
+    const incoming = pack({
+      rejected: { "pull request": { phrase: "pull request", rejectedAt: "2026-10-01T00:00:00.000Z" } },
+    });
+
+    const kept = await store.importPack(incoming, { strategy: "ours" });
+    expect(kept.conflicts[0]).toMatchObject({ kind: "rejected", ours: "PR", theirs: null });
+    expect(await store.getPromoted()).toHaveProperty("pull request");
+
+    await store.importPack(incoming, { strategy: "theirs" });
+    expect(await store.getPromoted()).not.toHaveProperty("pull request");
+    expect(await store.isRejected("pull request")).toBe(true);
+  });
+
+  it("round-trips through tksq_learn export and import", async () => {
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    const run = async (args: Record<string, unknown>): Promise<string> =>
+      (await (createServer() as any)._registeredTools["tksq_learn"].handler(args, {})).content[0].text;
+    const path = join(dir, "team.tksq-pack.json");
+
+    const exported = await run({ action: "export", path, name: "team" });
+    expect(exported).toBe(`Exported ${path}: 2 promoted, 0 custom substitutions, 1 blocklisted`);
+
+    const file = JSON.parse(await readFile(path, "utf-8"));
+    file.promoted["merge request"] = "MRQ";
+    file.customSubstitutions = { terraform: "tf" };
+    await writeFile(path, JSON.stringify(file), "utf-8");
+    await store.demote("pull request", "candidates");
+
+    const asked = await run({ action: "import", path });
+    expect(asked).toContain("Nothing imported: 1 conflict(s) need a decision.");
+    expect(asked).toContain('promoted "merge request": ours "MR", theirs "MRQ"');
+
+    const imported = await run({ action: "import", path, strategy: "theirs" });
+    expect(imported).toContain(`Imported ${path} ("team"): 2 added, 1 replaced, 0 kept, 1 unchanged.`);
+    expect(imported).toContain("Custom substitutions written to");
+    const config = JSON.parse(await readFile(ConfigManager.getConfigPath(), "utf-8"));
+    expect(config.customSubstitutions).toEqual({ terraform: "tf" });
+
+    const fresh = new PhraseStore();
+    expect(await fresh.getPromoted()).toEqual({ "pull request": "PR", "merge request": "MRQ" });
+  });
+
+  it("never overwrites an existing file on export", async () => {
+    const path = join(dir, "notes.txt");
+    await writeFile(path, "keep me", "utf-8");
+
+    await expect(LearnedPacks.write(path, pack())).rejects.toThrow(`${path} already exists`);
+    expect(await readFile(path, "utf-8")).toBe("keep me");
+  });
+
+  it("leaves the store unchanged when the config can't take the custom substitutions", async () => {
+    const incoming = pack({ promoted: { terraform: "tf" }, customSubstitutions: { kubernetes: "k8s" } });
+
+    await expect(
+      store.importPack(incoming, {
+        writeCustomSubstitutions: async () => {
+          throw new Error("customSubstitutions in config.json is invalid");
+        },
+      })
+    ).rejects.toThrow("is invalid");
+    expect(await new PhraseStore().getPromoted()).toEqual({ "pull request": "PR", "merge request": "MR" });
+  });
+});
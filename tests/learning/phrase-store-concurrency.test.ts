@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PhraseStore } from "../../src/learning/PhraseStore.js";
+import { ConfigManager } from "../../src/config/ConfigManager.js";
+
+describe("PhraseStore across processes", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-store-"));
+    vi.stubEnv("XDG_CONFIG_HOME", dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("adds up counts and stats from parallel stores", async () => {
+    // Separate instances stand in for separate tksq processes
+    const a = new PhraseStore();
+    const b = new PhraseStore();
+    await a.load();
+    await b.load();
+
+    await a.addCandidate("release candidate build", "RCB", 100);
+    await a.addCandidate("release candidate build", null, 100);
+    await a.updateStats(10, 100, 80);
+    await b.addCandidate("release candidate build", null, 100);
+    await b.addCandidate("staging environment", "SE", 100);
+    await b.updateStats(5, 50, 40);
+
+    await Promise.all([a.save(), b.save()]);
+
+    const saved = JSON.parse(await readFile(PhraseStore.getStorePath(), "utf-8"));
+    expect(saved.candidates["release candidate build"].count).toBe(3);
+    expect(saved.candidates["staging environment"].count).toBe(1);
+    expect(saved.stats.totalCompressions).toBe(2);
+    expect(saved.stats.totalTokensSaved).toBe(15);
+    expect(await readdir(ConfigManager.getConfigDir())).toEqual(["learned.json"]);
+  });
+
+  it("keeps decisions made by another store", async () => {
+    const a = new PhraseStore();
+    const b = new PhraseStore();
+    await a.addCandidate("release candidate build", "RCB", 100);
+    await a.save();
+    await b.load();
+
+    await b.promote("staging environment", "SE");
+    await a.reject("release candidate build", "jargon");
+
+    const fresh = new PhraseStore();
+    expect(await fresh.getPromoted()).toEqual({ "staging environment": "SE" });
+    expect(await fresh.isRejected("release candidate build")).toBe(true);
+    expect((await fresh.getAudit()).map((e) => e.action)).toEqual(["reject", "promote"]);
+    // b sees a's rejection after its next save
+    await b.updateStats(1, 10, 9);
+    await b.save();
+    expect(await b.isRejected("release candidate build")).toBe(true);
+  });
+});
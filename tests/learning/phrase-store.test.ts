@@ -1,11 +1,17 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { readFile } from "node:fs/promises";
 import { PhraseStore } from "../../src/learning/PhraseStore.js";
+import { MAX_AUDIT_ENTRIES } from "../../src/learning/types.js";
 
 // Mock fs to avoid actual file I/O in tests
 vi.mock("node:fs/promises", () => ({
   readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
   writeFile: vi.fn().mockResolvedValue(undefined),
   mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
 }));
 
 describe("PhraseStore", () => {
@@ -173,6 +179,35 @@ describe("PhraseStore", () => {
     expect(candidates[2].phrase).toBe("low");
   });
 
+  it("ranks candidates by tokens saved, frequency and recency", async () => {
+    const now = Date.parse("2026-01-29T00:00:00Z");
+    const seen = (daysAgo: number) => new Date(now - daysAgo * 86_400_000).toISOString();
+    const candidate = (tokensSaved: number, count: number, daysAgo: number) => ({
+      phrase: "p",
+      suggestedReplacement: "P",
+      tokensSaved,
+      count,
+      firstSeen: seen(daysAgo),
+      lastSeen: seen(daysAgo),
+    });
+
+    expect(PhraseStore.score(candidate(3, 4, 0), now)).toBe(12);
+    expect(PhraseStore.score(candidate(3, 4, 14), now)).toBe(6);
+
+    await store.addCandidate("frequent cheap", "FC", 100, 1);
+    await store.addCandidate("frequent cheap", null, 100);
+    await store.addCandidate("rare valuable", "RV", 100, 5);
+    const candidates = await store.getCandidates();
+    expect(candidates.map((c) => c.phrase)).toEqual(["rare valuable", "frequent cheap"]);
+  });
+
+  it("getReadyCandidates excludes candidates that save no tokens", async () => {
+    for (let i = 0; i < 5; i++) {
+      await store.addCandidate("no savings", "NS", 100, 0);
+    }
+    expect(await store.getReadyCandidates(5)).toEqual([]);
+  });
+
   it("is case-insensitive for keys", async () => {
     await store.addCandidate("Test Phrase", "TP", 100);
     await store.addCandidate("test phrase", null, 100);
@@ -181,4 +216,89 @@ describe("PhraseStore", () => {
     expect(candidates.length).toBe(1);
     expect(candidates[0].count).toBe(2);
   });
+
+  it("blocklists rejected candidates with a reason", async () => {
+    await store.addCandidate("the the", null, 100);
+    await store.reject("The The", "stutter, not a phrase");
+
+    expect(await store.isRejected("the the")).toBe(true);
+    const [rejected] = await store.getRejected();
+    expect(rejected.phrase).toBe("the the");
+    expect(rejected.reason).toBe("stutter, not a phrase");
+  });
+
+  it("demotes a promoted phrase back to candidates", async () => {
+    await store.promote("test phrase", "TP");
+    const replacement = await store.demote("test phrase", "candidates", "too ambiguous");
+
+    expect(replacement).toBe("TP");
+    expect(await store.getPromoted()).toEqual({});
+    const [candidate] = await store.getCandidates();
+    expect(candidate.suggestedReplacement).toBe("TP");
+    expect(candidate.count).toBe(0);
+  });
+
+  it("demotes a promoted phrase to the blocklist", async () => {
+    await store.promote("test phrase", "TP");
+    await store.demote("test phrase", "blocklist");
+
+    expect(await store.getCandidates()).toEqual([]);
+    expect(await store.isRejected("test phrase")).toBe(true);
+    expect(await store.demote("test phrase", "blocklist")).toBeNull();
+  });
+
+  it("lifts a blocklist entry on unblock or explicit promote", async () => {
+    await store.addCandidate("phrase a", "PA", 100);
+    await store.addCandidate("phrase b", "PB", 100);
+    await store.reject("phrase a");
+    await store.reject("phrase b");
+
+    expect(await store.unblock("phrase a")).toBe(true);
+    expect(await store.unblock("phrase a")).toBe(false);
+    await store.promote("phrase b", "PB");
+    expect(await store.getRejected()).toEqual([]);
+  });
+
+  it("records an audit trail, newest first", async () => {
+    await store.addCandidate("phrase a", "PA", 100);
+    await store.promote("phrase a", "PA", { reason: "common" });
+    await store.demote("phrase a", "blocklist", "clashes with code");
+
+    const audit = await store.getAudit();
+    expect(audit.map((e) => e.action)).toEqual(["demote", "promote"]);
+    expect(audit[0]).toMatchObject({
+      phrase: "phrase a",
+      replacement: "PA",
+      to: "blocklist",
+      reason: "clashes with code",
+    });
+    expect(await store.getAudit(1)).toHaveLength(1);
+  });
+
+  it("caps the audit trail", async () => {
+    for (let i = 0; i <= MAX_AUDIT_ENTRIES; i++) {
+      await store.promote(`phrase ${i}`, "P");
+    }
+    const audit = await store.getAudit();
+    expect(audit).toHaveLength(MAX_AUDIT_ENTRIES);
+    expect(audit[0].phrase).toBe(`phrase ${MAX_AUDIT_ENTRIES}`);
+  });
+
+  it("keeps an audit entry for reset", async () => {
+    await store.promote("phrase", "P");
+    await store.reset("starting over");
+
+    const audit = await store.getAudit();
+    expect(audit).toEqual([expect.objectContaining({ action: "reset", reason: "starting over" })]);
+  });
+
+  it("loads version 1 data without a blocklist or audit trail", async () => {
+    vi.mocked(readFile).mockResolvedValueOnce(
+      JSON.stringify({ version: 1, candidates: {}, promoted: { "old phrase": "OP" }, stats: {} })
+    );
+
+    expect(await store.getPromoted()).toEqual({ "old phrase": "OP" });
+    expect(await store.getRejected()).toEqual([]);
+    expect(await store.getAudit()).toEqual([]);
+  });
 });
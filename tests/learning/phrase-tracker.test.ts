@@ -2,12 +2,17 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { PhraseTracker } from "../../src/learning/PhraseTracker.js";
 import { PhraseStore } from "../../src/learning/PhraseStore.js";
 import type { LearningConfig } from "../../src/learning/types.js";
+import type { ITokenCounter } from "../../src/tokenizer/TokenCounter.js";
 
 // Mock fs to avoid actual file I/O in tests
 vi.mock("node:fs/promises", () => ({
   readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
   writeFile: vi.fn().mockResolvedValue(undefined),
   mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
 }));
 
 describe("PhraseTracker", () => {
@@ -56,6 +61,16 @@ describe("PhraseTracker", () => {
       expect(tracker.suggestReplacement("repository")).toBe("repo");
     });
 
+    it("returns null when no option saves a token", () => {
+      const wordy: ITokenCounter = {
+        name: "per-word",
+        count: (text) => text.trim().split(/\s+/).length,
+      };
+      const perWord = new PhraseTracker(store, config, wordy);
+      expect(perWord.suggestReplacement("machine learning")).toBe("ML");
+      expect(perWord.suggestReplacement("configuration")).toBeNull();
+    });
+
     it("returns null for unknown single words", () => {
       const result = tracker.suggestReplacement("something");
       expect(result).toBeNull();
@@ -84,7 +99,39 @@ describe("PhraseTracker", () => {
       expect(result.length).toBeGreaterThan(0);
 
       const phrases = result.map((r) => r.phrase.toLowerCase());
-      expect(phrases).toContain("the implementation details");
+      expect(phrases).toContain("implementation details");
+    });
+
+    it("drops n-grams that start or end with a stopword", async () => {
+      const text =
+        "the state of the system is bad. the state of the system is worse.";
+
+      const phrases = (await tracker.analyzeText(text)).map((r) => r.phrase);
+      expect(phrases).toContain("state of the system");
+      expect(phrases).not.toContain("of the system");
+      expect(phrases).not.toContain("the state");
+      expect(phrases).not.toContain("system is");
+    });
+
+    it("applies the stopwords of the detected language", async () => {
+      const text =
+        "проверка конфигурации для сервера прошла. проверка конфигурации для сервера упала.";
+
+      const phrases = (await tracker.analyzeText(text)).map((r) => r.phrase);
+      expect(phrases).toContain("проверка конфигурации для сервера");
+      expect(phrases).not.toContain("конфигурации для");
+    });
+
+    it("stores the estimated token savings with each candidate", async () => {
+      const text =
+        "machine learning model is great. machine learning model works well.";
+
+      await tracker.analyzeText(text);
+      const candidate = (await store.getCandidates()).find(
+        (c) => c.phrase === "machine learning model"
+      );
+      expect(candidate?.suggestedReplacement).toBe("MLM");
+      expect(candidate?.tokensSaved).toBe(tracker.tokensSaved("machine learning model", "MLM"));
     });
 
     it("stores candidates in PhraseStore", async () => {
@@ -96,6 +143,19 @@ describe("PhraseTracker", () => {
       expect(candidates.length).toBeGreaterThan(0);
     });
 
+    it("skips blocklisted phrases", async () => {
+      const text =
+        "machine learning model is great. machine learning model works well.";
+
+      await tracker.analyzeText(text);
+      await store.reject("machine learning model");
+      const result = await tracker.analyzeText(text);
+
+      expect(result.map((r) => r.phrase)).not.toContain("machine learning model");
+      const candidates = await store.getCandidates();
+      expect(candidates.map((c) => c.phrase)).not.toContain("machine learning model");
+    });
+
     it("ignores short texts", async () => {
       const result = await tracker.analyzeText("too short");
       expect(result).toEqual([]);
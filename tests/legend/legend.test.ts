@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { Legend } from "../../src/legend/Legend.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import type { Change } from "../../src/pipeline/stages/IStage.js";
+
+function change(original: string, replacement: string, rule: string): Change {
+  return { original, replacement, position: 0, rule };
+}
+
+describe("Legend", () => {
+  it("collects abbreviations and custom substitutions only", () => {
+    const entries = Legend.fromChanges([
+      change("function", "fn", "semantic:abbreviation"),
+      change("critical path", "CP", "semantic:custom"),
+      change("in order to", "to", "semantic:substitution"),
+      change("basically ", "", "cleanup:filler"),
+    ]);
+    expect(entries).toEqual([
+      { short: "fn", full: "function" },
+      { short: "CP", full: "critical path" },
+    ]);
+  });
+
+  it("skips custom substitutions that are plain words", () => {
+    const entries = Legend.fromChanges([
+      change("repository", "repo", "semantic:custom"),
+      change("Repository", "Repo", "semantic:custom"),
+      change("in the process of", "while", "semantic:custom"),
+      change("critical path", "CP", "semantic:custom"),
+    ]);
+    expect(entries).toEqual([{ short: "CP", full: "critical path" }]);
+  });
+
+  it("merges case variants of one abbreviation", () => {
+    const entries = Legend.fromChanges([
+      change("Function", "Fn", "semantic:abbreviation"),
+      change("function", "fn", "semantic:abbreviation"),
+    ]);
+    expect(entries).toEqual([{ short: "fn", full: "function" }]);
+  });
+
+  it("formats and parses symmetrically", () => {
+    const entries = [
+      { short: "fn", full: "function" },
+      { short: "CP", full: "critical path" },
+    ];
+    const line = Legend.format(entries);
+    expect(line).toBe("[legend: fn=function; CP=critical path]");
+    expect(Legend.parse(line)).toEqual(entries);
+    expect(Legend.parse("fn=function; CP=critical path")).toEqual(entries);
+  });
+
+  it("extracts the legend line from text", () => {
+    const { text, entries } = Legend.extract(
+      "Call fn.\n[legend: fn=function]\n[packed: 10->8 tokens, -20%]"
+    );
+    expect(entries).toEqual([{ short: "fn", full: "function" }]);
+    expect(text).toBe("Call fn.\n\n[packed: 10->8 tokens, -20%]");
+  });
+
+  it("expands with case matching and word boundaries", () => {
+    const result = Legend.expand("Fn calls fn, not fnord.", [
+      { short: "fn", full: "function" },
+    ]);
+    expect(result.text).toBe("Function calls function, not fnord.");
+    expect(result.expansions).toBe(2);
+  });
+
+  it("expands acronyms only in their exact case", () => {
+    const result = Legend.expand("The CP is on cp.", [
+      { short: "CP", full: "critical path" },
+    ]);
+    expect(result.text).toBe("The critical path is on cp.");
+  });
+
+  it("prefers the longest abbreviation and never re-expands", () => {
+    const result = Legend.expand("params and param", [
+      { short: "param", full: "parameter" },
+      { short: "params", full: "parameters" },
+      { short: "parameter", full: "should not apply" },
+    ]);
+    expect(result.text).toBe("parameters and parameter");
+  });
+
+  it("leaves code untouched", () => {
+    const result = Legend.expand("Use `fn()` in fn.", [
+      { short: "fn", full: "function" },
+    ]);
+    expect(result.text).toBe("Use `fn()` in function.");
+  });
+
+  it("is emitted by Pipeline when requested", async () => {
+    const pipeline = new Pipeline();
+    const config = {
+      level: "medium" as const,
+      preservePatterns: [],
+      tokenizer: "approximate" as const,
+      dictionary: DictionaryLoader.load("programming", "en", {
+        "critical path": "CP",
+      }),
+    };
+    const text = "The function is on the critical path.";
+
+    const plain = await pipeline.compress(text, config);
+    expect(plain.legend).toBeUndefined();
+
+    const result = await pipeline.compress(text, { ...config, legend: true });
+    expect(result.legend).toContainEqual({ short: "fn", full: "function" });
+    expect(result.legend).toContainEqual({ short: "CP", full: "critical path" });
+    expect(Legend.expand(result.compressed, result.legend!).text).toContain(
+      "function is on the critical path"
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { Markdown } from "../../src/markdown/Markdown.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { ContentTypeDetector } from "../../src/content/ContentTypeDetector.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import type { PipelineConfig } from "../../src/pipeline/stages/IStage.js";
+
+const DOC = [
+  "# Getting started",
+  "",
+  "Basically, in order to install the package you need the following steps.",
+  "",
+  "1. Install the dependencies, basically",
+  "2. Configure the application",
+  "   - set the environment variables, the database, the cache, the queue, the mailer",
+  "   - , run migrations",
+  "3. Start the server",
+  "",
+  "| Option | Description |",
+  "| ------ | ----------- |",
+  "| level | light, medium, aggressive, custom, none |",
+  "| level | light, medium, aggressive, custom, none |",
+  "| domain | In order to pick the dictionary |",
+  "",
+  "## Getting started",
+  "",
+  "See the [configuration guide][config] and [the docs](https://example.com/docs \"Docs\").",
+  "",
+  "[config]: https://example.com/config  \"In order to configure\"",
+].join("\n");
+
+function makeConfig(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+  return {
+    level: "aggressive",
+    preservePatterns: [],
+    tokenizer: "approximate",
+    dictionary: DictionaryLoader.load("general"),
+    ...overrides,
+  };
+}
+
+function tableRows(text: string): string[] {
+  return text.split("\n").filter((l) => l.startsWith("|"));
+}
+
+describe("Markdown", () => {
+  it("recognizes headings, tables and link definitions", () => {
+    expect(Markdown.isHeading("## Usage")).toBe(true);
+    expect(Markdown.isHeading("#hashtag")).toBe(false);
+    expect(Markdown.isTableRow("| a | b |")).toBe(true);
+    expect(Markdown.isTableRow("a | b | c")).toBe(true);
+    expect(Markdown.isTableRow("either a | b")).toBe(false);
+    expect(Markdown.isTableDelimiter("| --- | :---: |")).toBe(true);
+    expect(Markdown.isLinkDefinition("[docs]: https://example.com")).toBe(true);
+  });
+
+  it("splits list markers with their indentation", () => {
+    expect(Markdown.splitListMarker("  12. item")).toEqual({ prefix: "  12. ", content: "item" });
+    expect(Markdown.splitListMarker("- item")).toEqual({ prefix: "- ", content: "item" });
+    expect(Markdown.splitListMarker("plain text")).toEqual({ prefix: "", content: "plain text" });
+  });
+});
+
+describe("Markdown-aware compression", () => {
+  const pipeline = new Pipeline();
+
+  it("treats Markdown documents as prose", () => {
+    expect(ContentTypeDetector.detect(DOC)).toBe("prose");
+    expect(ContentTypeDetector.detect("# Title\n\n- one\n- two\n\n## Next\n\n- three")).toBe("prose");
+    expect(ContentTypeDetector.detect("| a | b |\n| --- | --- |\n| 1 | 2 |")).toBe("prose");
+  });
+
+  it("compresses table cells while keeping the table valid", async () => {
+    const result = await pipeline.compress(DOC, makeConfig());
+    const rows = tableRows(result.compressed);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[1]).toBe("| ------ | ----------- |");
+    for (const row of rows) {
+      expect(row.split("|")).toHaveLength(4);
+    }
+    // Cell commas are content, not a list to condense
+    expect(rows[2]).toContain("light, medium, aggressive, custom, none");
+    // Identical rows are data, not duplicate sentences
+    expect(rows[3]).toBe(rows[2]);
+    expect(rows[4]).not.toContain("In order to");
+  });
+
+  it("keeps headings and ordered-list numbering", async () => {
+    const result = await pipeline.compress(DOC, makeConfig());
+    const lines = result.compressed.split("\n");
+
+    expect(lines[0]).toBe("# Getting started");
+    expect(lines).toContain("## Getting started");
+    expect(lines.filter((l) => /^\d\. /.test(l)).map((l) => l[0])).toEqual(["1", "2", "3"]);
+  });
+
+  it("keeps nested list indentation and markers", async () => {
+    const result = await pipeline.compress(DOC, makeConfig());
+    const nested = result.compressed.split("\n").filter((l) => l.startsWith("   - "));
+
+    expect(nested).toHaveLength(2);
+    expect(nested[0]).toContain(";");
+    expect(nested[1]).toBe("   - run migrations");
+  });
+
+  it("preserves link destinations and reference definitions", async () => {
+    const result = await pipeline.compress(DOC, makeConfig());
+
+    expect(result.compressed).toContain("(https://example.com/docs \"Docs\")");
+    expect(result.compressed).toContain("[config]: https://example.com/config  \"In order to configure\"");
+  });
+});
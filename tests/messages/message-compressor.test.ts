@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  MessageCompressor,
+  type ChatMessage,
+  type MessageCompressConfig,
+} from "../../src/messages/MessageCompressor.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import { createServer } from "../../src/server.js";
+
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+const PROSE =
+  "In order to deploy the service, it is important to note that the configuration must be valid.";
+
+const CONFIG: MessageCompressConfig = {
+  preservePatterns: [],
+  tokenizer: "approximate",
+  dictionary: DictionaryLoader.load("general"),
+};
+
+const CODE = "```ts\nexport function handler() {\n\n  return loadConfiguration();\n}\n```";
+
+describe("MessageCompressor", () => {
+  const compressor = new MessageCompressor();
+
+  it("applies levels by role and leaves the latest user turn untouched", async () => {
+    const messages: ChatMessage[] = [
+      { role: "system", content: PROSE },
+      { role: "user", content: PROSE.replace("service", "api") },
+      { role: "assistant", content: PROSE.replace("service", "worker") },
+      { role: "user", content: PROSE.replace("service", "queue") },
+    ];
+    const result = await compressor.compress(messages, CONFIG);
+
+    expect(result.perMessage.map((m) => m.level)).toEqual([
+      "light",
+      "medium",
+      "aggressive",
+      "none",
+    ]);
+    expect(result.messages[3]).toEqual(messages[3]);
+    expect(result.messages[2].content).not.toMatch(/in order to/i);
+    expect(result.total.compressedTokens).toBeLessThan(result.total.originalTokens);
+    expect(result.total.originalTokens).toBe(
+      result.perMessage.reduce((sum, m) => sum + m.originalTokens, 0)
+    );
+  });
+
+  it("removes paragraphs and code blocks repeated from earlier turns", async () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: `Here is the handler:\n\n${CODE}` },
+      { role: "assistant", content: `The handler looks fine:\n\n${CODE}\n\nShip it.` },
+      { role: "assistant", content: CODE },
+      { role: "user", content: "Thanks" },
+    ];
+    const result = await compressor.compress(messages, CONFIG);
+
+    expect(result.messages[1].content).not.toContain("export function");
+    expect(result.messages[1].content).toContain("Ship it.");
+    expect(result.messages[2].content).toBe("[repeats message 0]");
+    expect(result.total.duplicatesRemoved).toBe(2);
+  });
+
+  it("never deduplicates into the latest user turn", async () => {
+    const messages: ChatMessage[] = [
+      { role: "assistant", content: CODE },
+      { role: "user", content: `Why does this fail?\n\n${CODE}` },
+    ];
+    const result = await compressor.compress(messages, CONFIG);
+    expect(result.messages[1]).toEqual(messages[1]);
+  });
+
+  it("compresses text parts and passes other parts through", async () => {
+    const image = { type: "image", source: { type: "base64", data: "AAAA" } };
+    const messages: ChatMessage[] = [
+      { role: "assistant", content: [{ type: "text", text: PROSE }, image], id: "msg_1" },
+      { role: "user", content: "Next?" },
+    ];
+    const result = await compressor.compress(messages, {
+      ...CONFIG,
+      policy: { assistant: "medium" },
+      dedupe: false,
+    });
+
+    const [text, part] = result.messages[0].content as Array<{ type: string; text?: string }>;
+    expect(result.messages[0].id).toBe("msg_1");
+    expect(text.text).not.toMatch(/in order to/i);
+    expect(part).toBe(image);
+  });
+
+  it("passes tool-call turns without content through", async () => {
+    const toolCall = {
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "deploy", arguments: "{}" } }],
+    };
+    const messages: ChatMessage[] = [
+      { role: "user", content: PROSE },
+      toolCall,
+      { role: "tool", content: PROSE.replace("service", "api"), tool_call_id: "call_1" },
+    ];
+    const result = await compressor.compress(messages, CONFIG);
+
+    expect(result.messages[1]).toEqual(toolCall);
+    expect(result.perMessage[1]).toMatchObject({ originalTokens: 0, compressedTokens: 0 });
+    expect(result.messages[2].content).not.toMatch(/in order to/i);
+  });
+
+  it("keeps fenced blocks whole when splitting", () => {
+    expect(MessageCompressor.splitBlocks(`a\n\n${CODE}\n\n\nb`)).toEqual(["a", CODE, "b"]);
+  });
+});
+
+describe("tksq_compress_messages", () => {
+  it("returns the new array with per-message stats", async () => {
+    const server = createServer();
+    const handler = (server as any)._registeredTools["tksq_compress_messages"].handler;
+    const result = await handler(
+      {
+        messages: [
+          { role: "system", content: PROSE },
+          { role: "user", content: "Deploy it." },
+        ],
+        tokenizer: "approximate",
+      },
+      {}
+    );
+
+    expect(result.isError).toBeUndefined();
+    const text: string = result.content[0].text;
+    const messages = JSON.parse(text.split("\n")[0]);
+    expect(messages[1]).toEqual({ role: "user", content: "Deploy it." });
+    expect(text).toMatch(/Tokens: \d+ -> \d+/);
+    expect(text).toContain("#0 system (light)");
+    expect(text).toContain("#1 user (none)");
+  });
+
+  it("accepts assistant turns with null content", async () => {
+    const server = createServer();
+    const tool = (server as any)._registeredTools["tksq_compress_messages"];
+    const args = {
+      messages: [
+        { role: "user", content: "Deploy it." },
+        { role: "assistant", content: null, tool_calls: [{ id: "call_1", type: "function" }] },
+      ],
+      tokenizer: "approximate",
+    };
+    expect(tool.inputSchema.safeParse(args).success).toBe(true);
+
+    const result = await tool.handler(args, {});
+    expect(result.isError).toBeUndefined();
+    const messages = JSON.parse(result.content[0].text.split("\n")[0]);
+    expect(messages[1]).toEqual(args.messages[1]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { LogStage } from "../../src/pipeline/stages/LogStage.js";
+import type { StageOptions } from "../../src/pipeline/stages/IStage.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+
+function makeOptions(level: "light" | "medium" | "aggressive" = "medium"): StageOptions {
+  return {
+    level,
+    preservedRegions: [],
+    dictionary: DictionaryLoader.load("general"),
+    contentType: "log",
+  };
+}
+
+describe("LogStage", () => {
+  const stage = new LogStage();
+
+  it("has correct id and name", () => {
+    expect(stage.id).toBe("log");
+    expect(stage.name).toBe("Log");
+  });
+
+  it("folds lines that differ only in timestamps and ids", () => {
+    const input = [
+      "2024-05-01T10:00:01Z WARN retry for job 3f2b8c1e-1d2a-4c3b-9e8f-0a1b2c3d4e5f at 0x7ffd",
+      "2024-05-01T10:00:02Z WARN retry for job 7a6b5c4d-3e2f-4a1b-8c9d-0e1f2a3b4c5d at 0x7ffe",
+      "2024-05-01T10:00:03Z WARN retry for job 11111111-2222-4333-8444-555555555555 at 0x8000",
+      "2024-05-01T10:00:04Z INFO done",
+    ].join("\n");
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(
+      "2024-05-01T10:00:01Z WARN retry for job 3f2b8c1e-1d2a-4c3b-9e8f-0a1b2c3d4e5f at 0x7ffd ×3\n" +
+        "10:00:04 INFO done"
+    );
+    expect(result.changes.some((c) => c.rule === "log:fold")).toBe(true);
+  });
+
+  it("keeps lines whose status or exit codes differ", () => {
+    const input = [
+      "GET /api/users/1 200",
+      "GET /api/users/2 500",
+      "worker exited with code 0",
+      "worker exited with code 137",
+    ].join("\n");
+    expect(stage.process(input, makeOptions("aggressive")).text).toBe(input);
+  });
+
+  it("only folds exact repeats on light", () => {
+    const input = "tick 1\ntick 2\ntick 2\ntick 2";
+    const result = stage.process(input, makeOptions("light"));
+    expect(result.text).toBe("tick 1\ntick 2 ×3");
+  });
+
+  it("keeps timestamps in full when the date changes", () => {
+    const input = "2024-05-01 23:59:59 start\n2024-05-02 00:00:01 end";
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(input);
+  });
+
+  it("trims JS library frames and keeps application frames", () => {
+    const input = [
+      "TypeError: x is undefined",
+      "    at getUser (/app/src/users.js:42:13)",
+      "    at Layer.handle (/app/node_modules/express/lib/router/layer.js:95:5)",
+      "    at next (/app/node_modules/express/lib/router/route.js:149:13)",
+      "    at processTicksAndRejections (node:internal/process/task_queues:95:5)",
+    ].join("\n");
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(
+      "TypeError: x is undefined\n" +
+        "    at getUser (/app/src/users.js:42:13)\n" +
+        "    ... 3 library frames"
+    );
+  });
+
+  it("trims Python library frames with their source lines", () => {
+    const input = [
+      "Traceback (most recent call last):",
+      '  File "/app/main.py", line 10, in <module>',
+      "    run()",
+      '  File "/usr/lib/python3.11/site-packages/click/core.py", line 1157, in __call__',
+      "    return self.main(*args, **kwargs)",
+      "ValueError: bad input",
+    ].join("\n");
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(
+      "Traceback (most recent call last):\n" +
+        '  File "/app/main.py", line 10, in <module>\n' +
+        "    run()\n" +
+        "  ... 1 library frame\n" +
+        "ValueError: bad input"
+    );
+  });
+
+  it("trims Java library frames", () => {
+    const input = [
+      "java.lang.IllegalStateException: boom",
+      "\tat java.base/java.util.Objects.requireNonNull(Objects.java:233)",
+      "\tat com.acme.orders.OrderService.place(OrderService.java:57)",
+      "\tat org.springframework.web.servlet.FrameworkServlet.service(FrameworkServlet.java:897)",
+      "\t... 12 more",
+    ].join("\n");
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(
+      "java.lang.IllegalStateException: boom\n" +
+        "\t... 1 library frame\n" +
+        "\tat com.acme.orders.OrderService.place(OrderService.java:57)\n" +
+        "\t... 1 library frame\n" +
+        "\t... 12 more"
+    );
+  });
+
+  it("keeps the first frame of an all-library stack", () => {
+    const input =
+      "Error\n    at a (node:internal/x:1:1)\n    at b (/app/node_modules/y/z.js:2:2)";
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(
+      "Error\n    at a (node:internal/x:1:1)\n    ... 1 library frame"
+    );
+  });
+
+  it("never folds preserved placeholders", () => {
+    const input = "\x00TKSQ_0\x00\n\x00TKSQ_1\x00";
+    const result = stage.process(input, makeOptions());
+    expect(result.text).toBe(input);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { PhraseMatcher } from "../../src/pipeline/matcher/PhraseMatcher.js";
+import { SemanticStage } from "../../src/pipeline/stages/SemanticStage.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+
+describe("PhraseMatcher", () => {
+  it("prefers the longest phrase at a position", () => {
+    const matcher = new PhraseMatcher(["in order", "in order to"], "latin");
+    const matches = matcher.findAll("We did it in order to win.");
+    expect(matches.map((m) => m.matched)).toEqual(["in order to"]);
+  });
+
+  it("settles overlaps like longest-first replace passes", () => {
+    // The longer phrase wins even when a shorter one starts further left
+    const matcher = new PhraseMatcher(["due to", "to the fact that"], "latin");
+    expect(matcher.findAll("due to the fact that").map((m) => m.matched)).toEqual([
+      "to the fact that",
+    ]);
+
+    // Equal lengths: the earlier dictionary entry wins, then the leftmost
+    const tied = new PhraseMatcher(["b c", "a b"], "latin");
+    expect(tied.findAll("a b c").map((m) => m.matched)).toEqual(["b c"]);
+    expect(tied.findAll("a b a b").map((m) => m.start)).toEqual([0, 4]);
+  });
+
+  it("counts accented letters as word characters", () => {
+    const matcher = new PhraseMatcher(["caf", "más"], "latin");
+    expect(matcher.findAll("café")).toHaveLength(0);
+    expect(matcher.findAll("es más rápido")).toHaveLength(1);
+  });
+
+  it("only matches on word boundaries", () => {
+    const matcher = new PhraseMatcher(["app", "e.g."], "latin");
+    expect(matcher.findAll("apply the app, happy apps")).toHaveLength(1);
+    expect(matcher.findAll("apply the app, happy apps")[0].start).toBe(10);
+    // Same as \be\.g\.\b: the trailing dot needs a word character after it
+    expect(matcher.findAll("e.g. this")).toHaveLength(0);
+    expect(matcher.findAll("e.g.x")).toHaveLength(1);
+  });
+
+  it("matches case-insensitively and reports the original text", () => {
+    const matcher = new PhraseMatcher(["due to the fact that"], "latin");
+    const [match] = matcher.findAll("Due To The Fact That it rained");
+    expect(match.phrase).toBe("due to the fact that");
+    expect(match.matched).toBe("Due To The Fact That");
+  });
+
+  it("uses letter boundaries for Cyrillic", () => {
+    const matcher = new PhraseMatcher(["в целях"], "cyrillic");
+    expect(matcher.findAll("В целях экономии")).toHaveLength(1);
+    expect(matcher.findAll("ав целях")).toHaveLength(0);
+    expect(matcher.findAll("в целяхх")).toHaveLength(0);
+  });
+
+  it("skips preserved-region placeholders", () => {
+    const matcher = new PhraseMatcher(["tksq", "config"], "latin");
+    const matches = matcher.findAll("config \x00TKSQ_0\x00 config");
+    expect(matches.map((m) => m.start)).toEqual([0, 16]);
+  });
+
+  it("falls back to shorter phrases when a match is rejected", () => {
+    const matcher = new PhraseMatcher(["data", "data base"], "latin");
+    const result = matcher.replace("data base", (m) =>
+      m.phrase === "data base" ? null : "D"
+    );
+    expect(result).toBe("D base");
+  });
+
+  it("caches compiled matchers per dictionary collection", () => {
+    const substitutions = new Map([["in order to", "to"]]);
+    const first = PhraseMatcher.for(substitutions, "latin");
+    expect(PhraseMatcher.for(substitutions, "latin")).toBe(first);
+
+    substitutions.set("so as to", "to");
+    const rebuilt = PhraseMatcher.for(substitutions, "latin");
+    expect(rebuilt).not.toBe(first);
+    expect(rebuilt.findAll("so as to")).toHaveLength(1);
+  });
+
+  it("keeps SemanticStage output on a large document", () => {
+    const dictionary = DictionaryLoader.load("programming");
+    const paragraph =
+      "In order to update the configuration, it is important to note that the " +
+      "function_name and the `database` handle authentication. Due to the fact " +
+      "that the application is large, the implementation uses the repository.\n";
+    const text = paragraph.repeat(500);
+
+    const result = new SemanticStage().process(text, {
+      level: "aggressive",
+      preservedRegions: [],
+      dictionary,
+    });
+
+    const [first] = result.text.split("\n");
+    expect(first).toContain("function_name");
+    expect(first).not.toMatch(/in order to/i);
+    expect(first).not.toMatch(/configuration|implementation|repository/);
+    expect(result.text.split("\n").filter(Boolean).every((l) => l === first)).toBe(true);
+  });
+});
@@ -107,4 +107,65 @@ describe("Pipeline", () => {
       "shorthand",
     ]);
   });
+
+  describe("budget mode", () => {
+    const verbose =
+      "It is important to note that in order to achieve the desired result, " +
+      "one should not forget that the implementation is responsible for " +
+      "handling the configuration and the parameters. " +
+      "I do not think this will not work properly.";
+
+    it("returns text untouched when it already fits", async () => {
+      const result = await pipeline.compress(verbose, {
+        ...makeConfig(),
+        budget: 10_000,
+      });
+      expect(result.compressed).toBe(verbose);
+      expect(result.stats.budget?.met).toBe(true);
+      expect(result.stats.budget?.step).toBe("none");
+      expect(result.stats.budget?.stepIndex).toBe(1);
+    });
+
+    it("stops at the first step that meets the budget", async () => {
+      const light = await pipeline.compress(verbose, makeConfig("light"));
+      const result = await pipeline.compress(verbose, {
+        ...makeConfig("aggressive"),
+        budget: light.stats.compressedTokens,
+      });
+      expect(result.stats.budget?.met).toBe(true);
+      expect(result.stats.budget?.step).toBe("light");
+      expect(result.stats.compressedTokens).toBeLessThanOrEqual(
+        light.stats.compressedTokens
+      );
+    });
+
+    it("reports how far short an unreachable budget fell", async () => {
+      const result = await pipeline.compress(verbose, {
+        ...makeConfig(),
+        budget: 1,
+      });
+      const budget = result.stats.budget!;
+      expect(budget.met).toBe(false);
+      expect(budget.step).toBe("aggressive");
+      expect(budget.stepIndex).toBe(budget.totalSteps);
+      expect(budget.overBy).toBe(result.stats.compressedTokens - 1);
+    });
+
+    it("leaves budget stats unset without a budget", async () => {
+      const result = await pipeline.compress(verbose, makeConfig());
+      expect(result.stats.budget).toBeUndefined();
+    });
+
+    it("rejects a negative budget", async () => {
+      await expect(
+        pipeline.compress(verbose, { ...makeConfig(), budget: -5 })
+      ).rejects.toThrow("Invalid token budget");
+    });
+
+    it("lists escalation steps mildest first", () => {
+      const steps = Pipeline.budgetSteps();
+      expect(steps[0]).toBe("none");
+      expect(steps[steps.length - 1]).toBe("aggressive");
+    });
+  });
 });
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { StagePluginLoader } from "../../src/pipeline/StagePluginLoader.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import type {
+  ICompressionStage,
+  PipelineConfig,
+} from "../../src/pipeline/stages/IStage.js";
+
+function ticketStage(): ICompressionStage {
+  return {
+    id: "ticket-ref",
+    name: "TicketRef",
+    process(text) {
+      return {
+        text: text.replace(/\bticket number (\d+)/gi, "#$1"),
+        changes: [],
+      };
+    },
+  };
+}
+
+function makeConfig(level: PipelineConfig["level"] = "medium"): PipelineConfig {
+  return {
+    level,
+    preservePatterns: [],
+    tokenizer: "approximate",
+    dictionary: DictionaryLoader.load("general"),
+  };
+}
+
+describe("Pipeline.registerStage", () => {
+  it("inserts a stage after the anchor for the given levels", () => {
+    const pipeline = new Pipeline();
+    pipeline.registerStage(ticketStage(), {
+      after: "cleanup",
+      levels: ["medium", "aggressive"],
+    });
+    expect(pipeline.stagesFor("light")).toEqual(["cleanup"]);
+    expect(pipeline.stagesFor("medium")).toEqual(["cleanup", "ticket-ref", "semantic"]);
+    expect(pipeline.stagesFor("aggressive")[1]).toBe("ticket-ref");
+    // Built-in level table is unaffected
+    expect(Pipeline.stagesForLevel("medium")).toEqual(["cleanup", "semantic"]);
+  });
+
+  it("appends when no anchor is given", () => {
+    const pipeline = new Pipeline();
+    pipeline.registerStage(ticketStage(), { levels: ["light"] });
+    expect(pipeline.stagesFor("light")).toEqual(["cleanup", "ticket-ref"]);
+  });
+
+  it("runs the plugin stage during compression", async () => {
+    const pipeline = new Pipeline();
+    pipeline.registerStage(ticketStage(), { levels: ["medium"] });
+    const result = await pipeline.compress("See ticket number 42.", makeConfig());
+    expect(result.compressed).toBe("See #42.");
+    expect(result.stats.stageBreakdown.map((s) => s.stage)).toContain("TicketRef");
+  });
+
+  it("is only used by explicit stages without levels", async () => {
+    const pipeline = new Pipeline();
+    pipeline.registerStage(ticketStage());
+    const byLevel = await pipeline.compress("ticket number 7", makeConfig());
+    expect(byLevel.compressed).toBe("ticket number 7");
+    const explicit = await pipeline.compress("ticket number 7", {
+      ...makeConfig(),
+      stages: ["ticket-ref"],
+    });
+    expect(explicit.compressed).toBe("#7");
+  });
+
+  it("rejects duplicate ids and unknown anchors", () => {
+    const pipeline = new Pipeline();
+    expect(() =>
+      pipeline.registerStage({ ...ticketStage(), id: "cleanup" })
+    ).toThrow("already registered");
+    expect(() =>
+      pipeline.registerStage(ticketStage(), { after: "nope" })
+    ).toThrow('unknown stage "nope"');
+  });
+
+  it("lists plugin stages in unknown-stage errors", async () => {
+    const pipeline = new Pipeline();
+    pipeline.registerStage(ticketStage());
+    await expect(
+      pipeline.compress("x", { ...makeConfig(), stages: ["missing"] })
+    ).rejects.toThrow("ticket-ref (plugin)");
+  });
+});
+
+describe("StagePluginLoader", () => {
+  const dir = mkdtempSync(join(tmpdir(), "tksq-plugins-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a { stage, after, levels } module relative to the base dir", async () => {
+    writeFileSync(
+      join(dir, "upper.mjs"),
+      "export default { stage: { id: 'upper', name: 'Upper', " +
+        "process: (text) => ({ text: text.toUpperCase(), changes: [] }) }, " +
+        "levels: ['light'] };"
+    );
+    const pipeline = new Pipeline();
+    const ids = await StagePluginLoader.registerAll(pipeline, ["./upper.mjs"], dir);
+    expect(ids).toEqual(["upper"]);
+    const result = await pipeline.compress("hello", makeConfig("light"));
+    expect(result.compressed).toBe("HELLO");
+  });
+
+  it("loads a bare stage export", async () => {
+    writeFileSync(
+      join(dir, "bare.mjs"),
+      "export default { id: 'bare', name: 'Bare', process: (text) => ({ text, changes: [] }) };"
+    );
+    const plugin = await StagePluginLoader.load("./bare.mjs", dir);
+    expect(plugin.stage.id).toBe("bare");
+    expect(plugin.levels).toBeUndefined();
+  });
+
+  it("rejects modules without a stage", async () => {
+    writeFileSync(join(dir, "bad.mjs"), "export default { hello: 1 };");
+    await expect(StagePluginLoader.load("./bad.mjs", dir)).rejects.toThrow(
+      "must default-export a stage"
+    );
+  });
+
+  it("reports missing modules", async () => {
+    await expect(StagePluginLoader.load("./missing.mjs", dir)).rejects.toThrow(
+      'Failed to load stage plugin "./missing.mjs"'
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from "vitest";
+import { Readable } from "node:stream";
+import { TextChunker } from "../../src/pipeline/streaming/TextChunker.js";
+import { PatternPreserver } from "../../src/pipeline/preserver/PatternPreserver.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+import type { PipelineConfig } from "../../src/pipeline/stages/IStage.js";
+import { createServer } from "../../src/server.js";
+
+vi.mock("node:fs/promises", () => ({
+  readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
+}));
+
+function makeConfig(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+  return {
+    level: "aggressive",
+    preservePatterns: [],
+    tokenizer: "approximate",
+    dictionary: DictionaryLoader.load("general"),
+    ...overrides,
+  };
+}
+
+function paragraphs(count: number): string {
+  return Array.from(
+    { length: count },
+    (_, i) => `Paragraph ${i}: in order to explain this, it is important to note that step ${i} matters.`
+  ).join("\n\n");
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("TextChunker", () => {
+  it("splits at paragraph breaks near the chunk size", () => {
+    const text = paragraphs(20);
+    const chunks = TextChunker.split(text, 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("\n\n")).toBe(text);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("Paragraph")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(300);
+    }
+  });
+
+  it("never splits inside a fenced code block", () => {
+    const code = "```js\nconst a = 1;\n\n\nconst b = 2;\n```";
+    const text = [paragraphs(3), code, paragraphs(3)].join("\n\n");
+    const chunks = TextChunker.split(text, 40);
+
+    expect(chunks.some((c) => c.includes(code))).toBe(true);
+    expect(chunks.join("\n\n")).toBe(text);
+  });
+
+  it("gives the same chunks when fed piece by piece", () => {
+    const text = paragraphs(30);
+    const chunker = new TextChunker(500);
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += 37) {
+      chunks.push(...chunker.push(text.slice(i, i + 37)));
+    }
+    chunks.push(...chunker.flush());
+
+    expect(chunks.join("\n\n")).toBe(text);
+    expect(chunks.every((c) => c.length <= 500)).toBe(true);
+  });
+
+  it("chunks code fences and wide breaks the same when fed piece by piece", () => {
+    const code = "```js\nconst a = 1;\n\n\nconst b = 2;\n```";
+    const text = [paragraphs(4), code, paragraphs(2)].join("\n\n \n\n");
+    for (const step of [1, 7, 50]) {
+      const chunker = new TextChunker(120);
+      const chunks: string[] = [];
+      for (let i = 0; i < text.length; i += step) {
+        chunks.push(...chunker.push(text.slice(i, i + step)));
+      }
+      chunks.push(...chunker.flush());
+
+      expect(chunks).toEqual(TextChunker.split(text, 120));
+      expect(chunks).toContain(code);
+    }
+  });
+
+  it("only rescans the buffer for preserved regions when a new break arrives", () => {
+    const findRegions = vi.spyOn(PatternPreserver.prototype, "findRegions");
+    const chunker = new TextChunker(100);
+    for (let i = 0; i < 1000; i++) {
+      chunker.push(`line ${i} of one long log paragraph\n`);
+    }
+    expect(findRegions).not.toHaveBeenCalled();
+
+    chunker.push("\nNext paragraph.");
+    expect(findRegions).toHaveBeenCalledTimes(1);
+    findRegions.mockRestore();
+  });
+
+  it("rejects invalid chunk sizes", () => {
+    expect(() => new TextChunker(0)).toThrow("Invalid chunk size");
+  });
+});
+
+describe("Pipeline streaming", () => {
+  const pipeline = new Pipeline();
+
+  it("yields chunks in order that concatenate to the output", async () => {
+    const text = paragraphs(40);
+    const chunks = await collect(
+      pipeline.compressStream([text], makeConfig(), { chunkSize: 500, readAhead: 3 })
+    );
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.map((c) => c.index)).toEqual(chunks.map((_, i) => i));
+    const output = chunks.map((c) => c.text).join("");
+    expect(output).not.toMatch(/in order to/i);
+    const numbers = [...output.matchAll(/Paragraph (\d+)/g)].map((m) => Number(m[1]));
+    expect(numbers).toEqual(numbers.map((_, i) => i));
+  });
+
+  it("reads Node streams of UTF-8 bytes", async () => {
+    const text = "Привет, мир. ".repeat(50) + "\n\n" + paragraphs(5);
+    const bytes = Buffer.from(text, "utf-8");
+    // Split mid-character to exercise the streaming decoder
+    const pieces = [bytes.subarray(0, 7), bytes.subarray(7, 501), bytes.subarray(501)];
+    const chunks = await collect(
+      pipeline.compressStream(Readable.from(pieces), makeConfig({ level: "light" }), {
+        chunkSize: 200,
+      })
+    );
+
+    const output = chunks.map((c) => c.text).join("");
+    expect(output).toContain("Привет, мир.");
+    expect(output).not.toContain("�");
+  });
+
+  it("deduplicates repeated lines across chunks", async () => {
+    const repeated = "This sentence appears in more than one chunk of the input.";
+    const text = [repeated, paragraphs(10), repeated, "The end."].join("\n\n");
+    const result = await pipeline.compressChunked(text, makeConfig(), { chunkSize: 200 });
+
+    const [first] = result.compressed.split("\n");
+    expect(result.stats.chunks).toBeGreaterThan(2);
+    expect(result.compressed.split(first)).toHaveLength(2);
+    expect(result.compressed).toContain("The end.");
+  });
+
+  it("reports progress and merges stats", async () => {
+    const progress: Array<[number, number]> = [];
+    const text = paragraphs(30);
+    const result = await pipeline.compressChunked(text, makeConfig(), {
+      chunkSize: 400,
+      onProgress: (done, total) => {
+        progress.push([done, total]);
+      },
+    });
+
+    const total = result.stats.chunks!;
+    expect(progress).toEqual(
+      Array.from({ length: total }, (_, i) => [i + 1, total])
+    );
+    expect(result.stats.originalChars).toBeGreaterThan(result.stats.compressedChars);
+    expect(result.stats.compressedChars).toBe(result.compressed.length);
+    expect(result.stats.stageBreakdown.map((s) => s.stage)).toEqual([
+      "Cleanup",
+      "Semantic",
+      "Structural",
+      "Shorthand",
+    ]);
+  });
+
+  it("rejects budget mode", async () => {
+    await expect(
+      pipeline.compressChunked("text", makeConfig({ budget: 10 }))
+    ).rejects.toThrow("Token budget is not supported");
+  });
+});
+
+describe("tksq_compress progress", () => {
+  it("sends progress notifications for very large inputs", async () => {
+    const server = createServer();
+    const handler = (server as any)._registeredTools["tksq_compress"].handler;
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const text = paragraphs(1000);
+
+    const result = await handler(
+      { text, tokenizer: "approximate" },
+      { _meta: { progressToken: "tok" }, sendNotification }
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toMatch(/Chunks: \d+/);
+    expect(sendNotification).toHaveBeenCalled();
+    const last = sendNotification.mock.calls.at(-1)![0];
+    expect(last.method).toBe("notifications/progress");
+    expect(last.params.progressToken).toBe("tok");
+    expect(last.params.progress).toBe(last.params.total);
+  });
+});
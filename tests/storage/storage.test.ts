@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir, hostname } from "node:os";
+import { join } from "node:path";
+import { AtomicFile } from "../../src/storage/AtomicFile.js";
+import { FileLock, FileLockTimeoutError } from "../../src/storage/FileLock.js";
+
+// Well above any real pid on Linux (pid_max is at most 2^22)
+const DEAD_PID = 2 ** 22 + 1;
+
+describe("storage", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "tksq-storage-"));
+    path = join(dir, "data.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("replaces files atomically without leaving temp files", async () => {
+    await AtomicFile.write(path, "one");
+    await AtomicFile.write(path, "two");
+
+    expect(await readFile(path, "utf-8")).toBe("two");
+    expect(await readdir(dir)).toEqual(["data.json"]);
+  });
+
+  it("runs locked sections one at a time", async () => {
+    const events: string[] = [];
+    const section = (name: string) =>
+      FileLock.withLock(path, async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([section("a"), section("b")]);
+
+    expect(events).toEqual(
+      events[0] === "a start"
+        ? ["a start", "a end", "b start", "b end"]
+        : ["b start", "b end", "a start", "a end"]
+    );
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("takes over a lock left by a dead process", async () => {
+    await writeFile(
+      FileLock.lockPath(path),
+      JSON.stringify({ pid: DEAD_PID, host: hostname() }),
+      "utf-8"
+    );
+
+    await expect(FileLock.withLock(path, async () => "ran", { timeoutMs: 500 })).resolves.toBe("ran");
+  });
+
+  it("leaves a lock taken over by another holder in place", async () => {
+    const successor = JSON.stringify({ pid: process.pid, host: hostname(), token: "successor" });
+    await FileLock.withLock(path, async () => {
+      // Another process decided this holder's lock was stale and took it
+      await writeFile(FileLock.lockPath(path), successor, "utf-8");
+    });
+
+    expect(await readFile(FileLock.lockPath(path), "utf-8")).toBe(successor);
+  });
+
+  it("times out while a live process holds the lock", async () => {
+    await writeFile(
+      FileLock.lockPath(path),
+      JSON.stringify({ pid: process.pid, host: hostname() }),
+      "utf-8"
+    );
+
+    await expect(FileLock.withLock(path, async () => "ran", { timeoutMs: 50 })).rejects.toThrow(
+      FileLockTimeoutError
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { JsonCompressor, TABULAR_LEGEND } from "../../src/structured/JsonCompressor.js";
+import { JsonStage } from "../../src/pipeline/stages/JsonStage.js";
+import { Pipeline } from "../../src/pipeline/Pipeline.js";
+import { DictionaryLoader } from "../../src/dictionaries/DictionaryLoader.js";
+
+const PAYLOAD = JSON.stringify(
+  {
+    total: 2,
+    next: null,
+    users: [
+      { id: 1, name: "Ann", email: "", tags: [] },
+      { id: 2, name: "Bob", email: "bob@example.com", tags: ["admin"] },
+    ],
+  },
+  null,
+  2
+);
+
+const NO_OPTIONS = { dropEmpty: false, tabular: false };
+
+describe("JsonCompressor", () => {
+  it("minifies without changing values", () => {
+    const result = JsonCompressor.compress(PAYLOAD, NO_OPTIONS);
+    expect(result.text).not.toContain("\n");
+    expect(JSON.parse(result.text)).toEqual(JSON.parse(PAYLOAD));
+    expect(result.legend).toBeNull();
+  });
+
+  it("drops null and empty object fields but keeps array positions", () => {
+    const result = JsonCompressor.compress(
+      '{"a": null, "b": [null, 1], "c": {"d": ""}, "e": 0, "f": false}',
+      { ...NO_OPTIONS, dropEmpty: true }
+    );
+    expect(JSON.parse(result.text)).toEqual({ b: [null, 1], e: 0, f: false });
+    expect(result.droppedFields).toBe(3);
+  });
+
+  it("packs same-shaped objects into $cols/$rows with a legend", () => {
+    const result = JsonCompressor.compress(PAYLOAD, { ...NO_OPTIONS, tabular: true });
+    const parsed = JSON.parse(result.text);
+    expect(parsed.users.$cols).toEqual(["id", "name", "email", "tags"]);
+    expect(parsed.users.$rows[1]).toEqual([2, "Bob", "bob@example.com", ["admin"]]);
+    expect(result.tabularArrays).toBe(1);
+    expect(result.legend).toBe(TABULAR_LEGEND);
+  });
+
+  it("leaves differently shaped arrays alone", () => {
+    const result = JsonCompressor.compress('[{"a": 1}, {"b": 2}]', {
+      ...NO_OPTIONS,
+      tabular: true,
+    });
+    expect(result.text).toBe('[{"a":1},{"b":2}]');
+    expect(result.tabularArrays).toBe(0);
+  });
+
+  it("does not round integers beyond 2^53", () => {
+    const text = '{ "id": 12345678901234567890, "note": "a  b" }';
+    const result = JsonCompressor.compress(text, { dropEmpty: true, tabular: true });
+    expect(result.text).toBe('{"id":12345678901234567890,"note":"a  b"}');
+  });
+
+  it("keeps a __proto__ key as data", () => {
+    const result = JsonCompressor.compress('{"__proto__": {"x": 1}, "y": null}', {
+      dropEmpty: true,
+      tabular: false,
+    });
+    expect(result.text).toBe('{"__proto__":{"x":1}}');
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() => JsonCompressor.compress("{nope", NO_OPTIONS)).toThrow();
+  });
+});
+
+describe("JsonStage", () => {
+  const stage = new JsonStage();
+
+  it("has correct id and name", () => {
+    expect(stage.id).toBe("json");
+    expect(stage.name).toBe("Json");
+  });
+
+  it("ignores non-JSON text", () => {
+    const result = stage.process("key: value", {
+      level: "aggressive",
+      preservedRegions: [],
+      dictionary: DictionaryLoader.load("general"),
+    });
+    expect(result.text).toBe("key: value");
+    expect(result.changes).toHaveLength(0);
+  });
+
+  it("runs automatically for JSON and keeps URLs intact", async () => {
+    const pipeline = new Pipeline();
+    const text = JSON.stringify(
+      { link: "https://example.com/a?b=1", empty: null, items: [{ a: 1 }, { a: 2 }] },
+      null,
+      2
+    );
+    const result = await pipeline.compress(text, {
+      level: "aggressive",
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general"),
+    });
+    expect(result.stats.contentType).toBe("structured");
+    const [body, legend] = result.compressed.split("\n");
+    expect(JSON.parse(body)).toEqual({
+      link: "https://example.com/a?b=1",
+      empty: null,
+      items: { $cols: ["a"], $rows: [[1], [2]] },
+    });
+    expect(legend).toBe(TABULAR_LEGEND);
+  });
+
+  it("drops empty fields only when asked", async () => {
+    const pipeline = new Pipeline();
+    const text = JSON.stringify({ id: 1, note: null, tags: [] }, null, 2);
+    const config = {
+      level: "medium" as const,
+      preservePatterns: [],
+      tokenizer: "approximate" as const,
+      dictionary: DictionaryLoader.load("general"),
+    };
+
+    expect((await pipeline.compress(text, config)).compressed).toBe('{"id":1,"note":null,"tags":[]}');
+    expect((await pipeline.compress(text, { ...config, dropEmptyJson: true })).compressed).toBe(
+      '{"id":1}'
+    );
+  });
+
+  it("keeps dollar sequences in preserved URLs literal", async () => {
+    const pipeline = new Pipeline();
+    const link = "https://example.com/q?a=$&b=$'c=$`";
+    const result = await pipeline.compress(JSON.stringify({ link }, null, 2), {
+      level: "medium",
+      preservePatterns: [],
+      tokenizer: "approximate",
+      dictionary: DictionaryLoader.load("general"),
+    });
+    expect(JSON.parse(result.compressed)).toEqual({ link });
+  });
+});
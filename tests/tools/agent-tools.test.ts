@@ -1,11 +1,16 @@
 import { describe, it, expect, vi } from "vitest";
-import { createServer } from "../../src/server.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer, ServerState } from "../../src/server.js";
 
 // Mock fs for PhraseStore
 vi.mock("node:fs/promises", () => ({
   readFile: vi.fn().mockRejectedValue(new Error("ENOENT")),
   writeFile: vi.fn().mockResolvedValue(undefined),
   mkdir: vi.fn().mockResolvedValue(undefined),
+  rename: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+  appendFile: vi.fn().mockResolvedValue(undefined),
+  stat: vi.fn().mockRejectedValue(new Error("ENOENT")),
 }));
 
 function getToolHandler(name: string) {
@@ -149,8 +154,68 @@ describe("Agent orchestration tools", () => {
     });
   });
 
+  describe("tksq_expand", () => {
+    it("round-trips a packed legend", async () => {
+      const server = createServer();
+      const tools = (server as any)._registeredTools;
+      await tools["tksq_learn"].handler(
+        { action: "add", phrase: "critical path", replacement: "CP" },
+        {}
+      );
+
+      const packed = await tools["tksq_pack"].handler(
+        { text: "The critical path is blocked. Shorten the critical path.", legend: true },
+        {}
+      );
+      const packedText: string = packed.content[0].text;
+      expect(packedText).toContain("[legend: CP=critical path]");
+      expect(packedText).not.toContain("Shorten the critical path");
+
+      const result = await tools["tksq_expand"].handler({ text: packedText }, {});
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain("Shorten the critical path");
+      expect(result.content[0].text).not.toContain("[legend:");
+    });
+
+    it("accepts a legend argument", async () => {
+      const expand = getToolHandler("tksq_expand");
+      const result = await expand(
+        { text: "Fix the CP in fn.", legend: "[legend: CP=critical path; fn=function]" },
+        {}
+      );
+      expect(result.content[0].text).toContain("Fix the critical path in function.");
+    });
+
+    it("errors without a legend", async () => {
+      const expand = getToolHandler("tksq_expand");
+      const result = await expand({ text: "no legend here" }, {});
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe("tksq_compress_json", () => {
+    it("returns minified JSON with stats", async () => {
+      const handler = getToolHandler("tksq_compress_json");
+      const result = await handler(
+        { json: '{\n  "a": [\n    {"x": 1},\n    {"x": 2}\n  ]\n}', tabular: true },
+        {}
+      );
+      const [body, legend] = result.content[0].text.split("\n");
+      expect(JSON.parse(body)).toEqual({ a: { $cols: ["x"], $rows: [[1], [2]] } });
+      expect(legend).toContain("[json:");
+      expect(result.content[0].text).toContain("Tabular arrays: 1");
+    });
+
+    it("reports invalid JSON", async () => {
+      const handler = getToolHandler("tksq_compress_json");
+      const result = await handler({ json: "{oops" }, {});
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("JSON compression error");
+    });
+  });
+
   describe("tool registration", () => {
-    it("registers all 9 tools", () => {
+    it("registers all 14 tools", () => {
       const server = createServer();
       const tools = (server as any)._registeredTools;
       const toolNames = Object.keys(tools);
@@ -164,7 +229,48 @@ describe("Agent orchestration tools", () => {
       expect(toolNames).toContain("tksq_dashboard");
       expect(toolNames).toContain("tksq_agent_prompt");
       expect(toolNames).toContain("tksq_pack");
-      expect(toolNames.length).toBe(9);
+      expect(toolNames).toContain("tksq_expand");
+      expect(toolNames).toContain("tksq_compress_json");
+      expect(toolNames).toContain("tksq_compress_messages");
+      expect(toolNames).toContain("tksq_history");
+      expect(toolNames).toContain("tksq_detect_language");
+      expect(toolNames.length).toBe(14);
+    });
+
+    it("registers the shutdown handlers once", () => {
+      createServer();
+      const sigint = process.listenerCount("SIGINT");
+      const sigterm = process.listenerCount("SIGTERM");
+      createServer();
+      createServer();
+      expect(process.listenerCount("SIGINT")).toBe(sigint);
+      expect(process.listenerCount("SIGTERM")).toBe(sigterm);
+    });
+
+    it("flushes a closed server's state once and drops it from shutdown", async () => {
+      createServer();
+      const onSignal = process.listeners("SIGINT").find((l) => l.name === "flushAndExit")!;
+      const flush = vi.spyOn(ServerState.prototype, "flush").mockResolvedValue();
+      const exit = vi.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+
+      try {
+        await onSignal("SIGINT");
+        const open = flush.mock.calls.length;
+
+        const server = createServer();
+        const [, transport] = InMemoryTransport.createLinkedPair();
+        await server.connect(transport);
+        flush.mockClear();
+        await server.close();
+        expect(flush).toHaveBeenCalledTimes(1);
+
+        flush.mockClear();
+        await onSignal("SIGINT");
+        expect(flush).toHaveBeenCalledTimes(open);
+      } finally {
+        flush.mockRestore();
+        exit.mockRestore();
+      }
     });
   });
 });